@@ -0,0 +1,116 @@
+import React from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { getApiErrorMessage } from '../../utils/apiError';
+import { EMPTY_HISTORY_FILTERS, STATUS_RANGES, toApiLogFilters, type HistoryFilters } from '../../utils/apiLogFilters';
+import { HELIX_METHODS } from '../../utils/requestPaths';
+import apiLogService from '../../services/apiLogService';
+import type { SavedToken } from '../../types/index';
+
+interface ApiLogFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  tokens: SavedToken[];
+  total: number; // Logs matching the filters
+  onLogsDeleted: () => void;
+}
+
+/**
+ * Search and filters of the request history, with the bulk delete of the matching logs
+ */
+export const ApiLogFilterBar: React.FC<ApiLogFilterBarProps> = ({ filters, onChange, tokens, total, onLogsDeleted }) => {
+  const { t } = useTranslation();
+
+  const hasFilters = Object.keys(toApiLogFilters(filters)).length > 0;
+
+  const handleDeleteMatching = async () => {
+    if (!window.confirm(t('apiTester.deleteMatchingConfirmation', { count: total }))) {
+      return;
+    }
+
+    try {
+      const { count } = await apiLogService.deleteAllLogs(toApiLogFilters(filters));
+      toast.success(t('apiTester.logsDeleted', { count }));
+      onLogsDeleted();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <input
+        type="search"
+        value={filters.q}
+        onChange={(e) => onChange({ ...filters, q: e.target.value })}
+        placeholder={t('apiTester.searchLogs')}
+        className="w-full px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={filters.method}
+          onChange={(e) => onChange({ ...filters, method: e.target.value })}
+          className="px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+        >
+          <option value="">{t('apiTester.allMethods')}</option>
+          {HELIX_METHODS.map((helixMethod) => (
+            <option key={helixMethod} value={helixMethod}>{helixMethod}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => onChange({ ...filters, status: e.target.value })}
+          className="px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+        >
+          <option value="">{t('apiTester.allStatuses')}</option>
+          {Object.keys(STATUS_RANGES).map((range) => (
+            <option key={range} value={range}>{range}</option>
+          ))}
+        </select>
+        <select
+          value={filters.tokenId}
+          onChange={(e) => onChange({ ...filters, tokenId: e.target.value })}
+          className="min-w-0 px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+        >
+          <option value="">{t('apiTester.allTokens')}</option>
+          {tokens.map((token) => (
+            <option key={token.id} value={token.id}>
+              {token.name || `${token.tokenType.toUpperCase()} Token`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => onChange({ ...filters, from: e.target.value })}
+          title={t('apiTester.from')}
+          className="px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => onChange({ ...filters, to: e.target.value })}
+          title={t('apiTester.to')}
+          className="px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+        />
+      </div>
+      {hasFilters && (
+        <div className="flex items-center justify-between text-xs text-white/60">
+          <span>{t('apiTester.matchingLogs', { count: total })}</span>
+          <div className="flex gap-3">
+            {total > 0 && (
+              <button onClick={handleDeleteMatching} className="text-red-400 hover:text-red-300">
+                {t('apiTester.deleteMatching')}
+              </button>
+            )}
+            <button onClick={() => onChange(EMPTY_HISTORY_FILTERS)} className="hover:text-white">
+              {t('apiTester.clearFilters')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
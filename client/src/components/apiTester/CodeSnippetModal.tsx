@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import {
+  generateSnippet,
+  isHelixUrl,
+  HELIX_BASE_URL,
+  SNIPPET_LANGUAGES,
+  type SnippetLanguage,
+  type SnippetRequest,
+} from '../../utils/codeSnippets';
+import { getApiErrorMessage } from '../../utils/apiError';
+import tokenService from '../../services/tokenService';
+
+// Request shown in the "copy as code" dialog
+export interface SnippetSource {
+  method: string;
+  endpoint: string; // Helix path, or full URL for other Twitch APIs
+  body: unknown;
+  tokenId: string | null;
+  headers: Record<string, string> | null; // Logged headers, used for non-Helix URLs
+}
+
+/**
+ * Snippet request of a source, with placeholders unless the credentials are given
+ */
+const buildSnippetRequest = (
+  source: SnippetSource,
+  credentials: { accessToken: string; clientId: string } | null
+): SnippetRequest => {
+  const url = source.endpoint.startsWith('/') ? `${HELIX_BASE_URL}${source.endpoint}` : source.endpoint;
+  const headers: Record<string, string> = isHelixUrl(url)
+    ? {
+      Authorization: `Bearer ${credentials?.accessToken || '<ACCESS_TOKEN>'}`,
+      'Client-Id': credentials?.clientId || '<CLIENT_ID>',
+    }
+    : { ...source.headers };
+
+  const body = source.body ?? undefined;
+  if (body !== undefined && !Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  return { method: source.method, url, headers, body };
+};
+
+interface CodeSnippetModalProps {
+  source: SnippetSource;
+  onClose: () => void;
+}
+
+/**
+ * "Copy as code" dialog of a request, in each snippet language
+ */
+export const CodeSnippetModal: React.FC<CodeSnippetModalProps> = ({ source, onClose }) => {
+  const { t } = useTranslation();
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [credentials, setCredentials] = useState<{ accessToken: string; clientId: string } | null>(null);
+
+  // The access token is only fetched when the user asks to include it
+  const handleIncludeCredentialsChange = async (include: boolean) => {
+    setIncludeCredentials(include);
+    if (!include || credentials || !source.tokenId) {
+      return;
+    }
+
+    try {
+      const token = await tokenService.getToken(source.tokenId);
+      if (!token.accessToken) {
+        throw new Error(t('errors.somethingWentWrong'));
+      }
+      setCredentials({ accessToken: token.accessToken, clientId: token.twitchConfig.clientId });
+    } catch (error) {
+      setIncludeCredentials(false);
+      toast.error(getApiErrorMessage(error) || (error instanceof Error && error.message) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const request = buildSnippetRequest(source, includeCredentials ? credentials : null);
+  const languages = SNIPPET_LANGUAGES.filter((item) => item.id !== 'twurple' || isHelixUrl(request.url));
+  const activeLanguage = languages.some((item) => item.id === language) ? language : 'curl';
+  const code = generateSnippet(activeLanguage, request);
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(code);
+    toast.success(t('tokens.copy') + '!');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <Card className="max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-white mb-4">{t('apiTester.copyAsCode')}</h2>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {languages.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => setLanguage(item.id)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                activeLanguage === item.id
+                  ? 'bg-twitch-purple text-white'
+                  : 'bg-twitch-dark-light text-white/60 hover:text-white'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {isHelixUrl(request.url) && source.tokenId && (
+          <label className="flex items-center gap-2 text-sm text-white/80 mb-2">
+            <input
+              type="checkbox"
+              checked={includeCredentials}
+              onChange={(e) => handleIncludeCredentialsChange(e.target.checked)}
+              className="rounded border-twitch-gray-dark"
+            />
+            {t('apiTester.includeCredentials')}
+          </label>
+        )}
+        {includeCredentials && credentials && (
+          <p className="mb-2 text-xs text-red-400">{t('apiTester.credentialsIncludedWarning')}</p>
+        )}
+
+        <div className="bg-twitch-dark border border-twitch-gray-dark rounded-lg overflow-hidden mb-4">
+          <pre className="p-4 overflow-x-auto text-xs text-white/80 font-mono max-h-[50vh] overflow-y-auto">
+            {code}
+          </pre>
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            {t('common.close')}
+          </Button>
+          <Button onClick={copyToClipboard} className="flex-1">
+            {t('tokens.copy')}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
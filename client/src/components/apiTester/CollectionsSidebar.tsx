@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { getApiErrorMessage } from '../../utils/apiError';
+import { buildSavedRequestPath } from '../../utils/requestPaths';
+import collectionService from '../../services/collectionService';
+import type { RequestCollection, SavedRequest } from '../../types/index';
+
+interface CollectionsSidebarProps {
+  collections: RequestCollection[];
+  activeRequestId: string | null;
+  isLoading: boolean;
+  onCollectionsChange: (collections: RequestCollection[]) => void; // Applied before the server confirms a reorder
+  onReload: () => void;
+  onOpen: (request: SavedRequest) => void;
+  onRun: (request: SavedRequest) => void;
+}
+
+/**
+ * Copy of a list with one item moved to another index
+ */
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  if (item !== undefined) {
+    next.splice(to, 0, item);
+  }
+  return next;
+};
+
+/**
+ * Sidebar of the saved request collections: create, rename, reorder, open and run
+ */
+export const CollectionsSidebar: React.FC<CollectionsSidebarProps> = ({
+  collections,
+  activeRequestId,
+  isLoading,
+  onCollectionsChange,
+  onReload,
+  onOpen,
+  onRun,
+}) => {
+  const { t } = useTranslation();
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [editingCollectionId, setEditingCollectionId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleCreateCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCollectionName.trim()) {
+      return;
+    }
+
+    try {
+      await collectionService.createCollection(newCollectionName.trim());
+      setNewCollectionName('');
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleRenameCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingCollectionId || !editingName.trim()) {
+      return;
+    }
+
+    try {
+      await collectionService.updateCollection(editingCollectionId, editingName.trim());
+      setEditingCollectionId(null);
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleDeleteCollection = async (collection: RequestCollection) => {
+    if (!window.confirm(t('collections.deleteConfirmation', { name: collection.name, count: collection.requests.length }))) {
+      return;
+    }
+
+    try {
+      await collectionService.deleteCollection(collection.id);
+      toast.success(t('collections.deleted'));
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleDeleteSavedRequest = async (request: SavedRequest) => {
+    if (!window.confirm(t('collections.deleteRequestConfirmation', { name: request.name }))) {
+      return;
+    }
+
+    try {
+      await collectionService.deleteRequest(request.collectionId, request.id);
+      toast.success(t('collections.requestDeleted'));
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  // Reordering is applied locally first, the list is reloaded if the server rejects it
+  const handleMoveCollection = async (index: number, to: number) => {
+    const reordered = moveItem(collections, index, to);
+    onCollectionsChange(reordered);
+
+    try {
+      await collectionService.reorderCollections(reordered.map((collection) => collection.id));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+      onReload();
+    }
+  };
+
+  const handleMoveSavedRequest = async (collection: RequestCollection, index: number, to: number) => {
+    const requests = moveItem(collection.requests, index, to);
+    onCollectionsChange(collections.map((item) => (item.id === collection.id ? { ...item, requests } : item)));
+
+    try {
+      await collectionService.reorderRequests(collection.id, requests.map((request) => request.id));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+      onReload();
+    }
+  };
+
+  return (
+    <aside className="lg:w-64 shrink-0">
+      <Card>
+        <h2 className="text-xl font-bold text-white mb-4">{t('collections.title')}</h2>
+
+        <form onSubmit={handleCreateCollection} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            placeholder={t('collections.newCollectionPlaceholder')}
+            maxLength={100}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-twitch-dark-light border border-twitch-gray-dark text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+          />
+          <button
+            type="submit"
+            disabled={!newCollectionName.trim()}
+            title={t('collections.newCollection')}
+            className="px-3 rounded-lg bg-twitch-purple text-white text-sm disabled:opacity-50"
+          >
+            +
+          </button>
+        </form>
+
+        {collections.length === 0 ? (
+          <p className="text-white/40 text-sm text-center py-4">{t('collections.noCollections')}</p>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            {collections.map((collection, collectionIndex) => (
+              <div key={collection.id}>
+                {editingCollectionId === collection.id ? (
+                  <form onSubmit={handleRenameCollection} className="flex gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingCollectionId(null)}
+                      maxLength={100}
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 bg-twitch-dark-light border border-twitch-gray-dark text-white text-sm rounded focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                    />
+                    <button type="submit" className="text-xs text-twitch-purple hover:underline">
+                      {t('common.save')}
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center justify-between gap-1 mb-2">
+                    <span className="text-sm font-semibold text-white truncate" title={collection.name}>
+                      {collection.name}
+                    </span>
+                    <div className="flex items-center gap-1 shrink-0 text-xs text-white/40">
+                      <button
+                        onClick={() => handleMoveCollection(collectionIndex, collectionIndex - 1)}
+                        disabled={collectionIndex === 0}
+                        title={t('collections.moveUp')}
+                        className="px-1 hover:text-white disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => handleMoveCollection(collectionIndex, collectionIndex + 1)}
+                        disabled={collectionIndex === collections.length - 1}
+                        title={t('collections.moveDown')}
+                        className="px-1 hover:text-white disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingCollectionId(collection.id);
+                          setEditingName(collection.name);
+                        }}
+                        title={t('collections.rename')}
+                        className="px-1 hover:text-white"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={() => handleDeleteCollection(collection)}
+                        title={t('common.delete')}
+                        className="px-1 hover:text-red-400"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {collection.requests.length === 0 ? (
+                  <p className="text-xs text-white/40 pl-2">{t('collections.emptyCollection')}</p>
+                ) : (
+                  <div className="space-y-1">
+                    {collection.requests.map((request, requestIndex) => (
+                      <div
+                        key={request.id}
+                        className={`group flex items-center gap-1 p-2 rounded-lg text-xs ${
+                          activeRequestId === request.id
+                            ? 'bg-twitch-purple/20 border border-twitch-purple'
+                            : 'bg-twitch-dark-light hover:bg-white/5'
+                        }`}
+                      >
+                        <button
+                          onClick={() => onOpen(request)}
+                          title={buildSavedRequestPath(request)}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <span className={`font-mono mr-1 ${
+                            request.method === 'GET' ? 'text-green-400' :
+                            request.method === 'POST' ? 'text-blue-400' :
+                            request.method === 'PUT' ? 'text-yellow-400' :
+                            request.method === 'DELETE' ? 'text-red-400' :
+                            'text-gray-400'
+                          }`}>
+                            {request.method}
+                          </span>
+                          <span className="text-white truncate">{request.name}</span>
+                        </button>
+                        <div className="flex items-center shrink-0 text-white/40">
+                          <button
+                            onClick={() => handleMoveSavedRequest(collection, requestIndex, requestIndex - 1)}
+                            disabled={requestIndex === 0}
+                            title={t('collections.moveUp')}
+                            className="px-1 hover:text-white disabled:opacity-30"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => handleMoveSavedRequest(collection, requestIndex, requestIndex + 1)}
+                            disabled={requestIndex === collection.requests.length - 1}
+                            title={t('collections.moveDown')}
+                            className="px-1 hover:text-white disabled:opacity-30"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            onClick={() => onRun(request)}
+                            disabled={isLoading}
+                            title={t('collections.run')}
+                            className="px-1 hover:text-green-400 disabled:opacity-30"
+                          >
+                            ▶
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSavedRequest(request)}
+                            title={t('common.delete')}
+                            className="px-1 hover:text-red-400"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </aside>
+  );
+};
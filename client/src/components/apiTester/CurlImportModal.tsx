@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import { isHelixUrl } from '../../utils/codeSnippets';
+import { parseCurlCommand, getHeader } from '../../utils/curlParser';
+import { getApiErrorMessage } from '../../utils/apiError';
+import { HELIX_METHODS, parseEndpoint } from '../../utils/requestPaths';
+import tokenService from '../../services/tokenService';
+import type { HelixMethod, SavedRequest } from '../../types/index';
+
+// Request read from a cURL command
+export interface CurlImport {
+  request: Pick<SavedRequest, 'method' | 'path' | 'query'>;
+  bodyText: string;
+  tokenId: string | null; // Saved token matching the command's credentials, if any
+}
+
+interface CurlImportModalProps {
+  onImport: (imported: CurlImport) => void;
+  onClose: () => void;
+}
+
+/**
+ * Import a Helix request from a cURL command, selecting the saved token of its credentials
+ */
+export const CurlImportModal: React.FC<CurlImportModalProps> = ({ onImport, onClose }) => {
+  const { t } = useTranslation();
+  const [curlText, setCurlText] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = parseCurlCommand(curlText);
+    if (!parsed || !URL.canParse(parsed.url)) {
+      toast.error(t('apiTester.curlInvalid'));
+      return;
+    }
+
+    const url = new URL(parsed.url);
+
+    // The proxy only sends Helix requests
+    if (!isHelixUrl(`${url.origin}${url.pathname}`)) {
+      toast.error(t('apiTester.curlNotHelix'));
+      return;
+    }
+
+    if (!HELIX_METHODS.includes(parsed.method as HelixMethod)) {
+      toast.error(t('apiTester.curlUnsupportedMethod', { method: parsed.method }));
+      return;
+    }
+
+    // Pretty-print JSON bodies, keep anything else as pasted
+    let importedBody = parsed.body || '';
+    try {
+      importedBody = importedBody ? JSON.stringify(JSON.parse(importedBody), null, 2) : '';
+    } catch {
+      // Not JSON, sending will report it
+    }
+
+    const { path, query } = parseEndpoint(`${url.pathname.replace(/^\/helix/, '')}${url.search}`);
+    const request = { method: parsed.method as HelixMethod, path, query: Object.keys(query).length > 0 ? query : null };
+    const bodyText = parsed.method === 'GET' ? '' : importedBody;
+
+    // Headers the proxy sets itself, any other header is dropped
+    const ignoredHeaders = Object.keys(parsed.headers).filter(
+      (name) => !['authorization', 'client-id', 'content-type'].includes(name.toLowerCase())
+    );
+    if (ignoredHeaders.length > 0) {
+      toast(t('apiTester.curlIgnoredHeaders', { headers: ignoredHeaders.join(', ') }));
+    }
+
+    const accessToken = getHeader(parsed.headers, 'Authorization')?.replace(/^(Bearer|OAuth)\s+/i, '');
+    const clientId = getHeader(parsed.headers, 'Client-Id');
+    if (!accessToken && !clientId) {
+      toast.success(t('apiTester.curlImported'));
+      onImport({ request, bodyText, tokenId: null });
+      return;
+    }
+
+    // The request is imported even if no saved token matches
+    let tokenId: string | null = null;
+    try {
+      const match = await tokenService.matchToken({ accessToken, clientId });
+      tokenId = match.tokenId;
+      if (match.tokenId) {
+        toast.success(t(match.match === 'accessToken' ? 'apiTester.curlTokenMatched' : 'apiTester.curlClientIdMatched'));
+      } else {
+        toast.error(t('apiTester.curlNoTokenMatch'));
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+
+    onImport({ request, bodyText, tokenId });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <Card className="max-w-2xl w-full">
+        <h2 className="text-2xl font-bold text-white mb-2">{t('apiTester.importCurl')}</h2>
+        <p className="text-sm text-white/60 mb-4">{t('apiTester.importCurlHint')}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <textarea
+            value={curlText}
+            onChange={(e) => setCurlText(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            autoFocus
+            placeholder={"curl -X GET 'https://api.twitch.tv/helix/users?login=twitchdev' \\\n  -H 'Authorization: Bearer <ACCESS_TOKEN>' \\\n  -H 'Client-Id: <CLIENT_ID>'"}
+            className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-xs font-mono rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+          />
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={onClose} className="flex-1">
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={!curlText.trim()} className="flex-1">
+              {t('apiTester.import')}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+};
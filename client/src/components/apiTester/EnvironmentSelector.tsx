@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import { getApiErrorMessage } from '../../utils/apiError';
+import { VARIABLE_NAME, getTokenVariables } from '../../utils/variables';
+import environmentService from '../../services/environmentService';
+import type { Environment, SavedToken } from '../../types/index';
+
+interface EnvironmentSelectorProps {
+  environments: Environment[];
+  activeEnvironment: Environment | null;
+  token: SavedToken | null; // Selected token, for the built-in variables
+  onSelect: (id: string) => void;
+  onReload: () => void;
+}
+
+/**
+ * Environment switcher of the API Tester, with the form to create, edit and delete environments
+ */
+export const EnvironmentSelector: React.FC<EnvironmentSelectorProps> = ({
+  environments,
+  activeEnvironment,
+  token,
+  onSelect,
+  onReload,
+}) => {
+  const { t } = useTranslation();
+  const [environmentForm, setEnvironmentForm] = useState<{
+    id: string | null;
+    name: string;
+    variables: { name: string; value: string }[];
+  } | null>(null);
+
+  const openEnvironmentForm = (environment: Environment | null) => {
+    setEnvironmentForm({
+      id: environment?.id || null,
+      name: environment?.name || '',
+      variables: environment
+        ? Object.entries(environment.variables).map(([name, value]) => ({ name, value }))
+        : [{ name: 'broadcaster_id', value: '' }],
+    });
+  };
+
+  const handleSaveEnvironment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!environmentForm) {
+      return;
+    }
+
+    const invalidNames = environmentForm.variables
+      .map((variable) => variable.name.trim())
+      .filter((name) => name && !VARIABLE_NAME.test(name));
+    if (invalidNames.length > 0) {
+      toast.error(t('environments.invalidVariableNames', { names: invalidNames.join(', ') }));
+      return;
+    }
+
+    // Rows without a name are dropped, the last duplicate name wins
+    const data = {
+      name: environmentForm.name.trim(),
+      variables: Object.fromEntries(
+        environmentForm.variables
+          .filter((variable) => variable.name.trim())
+          .map((variable) => [variable.name.trim(), variable.value])
+      ),
+    };
+
+    try {
+      if (environmentForm.id) {
+        await environmentService.updateEnvironment(environmentForm.id, data);
+      } else {
+        const environment = await environmentService.createEnvironment(data);
+        onSelect(environment.id);
+      }
+      setEnvironmentForm(null);
+      toast.success(t('environments.saved'));
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleDeleteEnvironment = async () => {
+    if (!environmentForm?.id || !window.confirm(t('environments.deleteConfirmation', { name: environmentForm.name }))) {
+      return;
+    }
+
+    try {
+      await environmentService.deleteEnvironment(environmentForm.id);
+      if (environmentForm.id === activeEnvironment?.id) {
+        onSelect('');
+      }
+      setEnvironmentForm(null);
+      toast.success(t('environments.deleted'));
+      onReload();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-white/80 mb-2">
+          {t('environments.environment')}
+        </label>
+        <div className="flex gap-2">
+          <select
+            value={activeEnvironment?.id || ''}
+            onChange={(e) => onSelect(e.target.value)}
+            className="flex-1 min-w-0 px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+          >
+            <option value="">{t('environments.noEnvironment')}</option>
+            {environments.map((environment) => (
+              <option key={environment.id} value={environment.id}>{environment.name}</option>
+            ))}
+          </select>
+          {activeEnvironment && (
+            <Button variant="secondary" onClick={() => openEnvironmentForm(activeEnvironment)} className="text-sm">
+              {t('common.edit')}
+            </Button>
+          )}
+          <Button variant="secondary" onClick={() => openEnvironmentForm(null)} className="text-sm">
+            {t('environments.newEnvironment')}
+          </Button>
+        </div>
+        <p className="text-xs text-white/40 mt-1 break-words">
+          {t('environments.availableVariables')}:{' '}
+          <span className="font-mono">
+            {[
+              ...Object.keys(activeEnvironment?.variables || {}),
+              ...Object.keys(getTokenVariables(token)),
+            ].map((name) => `{{${name}}}`).join(' ') || '-'}
+          </span>
+        </p>
+      </div>
+
+      {environmentForm && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-white mb-6">
+              {environmentForm.id ? t('environments.editEnvironment') : t('environments.newEnvironment')}
+            </h2>
+            <form onSubmit={handleSaveEnvironment} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('environments.name')}
+                </label>
+                <input
+                  type="text"
+                  value={environmentForm.name}
+                  onChange={(e) => setEnvironmentForm({ ...environmentForm, name: e.target.value })}
+                  placeholder={t('environments.namePlaceholder')}
+                  maxLength={100}
+                  required
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('environments.variables')}
+                </label>
+                <div className="space-y-2">
+                  {environmentForm.variables.map((variable, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={variable.name}
+                        onChange={(e) => setEnvironmentForm({
+                          ...environmentForm,
+                          variables: environmentForm.variables.map((item, i) => (i === index ? { ...item, name: e.target.value } : item)),
+                        })}
+                        placeholder="broadcaster_id"
+                        className="w-1/3 px-3 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-sm font-mono rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      />
+                      <input
+                        type="text"
+                        value={variable.value}
+                        onChange={(e) => setEnvironmentForm({
+                          ...environmentForm,
+                          variables: environmentForm.variables.map((item, i) => (i === index ? { ...item, value: e.target.value } : item)),
+                        })}
+                        placeholder={t('environments.value')}
+                        className="flex-1 min-w-0 px-3 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-sm font-mono rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setEnvironmentForm({
+                          ...environmentForm,
+                          variables: environmentForm.variables.filter((_, i) => i !== index),
+                        })}
+                        title={t('common.delete')}
+                        className="px-2 text-white/40 hover:text-red-400"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEnvironmentForm({
+                    ...environmentForm,
+                    variables: [...environmentForm.variables, { name: '', value: '' }],
+                  })}
+                  className="mt-2 text-sm text-twitch-purple hover:underline"
+                >
+                  + {t('environments.addVariable')}
+                </button>
+                <p className="text-xs text-white/40 mt-2">
+                  {t('environments.usageHint', {
+                    example: '{{name}}',
+                    builtins: '{{token.channelId}}, {{token.channelLogin}}, {{token.clientId}}',
+                  })}
+                </p>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                {environmentForm.id && (
+                  <Button type="button" variant="danger" onClick={handleDeleteEnvironment}>
+                    {t('common.delete')}
+                  </Button>
+                )}
+                <Button type="button" variant="secondary" onClick={() => setEnvironmentForm(null)} className="flex-1">
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" className="flex-1">
+                  {t('common.save')}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { HelixParam } from '../../types/index';
+
+interface HelixParamFieldsProps {
+  params: HelixParam[];
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple';
+
+/**
+ * Form fields for the query parameters of a catalog endpoint
+ */
+export const HelixParamFields: React.FC<HelixParamFieldsProps> = ({ params, values, onChange }) => {
+  const { t } = useTranslation();
+
+  const renderInput = (param: HelixParam) => {
+    const value = values[param.name] || '';
+
+    if (param.type === 'enum' || param.type === 'boolean') {
+      const options = param.type === 'enum' ? param.options || [] : ['true', 'false'];
+      return (
+        <select value={value} onChange={(e) => onChange(param.name, e.target.value)} className={inputClassName}>
+          <option value="">-</option>
+          {options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={param.type === 'integer' && !param.multiple ? 'number' : 'text'}
+        value={value}
+        onChange={(e) => onChange(param.name, e.target.value)}
+        placeholder={param.type === 'datetime' ? '2025-01-01T00:00:00Z' : ''}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-white/80 mb-2">
+        {t('apiTester.queryParams')}
+      </label>
+      <div className="space-y-3">
+        {params.map((param) => (
+          <div key={param.name}>
+            <label className="block text-xs font-mono text-white/80 mb-1">
+              {param.name}
+              {param.required && <span className="text-red-400"> *</span>}
+              <span className="ml-2 font-sans text-white/40">{param.type}</span>
+            </label>
+            {renderInput(param)}
+            <p className="text-xs text-white/40 mt-1">
+              {param.description}
+              {param.multiple && ` (${t('apiTester.commaSeparated')})`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
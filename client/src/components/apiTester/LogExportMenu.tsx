@@ -0,0 +1,50 @@
+import React from 'react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { useTranslation } from 'react-i18next';
+import { getApiErrorMessage } from '../../utils/apiError';
+import apiLogService from '../../services/apiLogService';
+import type { ApiError, ApiLogExportFormat, ApiLogFilters } from '../../types/index';
+
+interface LogExportMenuProps {
+  filters: ApiLogFilters;
+  disabled: boolean;
+}
+
+/**
+ * Download the logs matching the history filters as HAR, NDJSON or CSV
+ */
+export const LogExportMenu: React.FC<LogExportMenuProps> = ({ filters, disabled }) => {
+  const { t } = useTranslation();
+
+  const handleExport = async (format: ApiLogExportFormat) => {
+    try {
+      const blob = await apiLogService.exportLogs(format, filters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `api-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      // Invalid filters come back as validation errors, without a message
+      const validationError = axios.isAxiosError<ApiError>(error) ? error.response?.data?.errors?.[0]?.msg : undefined;
+      toast.error(getApiErrorMessage(error) || validationError || t('errors.somethingWentWrong'));
+    }
+  };
+
+  return (
+    <select
+      value=""
+      onChange={(e) => handleExport(e.target.value as ApiLogExportFormat)}
+      disabled={disabled}
+      title={t('apiTester.exportLogsHint')}
+      className="px-2 py-1 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white/80 rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple disabled:opacity-50"
+    >
+      <option value="" disabled>{t('apiTester.exportLogs')}</option>
+      <option value="har">HAR</option>
+      <option value="ndjson">NDJSON</option>
+      <option value="csv">CSV</option>
+    </select>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import { getApiErrorMessage } from '../../utils/apiError';
+import apiLogService from '../../services/apiLogService';
+import type { ApiError, LogRedaction } from '../../types/index';
+
+/**
+ * Button and dialog of the API log redaction rules
+ */
+export const LogRedactionSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<{ paths: string; redaction: LogRedaction } | null>(null);
+
+  const openModal = async () => {
+    try {
+      const redaction = await apiLogService.getRedaction();
+      setForm({ paths: redaction.paths.join('\n'), redaction });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const paths = form.paths.split('\n').map((path) => path.trim()).filter(Boolean);
+
+    try {
+      await apiLogService.updateRedaction(paths);
+      toast.success(t('apiTester.redactionSaved'));
+      setForm(null);
+    } catch (error) {
+      // The server validates the paths, point at the first one it rejected
+      const data = axios.isAxiosError<ApiError>(error) ? error.response?.data : undefined;
+      const invalidPath = data?.errors?.find(({ path }) => path.startsWith('paths['))?.value;
+      toast.error(
+        typeof invalidPath === 'string'
+          ? t('apiTester.redactionInvalidPath', { path: invalidPath })
+          : data?.message || t('errors.somethingWentWrong')
+      );
+    }
+  };
+
+  return (
+    <>
+      <button onClick={openModal} className="text-sm text-white/60 hover:text-white">
+        {t('apiTester.redaction')}
+      </button>
+
+      {form && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-white mb-2">{t('apiTester.redactionTitle')}</h2>
+            <p className="text-sm text-white/60 mb-6">{t('apiTester.redactionHint')}</p>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('apiTester.redactionPaths')}
+                </label>
+                <textarea
+                  value={form.paths}
+                  onChange={(e) => setForm({ ...form, paths: e.target.value })}
+                  rows={6}
+                  spellCheck={false}
+                  placeholder={'data[*].login\ndata[*].broadcaster_name'}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-xs font-mono rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                />
+                <p className="text-xs text-white/40 mt-1">{t('apiTester.redactionPathsHint')}</p>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-white/80 mb-2">{t('apiTester.redactionBuiltIn')}</p>
+                <div className="space-y-1">
+                  {form.redaction.builtInRules.map((rule) => (
+                    <div key={`${rule.endpoint} ${rule.path}`} className="text-xs font-mono">
+                      <span className="text-white/60">{rule.endpoint}</span>
+                      <span className="text-twitch-purple ml-2">{rule.path}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-white/40 mt-2">
+                  {t('apiTester.redactionSensitiveKeys', { keys: form.redaction.sensitiveKeys.join(', ') })}
+                </p>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="secondary" onClick={() => setForm(null)} className="flex-1">
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" className="flex-1">
+                  {t('common.save')}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+};
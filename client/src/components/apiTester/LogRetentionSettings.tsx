@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import { getApiErrorMessage } from '../../utils/apiError';
+import apiLogService from '../../services/apiLogService';
+
+interface LogRetentionSettingsProps {
+  onPruned: () => void; // Saving deleted logs over the new limits
+}
+
+/**
+ * Button and dialog of the API log retention policy
+ */
+export const LogRetentionSettings: React.FC<LogRetentionSettingsProps> = ({ onPruned }) => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<{ maxAgeDays: string; maxRows: string } | null>(null);
+
+  const openModal = async () => {
+    try {
+      const retention = await apiLogService.getRetention();
+      setForm({
+        maxAgeDays: retention.maxAgeDays?.toString() || '',
+        maxRows: retention.maxRows?.toString() || '',
+      });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      const { pruned } = await apiLogService.updateRetention({
+        maxAgeDays: form.maxAgeDays ? Number(form.maxAgeDays) : null,
+        maxRows: form.maxRows ? Number(form.maxRows) : null,
+      });
+      toast.success(pruned ? t('apiTester.retentionPruned', { count: pruned }) : t('apiTester.retentionSaved'));
+      setForm(null);
+      if (pruned) {
+        onPruned();
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  return (
+    <>
+      <button onClick={openModal} className="text-sm text-white/60 hover:text-white">
+        {t('apiTester.retention')}
+      </button>
+
+      {form && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-lg w-full">
+            <h2 className="text-2xl font-bold text-white mb-2">{t('apiTester.retentionTitle')}</h2>
+            <p className="text-sm text-white/60 mb-6">{t('apiTester.retentionHint')}</p>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('apiTester.maxAgeDays')}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={3650}
+                  value={form.maxAgeDays}
+                  onChange={(e) => setForm({ ...form, maxAgeDays: e.target.value })}
+                  placeholder={t('apiTester.noLimit')}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('apiTester.maxRows')}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000000}
+                  value={form.maxRows}
+                  onChange={(e) => setForm({ ...form, maxRows: e.target.value })}
+                  placeholder={t('apiTester.noLimit')}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="secondary" onClick={() => setForm(null)} className="flex-1">
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" className="flex-1">
+                  {t('common.save')}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+};
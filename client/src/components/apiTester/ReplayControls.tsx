@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../Button';
+import type { ApiCall, SavedToken } from '../../types/index';
+
+interface ReplayControlsProps {
+  call: ApiCall;
+  tokens: SavedToken[];
+  isLoading: boolean;
+  onReplay: (call: ApiCall, tokenId: string) => void; // Empty token ID = the original token
+}
+
+const REDACTED = '[REDACTED]';
+
+// Replaying would send the redaction marker instead of the original values (response fields do not matter)
+const hasRedactedValues = (call: ApiCall): boolean =>
+  call.redactedFields.some((field) => field.startsWith('requestBody')) ||
+  call.endpoint.includes(REDACTED) ||
+  JSON.stringify(call.requestBody ?? null).includes(REDACTED);
+
+/**
+ * Replay a logged call, with its original token or another one
+ */
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ call, tokens, isLoading, onReplay }) => {
+  const { t } = useTranslation();
+  const [replayTokenId, setReplayTokenId] = useState('');
+
+  const isRedacted = hasRedactedValues(call);
+
+  const handleReplay = () => {
+    if (isRedacted) {
+      toast.error(t('apiTester.replayRedacted'));
+      return;
+    }
+
+    // Replaying a write sends it to Twitch again
+    if (call.method !== 'GET' && !window.confirm(t('apiTester.replayConfirmation', { method: call.method, endpoint: call.endpoint }))) {
+      return;
+    }
+
+    onReplay(call, replayTokenId);
+  };
+
+  return (
+    <>
+      <select
+        value={replayTokenId}
+        onChange={(e) => setReplayTokenId(e.target.value)}
+        title={t('apiTester.replayWith')}
+        className="flex-1 min-w-0 px-3 py-2 text-sm bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+      >
+        <option value="">
+          {call.tokenId ? t('apiTester.originalToken') : t('apiTester.replayWith')}
+        </option>
+        {tokens.map((token) => (
+          <option key={token.id} value={token.id}>
+            {token.name || `${token.tokenType.toUpperCase()} Token`} - {token.twitchConfig.name || token.twitchConfig.clientId}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="secondary"
+        onClick={handleReplay}
+        disabled={isLoading || (!replayTokenId && !call.tokenId) || isRedacted}
+        title={isRedacted ? t('apiTester.replayRedacted') : undefined}
+        className="text-sm"
+      >
+        {t('apiTester.replay')}
+      </Button>
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { diffJson, type DiffRowType } from '../../utils/jsonDiff';
+import type { ApiCall } from '../../types/index';
+
+interface ResponseDiffProps {
+  base: ApiCall; // Shown on the left
+  call: ApiCall;
+}
+
+/**
+ * Side-by-side diff of the responses of two calls
+ */
+export const ResponseDiff: React.FC<ResponseDiffProps> = ({ base, call }) => {
+  const { t } = useTranslation();
+  const [onlyChanges, setOnlyChanges] = useState(false);
+
+  const rows = useMemo(() => diffJson(base.response, call.response), [base, call]);
+
+  return (
+    <div className="bg-twitch-dark border border-twitch-gray-dark rounded-lg overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-b border-twitch-gray-dark text-xs">
+        <span className="text-white/60">
+          {rows.some((row) => row.type !== 'same')
+            ? t('apiTester.differences', { count: rows.filter((row) => row.type !== 'same').length })
+            : t('apiTester.noDifferences')}
+        </span>
+        <label className="flex items-center gap-2 text-white/60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlyChanges}
+            onChange={(e) => setOnlyChanges(e.target.checked)}
+            className="accent-twitch-purple"
+          />
+          {t('apiTester.onlyDifferences')}
+        </label>
+      </div>
+      <div className="grid grid-cols-2 border-b border-twitch-gray-dark text-xs text-white/60">
+        {[base, call].map((item, index) => (
+          <div key={index} className={`px-4 py-2 truncate ${index === 0 ? 'border-r border-twitch-gray-dark' : ''}`}>
+            {item.status ?? t('apiTester.error')} · {new Date(item.timestamp).toLocaleString()}
+          </div>
+        ))}
+      </div>
+      <div className="max-h-[600px] overflow-auto text-xs font-mono">
+        {rows.filter((row) => !onlyChanges || row.type !== 'same').map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            {([
+              [row.leftNumber, row.left, 'removed'],
+              [row.rightNumber, row.right, 'added'],
+            ] as [number | null, string | null, DiffRowType][]).map(([number, line, side], column) => (
+              <div
+                key={column}
+                className={`flex min-w-0 ${column === 0 ? 'border-r border-twitch-gray-dark' : ''} ${
+                  line === null ? 'bg-white/5' :
+                  row.type === 'changed' ? 'bg-yellow-500/10 text-yellow-200' :
+                  row.type === side ? (side === 'removed' ? 'bg-red-500/10 text-red-300' : 'bg-green-500/10 text-green-300') :
+                  'text-white/80'
+                }`}
+              >
+                <span className="w-10 shrink-0 pr-2 text-right text-white/30 select-none">{number ?? ''}</span>
+                <pre className="whitespace-pre-wrap break-all">{line ?? ''}</pre>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { Card } from '../Card';
+import { Button } from '../Button';
+import { getApiErrorMessage } from '../../utils/apiError';
+import { buildSavedRequestPath } from '../../utils/requestPaths';
+import collectionService from '../../services/collectionService';
+import type { RequestCollection, SavedRequest, SaveRequestRequest } from '../../types/index';
+
+interface SaveRequestModalProps {
+  request: Omit<SaveRequestRequest, 'name'>;
+  collections: RequestCollection[];
+  defaultName: string;
+  defaultCollectionId: string;
+  onSaved: (request: SavedRequest) => void;
+  onClose: () => void;
+}
+
+/**
+ * Save the current request in a collection, creating the collection if needed
+ */
+export const SaveRequestModal: React.FC<SaveRequestModalProps> = ({
+  request,
+  collections,
+  defaultName,
+  defaultCollectionId,
+  onSaved,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState({ name: defaultName, collectionId: defaultCollectionId, newCollectionName: '' });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      let collectionId = form.collectionId;
+      if (!collectionId) {
+        const collection = await collectionService.createCollection(form.newCollectionName.trim());
+        collectionId = collection.id;
+      }
+
+      const saved = await collectionService.saveRequest(collectionId, { ...request, name: form.name.trim() });
+      toast.success(t('collections.requestSaved'));
+      onSaved(saved);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <Card className="max-w-lg w-full">
+        <h2 className="text-2xl font-bold text-white mb-6">{t('collections.saveRequest')}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">
+              {t('collections.requestName')}
+            </label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              maxLength={100}
+              required
+              className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+            />
+            <p className="text-xs text-white/40 mt-1 font-mono">{request.method} {buildSavedRequestPath(request)}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">
+              {t('collections.collection')}
+            </label>
+            <select
+              value={form.collectionId}
+              onChange={(e) => setForm({ ...form, collectionId: e.target.value })}
+              className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+            >
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+              <option value="">{t('collections.newCollection')}</option>
+            </select>
+          </div>
+
+          {!form.collectionId && (
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">
+                {t('collections.newCollectionPlaceholder')}
+              </label>
+              <input
+                type="text"
+                value={form.newCollectionName}
+                onChange={(e) => setForm({ ...form, newCollectionName: e.target.value })}
+                maxLength={100}
+                required
+                className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="secondary" onClick={onClose} className="flex-1">
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" className="flex-1">
+              {t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+};
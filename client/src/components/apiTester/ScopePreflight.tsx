@@ -0,0 +1,67 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../Button';
+import { getMissingScopes, isWrongTokenType } from '../../utils/scopePreflight';
+import type { HelixEndpoint, SavedToken } from '../../types/index';
+
+interface ScopePreflightProps {
+  endpoint: HelixEndpoint;
+  token: SavedToken;
+}
+
+/**
+ * Warning shown when the selected token cannot call an endpoint (wrong token type or missing scopes)
+ */
+export const ScopePreflight: React.FC<ScopePreflightProps> = ({ endpoint, token }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const tokenTypeMismatch = isWrongTokenType(endpoint, token);
+  const missingScopes = getMissingScopes(endpoint, token);
+
+  if (!tokenTypeMismatch && missingScopes.length === 0) {
+    return null;
+  }
+
+  const handleCreateTokenWithScopes = () => {
+    // Keep the scopes of the current user token so the new one can replace it
+    const scopes = token.tokenType === 'user'
+      ? [...new Set([...token.scopes, ...endpoint.scopes])]
+      : endpoint.scopes;
+    const params = new URLSearchParams({ scopes: scopes.join(' '), configId: token.twitchConfig.id });
+    navigate(`/tokens?${params.toString()}`);
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm">
+      <p className="text-red-400 font-medium mb-1">{t('apiTester.preflightWarning')}</p>
+      {tokenTypeMismatch && (
+        <p className="text-white/80 text-xs mb-1">
+          {t(`apiTester.wrongTokenType.${endpoint.tokenType}`)}
+        </p>
+      )}
+      {missingScopes.length > 0 && (
+        <div className="text-white/80 text-xs mb-1">
+          <p className="mb-1">{t('apiTester.missingScopes')}</p>
+          <div className="flex flex-wrap gap-1">
+            {missingScopes.map((scope) => (
+              <span key={scope} className="px-2 py-0.5 rounded bg-red-500/20 text-red-300 font-mono">
+                {scope}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {(endpoint.tokenType !== 'app' && (missingScopes.length > 0 || token.tokenType === 'app')) && (
+        <Button
+          variant="secondary"
+          onClick={handleCreateTokenWithScopes}
+          className="mt-2 text-xs"
+        >
+          {t('apiTester.createTokenWithScopes')}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -6,36 +6,122 @@ import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Logo } from '../components/Logo';
 import LanguageSelector from '../components/LanguageSelector';
+import { HelixParamFields } from '../components/apiTester/HelixParamFields';
+import { ScopePreflight } from '../components/apiTester/ScopePreflight';
+import { CollectionsSidebar } from '../components/apiTester/CollectionsSidebar';
+import { SaveRequestModal } from '../components/apiTester/SaveRequestModal';
+import { EnvironmentSelector } from '../components/apiTester/EnvironmentSelector';
+import { CodeSnippetModal, type SnippetSource } from '../components/apiTester/CodeSnippetModal';
+import { CurlImportModal, type CurlImport } from '../components/apiTester/CurlImportModal';
+import { ReplayControls } from '../components/apiTester/ReplayControls';
+import { ResponseDiff } from '../components/apiTester/ResponseDiff';
+import { ApiLogFilterBar } from '../components/apiTester/ApiLogFilterBar';
+import { LogRetentionSettings } from '../components/apiTester/LogRetentionSettings';
+import { LogExportMenu } from '../components/apiTester/LogExportMenu';
+import { LogRedactionSettings } from '../components/apiTester/LogRedactionSettings';
+import { getApiErrorMessage } from '../utils/apiError';
+import { hasPreflightIssues } from '../utils/scopePreflight';
+import { keepPlaceholders, parseEndpoint, buildSavedRequestPath } from '../utils/requestPaths';
+import { getTokenVariables, resolveTemplate } from '../utils/variables';
+import { EMPTY_HISTORY_FILTERS, toApiLogFilters, type HistoryFilters } from '../utils/apiLogFilters';
 import { useAuthStore } from '../store/authStore';
 import tokenService from '../services/tokenService';
+import helixService from '../services/helixService';
 import apiLogService from '../services/apiLogService';
-import type { SavedToken } from '../types/index';
-
-interface ApiCall {
-  id: string;
-  timestamp: string;
-  method: string;
-  endpoint: string;
-  status: number | null;
-  response: any;
-  error: string | null;
-}
-
-const COMMON_ENDPOINTS = [
-  { label: 'Get Users', method: 'GET', path: '/users', params: '?login=twitch' },
-  { label: 'Get Channel Info', method: 'GET', path: '/channels', params: '?broadcaster_id=' },
-  { label: 'Get Streams', method: 'GET', path: '/streams', params: '?user_login=twitch' },
-  { label: 'Get Followers', method: 'GET', path: '/channels/followers', params: '?broadcaster_id=' },
-  { label: 'Get Moderators', method: 'GET', path: '/moderation/moderators', params: '?broadcaster_id=' },
-  { label: 'Get Videos', method: 'GET', path: '/videos', params: '?user_id=' },
-  { label: 'Get Clips', method: 'GET', path: '/clips', params: '?broadcaster_id=' },
-  { label: 'Get Games', method: 'GET', path: '/games', params: '?name=Just%20Chatting' },
-  { label: 'Get Top Games', method: 'GET', path: '/games/top', params: '' },
-  { label: 'Get Subscriptions', method: 'GET', path: '/subscriptions', params: '?broadcaster_id=' },
-  { label: 'Get Emotes', method: 'GET', path: '/chat/emotes', params: '?broadcaster_id=' },
-  { label: 'Get Chatters', method: 'GET', path: '/chat/chatters', params: '?broadcaster_id=&moderator_id=' },
-  { label: 'Custom Endpoint', method: 'GET', path: '', params: '' },
-];
+import collectionService from '../services/collectionService';
+import environmentService from '../services/environmentService';
+import type {
+  SavedToken,
+  HelixMethod,
+  HelixEndpoint,
+  HelixParamType,
+  HelixProxyResponse,
+  RequestCollection,
+  SavedRequest,
+  SaveRequestRequest,
+  Environment,
+  ApiCall,
+} from '../types/index';
+
+// Page cap for "fetch all pages", the server allows up to 50
+const DEFAULT_MAX_PAGES = 10;
+const MAX_PAGES_LIMIT = 50;
+
+/**
+ * Cursor of the next page of a Helix response, if any
+ */
+const getNextCursor = (response: unknown): string | null => {
+  const pagination = (response as { pagination?: { cursor?: string } } | null)?.pagination;
+  return pagination?.cursor || null;
+};
+
+/**
+ * Set the `after` cursor in an endpoint, replacing any previous one
+ */
+const withCursor = (endpoint: string, cursor: string): string => {
+  const [path, search = ''] = endpoint.split('?');
+  const params = new URLSearchParams(search);
+  params.set('after', cursor);
+  return `${path}?${params.toString()}`;
+};
+
+// Selected by default once the catalog is loaded
+const DEFAULT_ENDPOINT_ID = 'get-users';
+
+// Sample values used in request body templates
+const SAMPLE_VALUES: Record<HelixParamType, unknown> = {
+  string: '',
+  integer: 0,
+  boolean: false,
+  datetime: '',
+  enum: '',
+  json: null,
+};
+
+// Remembers the active environment between visits
+const ENVIRONMENT_STORAGE_KEY = 'apiTesterEnvironmentId';
+
+/**
+ * Build the endpoint path with the query parameters filled in the form.
+ * Comma-separated values of repeatable parameters become repeated parameters.
+ */
+const buildEndpointPath = (endpoint: HelixEndpoint, values: Record<string, string>): string => {
+  const params = new URLSearchParams();
+
+  endpoint.query.forEach((param) => {
+    const value = values[param.name]?.trim();
+    if (!value) {
+      return;
+    }
+
+    const items = param.multiple ? value.split(',').map((item) => item.trim()).filter(Boolean) : [value];
+    items.forEach((item) => params.append(param.name, item));
+  });
+
+  const search = keepPlaceholders(params.toString());
+  return search ? `${endpoint.path}?${search}` : endpoint.path;
+};
+
+/**
+ * JSON body template with the required fields of an endpoint.
+ * Fields named like an environment variable get its placeholder.
+ */
+const buildBodyTemplate = (endpoint: HelixEndpoint, variableNames: string[]): string => {
+  if (endpoint.body.length === 0) {
+    return '';
+  }
+
+  const template = Object.fromEntries(
+    endpoint.body
+      .filter((field) => field.required)
+      .map((field) => [
+        field.name,
+        variableNames.includes(field.name) ? `{{${field.name}}}` :
+        field.type === 'enum' ? field.options?.[0] ?? '' : SAMPLE_VALUES[field.type],
+      ])
+  );
+  return JSON.stringify(template, null, 2);
+};
 
 export const ApiTester: React.FC = () => {
   const { t } = useTranslation();
@@ -43,12 +129,29 @@ export const ApiTester: React.FC = () => {
   const { user, logout } = useAuthStore();
   const [tokens, setTokens] = useState<SavedToken[]>([]);
   const [selectedTokenId, setSelectedTokenId] = useState<string>('');
-  const [selectedEndpoint, setSelectedEndpoint] = useState(COMMON_ENDPOINTS[0]);
+  const [endpoints, setEndpoints] = useState<HelixEndpoint[]>([]);
+  const [selectedEndpoint, setSelectedEndpoint] = useState<HelixEndpoint | null>(null);
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
   const [customEndpoint, setCustomEndpoint] = useState('');
-  const [method, setMethod] = useState('GET');
+  const [bodyText, setBodyText] = useState('');
+  const [method, setMethod] = useState<HelixMethod>('GET');
+  const [allPages, setAllPages] = useState(false);
+  const [maxPages, setMaxPages] = useState(DEFAULT_MAX_PAGES);
   const [isLoading, setIsLoading] = useState(false);
   const [history, setHistory] = useState<ApiCall[]>([]);
   const [selectedCall, setSelectedCall] = useState<ApiCall | null>(null);
+  const [collections, setCollections] = useState<RequestCollection[]>([]);
+  const [activeRequest, setActiveRequest] = useState<SavedRequest | null>(null);
+  const [requestToSave, setRequestToSave] = useState<Omit<SaveRequestRequest, 'name'> | null>(null);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [environmentId, setEnvironmentId] = useState(() => localStorage.getItem(ENVIRONMENT_STORAGE_KEY) || '');
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [logTotal, setLogTotal] = useState(0);
+  const [compareCall, setCompareCall] = useState<ApiCall | null>(null);
+  const [showCurlImport, setShowCurlImport] = useState(false);
+  const [snippetSource, setSnippetSource] = useState<SnippetSource | null>(null);
+
+  const activeEnvironment = environments.find((environment) => environment.id === environmentId) || null;
 
   const handleLogout = () => {
     logout();
@@ -57,9 +160,27 @@ export const ApiTester: React.FC = () => {
 
   useEffect(() => {
     loadTokens();
-    loadLogs();
+    loadEndpoints();
+    loadCollections();
+    loadEnvironments();
   }, []);
 
+  useEffect(() => {
+    // Wait for the user to stop typing before searching
+    const timeout = setTimeout(() => loadLogs(historyFilters), 300);
+    return () => clearTimeout(timeout);
+  }, [historyFilters]);
+
+  const loadEndpoints = async () => {
+    try {
+      const data = await helixService.getEndpoints();
+      setEndpoints(data);
+      selectEndpoint(data.find((endpoint) => endpoint.id === DEFAULT_ENDPOINT_ID) || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
   const loadTokens = async () => {
     try {
       const data = await tokenService.getAllTokens();
@@ -72,9 +193,33 @@ export const ApiTester: React.FC = () => {
     }
   };
 
-  const loadLogs = async () => {
+  const loadCollections = async () => {
+    try {
+      const data = await collectionService.getAllCollections();
+      setCollections(data);
+      // Forget the loaded request once it (or its collection) is deleted
+      setActiveRequest((current) => (
+        current && data.some((collection) => collection.requests.some((request) => request.id === current.id))
+          ? current
+          : null
+      ));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const loadEnvironments = async () => {
     try {
-      const data = await apiLogService.getAllLogs(20, 0);
+      const data = await environmentService.getAllEnvironments();
+      setEnvironments(data);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const loadLogs = async (filters: HistoryFilters) => {
+    try {
+      const data = await apiLogService.getAllLogs(20, 0, toApiLogFilters(filters));
       // Convert to ApiCall format
       const calls: ApiCall[] = data.logs.map((log) => ({
         id: log.id,
@@ -84,22 +229,56 @@ export const ApiTester: React.FC = () => {
         status: log.status,
         response: log.responseBody,
         error: log.error,
+        source: log.source,
+        durationMs: log.durationMs,
+        requestHeaders: log.requestHeaders,
+        responseHeaders: log.responseHeaders,
+        rateLimit: log.rateLimit,
+        tokenId: log.tokenId,
+        requestBody: log.requestBody,
+        logged: true,
+        redactedFields: log.redactedFields || [],
       }));
       setHistory(calls);
+      setLogTotal(data.total);
     } catch (error: any) {
       console.error('Failed to load logs:', error);
       // Don't show error toast, logs are optional
     }
   };
 
-  const handleEndpointChange = (index: number) => {
-    const endpoint = COMMON_ENDPOINTS[index];
+  const handleLogsDeleted = () => {
+    setSelectedCall(null);
+    setCompareCall(null);
+    loadLogs(historyFilters);
+  };
+
+  const selectEndpoint = (endpoint: HelixEndpoint | null) => {
     setSelectedEndpoint(endpoint);
-    setMethod(endpoint.method);
-    if (endpoint.label === 'Custom Endpoint') {
-      setCustomEndpoint('');
+    if (endpoint) {
+      // Parameters named like an environment variable default to its placeholder
+      const variableNames = Object.keys(activeEnvironment?.variables || {});
+      const values = Object.fromEntries(
+        endpoint.query
+          .filter((param) => variableNames.includes(param.name))
+          .map((param) => [param.name, `{{${param.name}}}`])
+      );
+      setParamValues(values);
+      setMethod(endpoint.method);
+      setCustomEndpoint(buildEndpointPath(endpoint, values));
+      setBodyText(buildBodyTemplate(endpoint, variableNames));
     } else {
-      setCustomEndpoint(endpoint.path + endpoint.params);
+      setParamValues({});
+      setCustomEndpoint('');
+      setBodyText('');
+    }
+  };
+
+  const handleParamChange = (name: string, value: string) => {
+    const values = { ...paramValues, [name]: value };
+    setParamValues(values);
+    if (selectedEndpoint) {
+      setCustomEndpoint(buildEndpointPath(selectedEndpoint, values));
     }
   };
 
@@ -109,93 +288,348 @@ export const ApiTester: React.FC = () => {
       return;
     }
 
-    const endpoint = customEndpoint || (selectedEndpoint.path + selectedEndpoint.params);
+    const endpoint = customEndpoint;
     if (!endpoint) {
       toast.error(t('errors.requiredField'));
       return;
     }
 
+    // Twitch would reject the request with 401/403, let the user decide
+    if (preflightEndpoint && selectedToken && hasPreflightIssues(preflightEndpoint, selectedToken)) {
+      if (!window.confirm(t('apiTester.sendAnywayConfirmation'))) {
+        return;
+      }
+    }
+
+    const missingParams = selectedEndpoint?.query
+      .filter((param) => param.required && !paramValues[param.name]?.trim())
+      .map((param) => param.name) || [];
+    if (missingParams.length > 0) {
+      toast.error(t('apiTester.missingParams', { params: missingParams.join(', ') }));
+      return;
+    }
+
+    const resolved = resolveRequest(selectedTokenId, endpoint, method === 'GET' ? '' : bodyText);
+    if (!resolved) {
+      return;
+    }
+
+    const parsed = parseBodyText(resolved.bodyText);
+    if (!parsed) {
+      return;
+    }
+
+    await sendRequest(selectedTokenId, method, resolved.endpoint, method === 'GET' && allPages, parsed.body);
+  };
+
+  /**
+   * Parse a JSON body (undefined if empty), null if invalid
+   */
+  const parseBodyText = (text: string): { body: unknown } | null => {
+    if (!text.trim()) {
+      return { body: undefined };
+    }
+
     try {
-      setIsLoading(true);
+      return { body: JSON.parse(text) };
+    } catch {
+      toast.error(t('apiTester.invalidJson'));
+      return null;
+    }
+  };
 
-      // Get the token
-      const token = await tokenService.getToken(selectedTokenId);
+  /**
+   * Substitute the environment and token variables in an endpoint and a body, null if one is undefined
+   */
+  const resolveRequest = (tokenId: string, endpoint: string, text: string): { endpoint: string; bodyText: string } | null => {
+    const variables = {
+      ...activeEnvironment?.variables,
+      ...getTokenVariables(tokens.find((token) => token.id === tokenId) || null),
+    };
+    const path = resolveTemplate(endpoint, variables, encodeURIComponent);
+    // Values are inserted inside JSON strings, so they are escaped like one
+    const body = resolveTemplate(text, variables, (value) => JSON.stringify(value).slice(1, -1));
 
-      // Make the API call to Twitch
-      const url = `https://api.twitch.tv/helix${endpoint}`;
-      const clientId = token.twitchConfig.clientId;
+    const missing = [...new Set([...path.missing, ...body.missing])];
+    if (missing.length > 0) {
+      toast.error(t('environments.undefinedVariables', { names: missing.join(', ') }));
+      return null;
+    }
 
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Authorization': `Bearer ${token.accessToken}`,
-          'Client-Id': clientId,
-          'Content-Type': 'application/json',
-        },
-      });
+    return { endpoint: path.value, bodyText: body.value };
+  };
 
-      const data = await response.json();
-
-      // Create history entry
-      const call: ApiCall = {
-        id: Date.now().toString(),
-        timestamp: new Date().toISOString(),
-        method,
-        endpoint,
-        status: response.status,
-        response: data,
-        error: null,
-      };
-
-      setHistory((prev) => [call, ...prev]);
-      setSelectedCall(call);
-
-      // Save to database (don't block on this)
-      apiLogService.createLog({
-        tokenId: selectedTokenId,
-        method,
-        endpoint,
-        status: response.status,
-        responseBody: data,
-      }).catch((err) => {
-        console.error('Failed to save log:', err);
-      });
+  const handleNextPage = async () => {
+    const cursor = selectedCall && getNextCursor(selectedCall.response);
+    if (!cursor || !selectedTokenId) {
+      return;
+    }
 
-      if (response.ok) {
-        toast.success(t('apiTester.sendRequest') + '!');
-      } else {
-        toast.error(`${t('apiTester.error')}: ${response.status}`);
-      }
-    } catch (error: any) {
-      const call: ApiCall = {
-        id: Date.now().toString(),
-        timestamp: new Date().toISOString(),
-        method,
-        endpoint,
-        status: null,
-        response: null,
-        error: error.message,
-      };
-
-      setHistory((prev) => [call, ...prev]);
-      setSelectedCall(call);
-
-      // Save error to database
-      apiLogService.createLog({
-        tokenId: selectedTokenId,
-        method,
-        endpoint,
-        error: error.message,
-      }).catch((err) => {
-        console.error('Failed to save log:', err);
+    await sendRequest(selectedTokenId, 'GET', withCursor(selectedCall.endpoint, cursor), false, undefined);
+  };
+
+  /**
+   * Add a proxied response to the history and select it
+   */
+  const recordResponse = (response: HelixProxyResponse, requestMethod: string, tokenId: string, body: unknown) => {
+    const call: ApiCall = {
+      id: response.logId || Date.now().toString(),
+      timestamp: new Date().toISOString(),
+      method: requestMethod,
+      endpoint: response.endpoint,
+      status: response.status,
+      response: response.body,
+      error: response.error,
+      source: 'proxy',
+      durationMs: response.durationMs,
+      requestHeaders: null,
+      responseHeaders: response.headers,
+      rateLimit: response.headers['ratelimit-limit'] ? {
+        limit: Number(response.headers['ratelimit-limit']),
+        remaining: response.headers['ratelimit-remaining'] ? Number(response.headers['ratelimit-remaining']) : null,
+        reset: response.headers['ratelimit-reset']
+          ? new Date(Number(response.headers['ratelimit-reset']) * 1000).toISOString()
+          : null,
+      } : null,
+      pages: response.pages,
+      tokenId,
+      requestBody: body,
+      logged: response.logId !== null,
+      redactedFields: [], // The live response is shown in full, only the stored log is redacted
+    };
+
+    setHistory((prev) => [call, ...prev]);
+    setSelectedCall(call);
+
+    // The token had expired, the server refreshed it and retried the request
+    if (response.tokenRefreshed) {
+      toast.success(t('apiTester.tokenRefreshed'));
+      loadTokens();
+    }
+
+    if (response.status !== null && response.status >= 200 && response.status < 300) {
+      toast.success(t('apiTester.sendRequest') + '!');
+    } else {
+      toast.error(`${t('apiTester.error')}: ${response.status ?? response.error}`);
+    }
+  };
+
+  const handleReplay = async (call: ApiCall, tokenId: string) => {
+    try {
+      setIsLoading(true);
+      const response = await apiLogService.replayLog(call.id, tokenId || undefined);
+      recordResponse(response, call.method, tokenId || call.tokenId || '', call.requestBody);
+      // Show how the response changed right away
+      setCompareCall(call);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendRequest = async (
+    tokenId: string,
+    requestMethod: HelixMethod,
+    endpoint: string,
+    fetchAllPages: boolean,
+    body: unknown
+  ) => {
+    try {
+      setIsLoading(true);
+
+      // The server injects the token and Client-Id, and logs the call
+      const response = await helixService.proxy({
+        tokenId,
+        method: requestMethod,
+        path: endpoint,
+        body,
+        ...(fetchAllPages && { allPages: true, maxPages }),
       });
 
-      toast.error(error.message || t('errors.somethingWentWrong'));
+      recordResponse(response, requestMethod, tokenId, body);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || t('errors.somethingWentWrong'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Fill the form with a request, selecting the catalog endpoint if its parameters cover the query
+   */
+  const applyRequestToForm = (request: Pick<SavedRequest, 'method' | 'path' | 'query'>, requestBodyText: string) => {
+    const query = request.query || {};
+    const endpoint = endpoints.find(
+      (item) => item.method === request.method && item.path === request.path &&
+        Object.keys(query).every((name) => item.query.some((param) => param.name === name))
+    ) || null;
+
+    setSelectedEndpoint(endpoint);
+    setParamValues(endpoint
+      ? Object.fromEntries(Object.entries(query).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value]))
+      : {});
+    setMethod(request.method);
+    setCustomEndpoint(buildSavedRequestPath(request));
+    setBodyText(requestBodyText);
+  };
+
+  /**
+   * Load a saved request into the form, with its preferred token if it still exists
+   */
+  const loadSavedRequest = (request: SavedRequest): string => {
+    applyRequestToForm(request, request.body !== null && request.body !== undefined ? JSON.stringify(request.body, null, 2) : '');
+    setActiveRequest(request);
+
+    const tokenId = request.tokenId && tokens.some((token) => token.id === request.tokenId)
+      ? request.tokenId
+      : selectedTokenId;
+    if (request.tokenId && tokenId !== request.tokenId) {
+      toast.error(t('collections.tokenMissing'));
+    }
+    setSelectedTokenId(tokenId);
+    return tokenId;
+  };
+
+  const handleImportCurl = ({ request, bodyText: importedBody, tokenId }: CurlImport) => {
+    applyRequestToForm(request, importedBody);
+    setActiveRequest(null);
+    setShowCurlImport(false);
+    if (tokenId) {
+      setSelectedTokenId(tokenId);
+    }
+  };
+
+  const handleRunSavedRequest = async (request: SavedRequest) => {
+    const tokenId = loadSavedRequest(request);
+    if (!tokenId) {
+      toast.error(t('apiTester.selectToken'));
+      return;
+    }
+
+    const bodyTemplate = request.body !== null && request.body !== undefined ? JSON.stringify(request.body) : '';
+    const resolved = resolveRequest(tokenId, buildSavedRequestPath(request), bodyTemplate);
+    if (!resolved) {
+      return;
+    }
+
+    const parsed = parseBodyText(resolved.bodyText);
+    if (!parsed) {
+      return;
+    }
+
+    await sendRequest(tokenId, request.method, resolved.endpoint, false, parsed.body);
+  };
+
+  /**
+   * Current form as a saved request payload, null if the body is invalid
+   */
+  const getFormRequest = () => {
+    const parsed = parseBodyText(method === 'GET' ? '' : bodyText);
+    if (!parsed) {
+      return null;
+    }
+
+    const { path, query } = parseEndpoint(customEndpoint.trim());
+    return {
+      method,
+      path,
+      query: Object.keys(query).length > 0 ? query : null,
+      body: parsed.body ?? null,
+      tokenId: selectedTokenId || null,
+    };
+  };
+
+  const openSaveModal = () => {
+    if (!customEndpoint.trim().startsWith('/')) {
+      toast.error(t('errors.requiredField'));
+      return;
+    }
+
+    const data = getFormRequest();
+    if (data) {
+      setRequestToSave(data);
+    }
+  };
+
+  const handleRequestSaved = (saved: SavedRequest) => {
+    setActiveRequest(saved);
+    setRequestToSave(null);
+    loadCollections();
+  };
+
+  const handleUpdateSavedRequest = async () => {
+    if (!activeRequest) {
+      return;
+    }
+
+    const data = getFormRequest();
+    if (!data) {
+      return;
+    }
+
+    try {
+      const updated = await collectionService.updateRequest(activeRequest.collectionId, activeRequest.id, data);
+      setActiveRequest(updated);
+      toast.success(t('collections.requestUpdated'));
+      loadCollections();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  const handleCopyFormAsCode = () => {
+    if (!customEndpoint.trim()) {
+      toast.error(t('errors.requiredField'));
+      return;
+    }
+
+    const resolved = resolveRequest(selectedTokenId, customEndpoint.trim(), method === 'GET' ? '' : bodyText);
+    if (!resolved) {
+      return;
+    }
+
+    const parsed = parseBodyText(resolved.bodyText);
+    if (!parsed) {
+      return;
+    }
+
+    setSnippetSource({
+      method,
+      endpoint: resolved.endpoint,
+      body: parsed.body,
+      tokenId: selectedTokenId || null,
+      headers: null,
+    });
+  };
+
+  const handleCopyCallAsCode = (call: ApiCall) => {
+    setSnippetSource({
+      method: call.method,
+      endpoint: call.endpoint,
+      body: call.requestBody,
+      tokenId: call.tokenId,
+      headers: call.requestHeaders,
+    });
+  };
+
+  const handleEnvironmentChange = (id: string) => {
+    setEnvironmentId(id);
+    if (id) {
+      localStorage.setItem(ENVIRONMENT_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ENVIRONMENT_STORAGE_KEY);
+    }
+  };
+
+  const categories = [...new Set(endpoints.map((endpoint) => endpoint.category))];
+
+  // Scope pre-flight: the selected endpoint, or the catalog endpoint matching a custom path
+  const selectedToken = tokens.find((token) => token.id === selectedTokenId) || null;
+  const preflightEndpoint = selectedEndpoint || endpoints.find(
+    (endpoint) => endpoint.method === method && endpoint.path === customEndpoint.split('?')[0]
+  ) || null;
+
   const formatJson = (json: any) => {
     return JSON.stringify(json, null, 2);
   };
@@ -252,220 +686,514 @@ export const ApiTester: React.FC = () => {
           <p className="text-white/60">{t('apiTester.subtitle')}</p>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Left Panel - Request Configuration */}
-          <div className="space-y-6">
-            <Card>
-              <h2 className="text-xl font-bold text-white mb-4">{t('apiTester.sendRequest')}</h2>
-
-              {/* Token Selector */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('apiTester.selectToken')}
-                </label>
-                <select
-                  value={selectedTokenId}
-                  onChange={(e) => setSelectedTokenId(e.target.value)}
-                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                >
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Sidebar - Saved Request Collections */}
+          <CollectionsSidebar
+            collections={collections}
+            activeRequestId={activeRequest?.id || null}
+            isLoading={isLoading}
+            onCollectionsChange={setCollections}
+            onReload={loadCollections}
+            onOpen={loadSavedRequest}
+            onRun={handleRunSavedRequest}
+          />
+
+          <div className="flex-1 min-w-0 grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Panel - Request Configuration */}
+            <div className="space-y-6">
+              <Card>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-white">{t('apiTester.sendRequest')}</h2>
+                  <Button variant="secondary" onClick={() => setShowCurlImport(true)} className="text-sm">
+                    {t('apiTester.importCurl')}
+                  </Button>
+                </div>
+
+                {/* Token Selector */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-white/80 mb-2">
+                    {t('apiTester.selectToken')}
+                  </label>
+                  <select
+                    value={selectedTokenId}
+                    onChange={(e) => setSelectedTokenId(e.target.value)}
+                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                  >
+                    {tokens.length === 0 && (
+                      <option value="">{t('apiTester.noTokens')}</option>
+                    )}
+                    {tokens.map((token) => (
+                      <option key={token.id} value={token.id}>
+                        {token.name || `${token.tokenType.toUpperCase()} Token`} - {token.twitchConfig.name || token.twitchConfig.clientId}
+                      </option>
+                    ))}
+                  </select>
                   {tokens.length === 0 && (
-                    <option value="">{t('apiTester.noTokens')}</option>
+                    <p className="text-xs text-red-400 mt-1">
+                      {t('apiTester.noTokens')}. <button onClick={() => navigate('/tokens')} className="underline">{t('apiTester.createTokenFirst')}</button>
+                    </p>
+                  )}
+                </div>
+
+                {/* Environment Switcher */}
+                <EnvironmentSelector
+                  environments={environments}
+                  activeEnvironment={activeEnvironment}
+                  token={selectedToken}
+                  onSelect={handleEnvironmentChange}
+                  onReload={loadEnvironments}
+                />
+
+                {/* Endpoint Selector */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-white/80 mb-2">
+                    {t('apiTester.endpoint')}
+                  </label>
+                  <select
+                    value={selectedEndpoint?.id || ''}
+                    onChange={(e) => selectEndpoint(endpoints.find((endpoint) => endpoint.id === e.target.value) || null)}
+                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                  >
+                    {categories.map((category) => (
+                      <optgroup key={category} label={category}>
+                        {endpoints.filter((endpoint) => endpoint.category === category).map((endpoint) => (
+                          <option key={endpoint.id} value={endpoint.id}>
+                            {endpoint.method} {endpoint.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                    <option value="">{t('apiTester.customEndpoint')}</option>
+                  </select>
+
+                  {selectedEndpoint && (
+                    <div className="mt-2 p-3 rounded-lg bg-twitch-dark-light text-xs space-y-1">
+                      <p className="text-white/80">{selectedEndpoint.description}</p>
+                      <p className="text-white/60">
+                        {t('apiTester.tokenType')}: {t(`apiTester.tokenTypes.${selectedEndpoint.tokenType}`)}
+                        {selectedEndpoint.paginated && ` · ${t('apiTester.paginated')}`}
+                      </p>
+                      {selectedEndpoint.scopes.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-white/60">{t('apiTester.requiredScopes')}:</span>
+                          {selectedEndpoint.scopes.map((scope) => (
+                            <span key={scope} className="px-2 py-0.5 rounded bg-twitch-purple/20 text-twitch-purple font-mono">
+                              {scope}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   )}
-                  {tokens.map((token) => (
-                    <option key={token.id} value={token.id}>
-                      {token.name || `${token.tokenType.toUpperCase()} Token`} - {token.twitchConfig.name || token.twitchConfig.clientId}
-                    </option>
-                  ))}
-                </select>
-                {tokens.length === 0 && (
-                  <p className="text-xs text-red-400 mt-1">
-                    {t('apiTester.noTokens')}. <button onClick={() => navigate('/tokens')} className="underline">{t('apiTester.createTokenFirst')}</button>
+                </div>
+
+                {/* Method Selector */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-white/80 mb-2">
+                    {t('apiTester.method')}
+                  </label>
+                  <select
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as HelixMethod)}
+                    disabled={selectedEndpoint !== null}
+                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                  >
+                    <option value="GET">GET</option>
+                    <option value="POST">POST</option>
+                    <option value="PUT">PUT</option>
+                    <option value="PATCH">PATCH</option>
+                    <option value="DELETE">DELETE</option>
+                  </select>
+                </div>
+
+                {/* Custom Endpoint */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-white/80 mb-2">
+                    {t('apiTester.endpoint')}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-white/60 text-sm">https://api.twitch.tv/helix</span>
+                    <input
+                      type="text"
+                      value={customEndpoint}
+                      onChange={(e) => setCustomEndpoint(e.target.value)}
+                      placeholder={t('apiTester.endpointPlaceholder')}
+                      className="flex-1 px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                    />
+                  </div>
+                  <p className="text-xs text-white/40 mt-1">
+                    Enter the path starting with /
                   </p>
+                </div>
+
+                {/* Query Parameters */}
+                {selectedEndpoint && selectedEndpoint.query.length > 0 && (
+                  <HelixParamFields params={selectedEndpoint.query} values={paramValues} onChange={handleParamChange} />
                 )}
-              </div>
-
-              {/* Endpoint Selector */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('apiTester.endpoint')}
-                </label>
-                <select
-                  onChange={(e) => handleEndpointChange(Number(e.target.value))}
-                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                >
-                  {COMMON_ENDPOINTS.map((endpoint, index) => (
-                    <option key={index} value={index}>
-                      {endpoint.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
-              {/* Method Selector */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('apiTester.method')}
-                </label>
-                <select
-                  value={method}
-                  onChange={(e) => setMethod(e.target.value)}
-                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+
+                {/* Request Body */}
+                {method !== 'GET' && (selectedEndpoint === null || selectedEndpoint.body.length > 0) && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('apiTester.requestBody')}
+                    </label>
+                    <textarea
+                      value={bodyText}
+                      onChange={(e) => setBodyText(e.target.value)}
+                      rows={8}
+                      spellCheck={false}
+                      placeholder="{}"
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white text-xs font-mono rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                    />
+                    {selectedEndpoint && (
+                      <details className="mt-2">
+                        <summary className="text-xs text-white/60 cursor-pointer">{t('apiTester.bodyFields')}</summary>
+                        <div className="mt-2 space-y-1">
+                          {selectedEndpoint.body.map((field) => (
+                            <p key={field.name} className="text-xs">
+                              <span className="font-mono text-twitch-purple">{field.name}</span>
+                              {field.required && <span className="text-red-400"> *</span>}
+                              <span className="text-white/40"> {field.type}{field.options && ` (${field.options.join(' | ')})`}</span>
+                              <span className="text-white/60"> - {field.description}</span>
+                            </p>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                )}
+
+                {/* Pagination */}
+                {method === 'GET' && (
+                  <div className="mb-4 flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-white/80">
+                      <input
+                        type="checkbox"
+                        checked={allPages}
+                        onChange={(e) => setAllPages(e.target.checked)}
+                        className="rounded border-twitch-gray-dark"
+                      />
+                      {t('apiTester.fetchAllPages')}
+                    </label>
+                    {allPages && (
+                      <label className="flex items-center gap-2 text-sm text-white/60">
+                        {t('apiTester.maxPages')}
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_PAGES_LIMIT}
+                          value={maxPages}
+                          onChange={(e) => setMaxPages(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_PAGES_LIMIT))}
+                          className="w-20 px-2 py-1 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                        />
+                      </label>
+                    )}
+                  </div>
+                )}
+
+                {/* Scope Pre-flight */}
+                {preflightEndpoint && selectedToken && (
+                  <ScopePreflight endpoint={preflightEndpoint} token={selectedToken} />
+                )}
+
+                {/* Test Button */}
+                <Button
+                  onClick={handleTestApi}
+                  disabled={isLoading || !selectedTokenId}
+                  className="w-full"
                 >
-                  <option value="GET">GET</option>
-                  <option value="POST">POST</option>
-                  <option value="PUT">PUT</option>
-                  <option value="PATCH">PATCH</option>
-                  <option value="DELETE">DELETE</option>
-                </select>
-              </div>
-
-              {/* Custom Endpoint */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('apiTester.endpoint')}
-                </label>
-                <div className="flex items-center gap-2">
-                  <span className="text-white/60 text-sm">https://api.twitch.tv/helix</span>
-                  <input
-                    type="text"
-                    value={customEndpoint}
-                    onChange={(e) => setCustomEndpoint(e.target.value)}
-                    placeholder={t('apiTester.endpointPlaceholder')}
-                    className="flex-1 px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                  />
-                </div>
-                <p className="text-xs text-white/40 mt-1">
-                  Enter the path starting with /
-                </p>
-              </div>
-
-              {/* Test Button */}
-              <Button
-                onClick={handleTestApi}
-                disabled={isLoading || !selectedTokenId}
-                className="w-full"
-              >
-                {isLoading ? t('apiTester.sending') : t('apiTester.sendRequest')}
-              </Button>
-            </Card>
-
-            {/* History */}
-            <Card>
-              <h2 className="text-xl font-bold text-white mb-4">{t('apiTester.requestHistory')}</h2>
-              {history.length === 0 ? (
-                <p className="text-white/40 text-center py-8">{t('apiTester.noHistory')}</p>
-              ) : (
-                <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {history.map((call) => (
-                    <button
-                      key={call.id}
-                      onClick={() => setSelectedCall(call)}
-                      className={`w-full text-left p-3 rounded-lg transition-colors ${
-                        selectedCall?.id === call.id
-                          ? 'bg-twitch-purple/20 border border-twitch-purple'
-                          : 'bg-twitch-dark-light hover:bg-white/5'
-                      }`}
+                  {isLoading ? t('apiTester.sending') : t('apiTester.sendRequest')}
+                </Button>
+
+                {/* Save to Collection */}
+                <div className="flex gap-2 mt-2">
+                  <Button variant="secondary" onClick={openSaveModal} className="flex-1 text-sm">
+                    {t('collections.saveRequest')}
+                  </Button>
+                  {activeRequest && (
+                    <Button
+                      variant="secondary"
+                      onClick={handleUpdateSavedRequest}
+                      title={activeRequest.name}
+                      className="flex-1 text-sm"
                     >
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center gap-2">
-                          <span className={`px-2 py-0.5 text-xs rounded ${
-                            call.method === 'GET' ? 'bg-green-500/20 text-green-400' :
-                            call.method === 'POST' ? 'bg-blue-500/20 text-blue-400' :
-                            call.method === 'PUT' ? 'bg-yellow-500/20 text-yellow-400' :
-                            call.method === 'DELETE' ? 'bg-red-500/20 text-red-400' :
-                            'bg-gray-500/20 text-gray-400'
-                          }`}>
-                            {call.method}
-                          </span>
-                          <span className="text-white text-sm font-mono">{call.endpoint}</span>
+                      {t('collections.updateRequest')}
+                    </Button>
+                  )}
+                  <Button variant="secondary" onClick={handleCopyFormAsCode} className="flex-1 text-sm">
+                    {t('apiTester.copyAsCode')}
+                  </Button>
+                </div>
+              </Card>
+
+              {/* History */}
+              <Card>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-white">{t('apiTester.requestHistory')}</h2>
+                  <div className="flex items-center gap-3">
+                    <LogExportMenu filters={toApiLogFilters(historyFilters)} disabled={logTotal === 0} />
+                    <LogRetentionSettings onPruned={() => loadLogs(historyFilters)} />
+                    <LogRedactionSettings />
+                  </div>
+                </div>
+
+                {/* Filters */}
+                <ApiLogFilterBar
+                  filters={historyFilters}
+                  onChange={setHistoryFilters}
+                  tokens={tokens}
+                  total={logTotal}
+                  onLogsDeleted={handleLogsDeleted}
+                />
+
+                {history.length === 0 ? (
+                  <p className="text-white/40 text-center py-8">{t('apiTester.noHistory')}</p>
+                ) : (
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {history.map((call) => (
+                      <button
+                        key={call.id}
+                        onClick={() => setSelectedCall(call)}
+                        className={`w-full text-left p-3 rounded-lg transition-colors ${
+                          selectedCall?.id === call.id
+                            ? 'bg-twitch-purple/20 border border-twitch-purple'
+                            : 'bg-twitch-dark-light hover:bg-white/5'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 text-xs rounded ${
+                              call.method === 'GET' ? 'bg-green-500/20 text-green-400' :
+                              call.method === 'POST' ? 'bg-blue-500/20 text-blue-400' :
+                              call.method === 'PUT' ? 'bg-yellow-500/20 text-yellow-400' :
+                              call.method === 'DELETE' ? 'bg-red-500/20 text-red-400' :
+                              'bg-gray-500/20 text-gray-400'
+                            }`}>
+                              {call.method}
+                            </span>
+                            <span className="text-white text-sm font-mono">{call.endpoint}</span>
+                            {call.source && call.source !== 'proxy' && call.source !== 'client' && (
+                              <span className="px-2 py-0.5 text-xs rounded bg-white/10 text-white/60">
+                                {t(`apiTester.source.${call.source}`)}
+                              </span>
+                            )}
+                            {call.redactedFields.length > 0 && (
+                              <span title={t('apiTester.redactedFields', { count: call.redactedFields.length })}>🔒</span>
+                            )}
+                            {compareCall?.id === call.id && (
+                              <span className="px-2 py-0.5 text-xs rounded bg-twitch-purple/20 text-twitch-purple">
+                                {t('apiTester.compareBase')}
+                              </span>
+                            )}
+                          </div>
+                          {call.status && (
+                            <span className={`px-2 py-0.5 text-xs rounded ${
+                              call.status >= 200 && call.status < 300
+                                ? 'bg-green-500/20 text-green-400'
+                                : 'bg-red-500/20 text-red-400'
+                            }`}>
+                              {call.status}
+                            </span>
+                          )}
                         </div>
-                        {call.status && (
-                          <span className={`px-2 py-0.5 text-xs rounded ${
-                            call.status >= 200 && call.status < 300
+                        <p className="text-xs text-white/40">
+                          {new Date(call.timestamp).toLocaleString()}
+                          {call.durationMs !== null && ` · ${call.durationMs} ms`}
+                          {call.pages !== undefined && call.pages > 1 && ` · ${t('apiTester.pages', { count: call.pages })}`}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </div>
+
+            {/* Right Panel - Response Viewer */}
+            <div>
+              <Card>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-white">{t('apiTester.response')}</h2>
+                  {selectedCall && (
+                    <div className="flex gap-2">
+                      <Button onClick={() => handleCopyCallAsCode(selectedCall)} variant="secondary">
+                        {t('apiTester.copyAsCode')}
+                      </Button>
+                      {selectedCall.response && (
+                        <Button
+                          onClick={() => copyToClipboard(formatJson(selectedCall.response))}
+                          variant="secondary"
+                        >
+                          {t('tokens.copy')} JSON
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {!selectedCall ? (
+                  <div className="text-center py-12">
+                    <svg className="w-16 h-16 mx-auto text-white/20 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                    <p className="text-white/40">{t('apiTester.noHistoryText')}</p>
+                  </div>
+                ) : (
+                  <div>
+                    {/* Status */}
+                    <div className="mb-4 p-3 rounded-lg bg-twitch-dark-light">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white/60 text-sm">{t('apiTester.status')}:</span>
+                        {selectedCall.status ? (
+                          <span className={`px-3 py-1 rounded text-sm font-medium ${
+                            selectedCall.status >= 200 && selectedCall.status < 300
                               ? 'bg-green-500/20 text-green-400'
                               : 'bg-red-500/20 text-red-400'
                           }`}>
-                            {call.status}
+                            {selectedCall.status} {
+                              selectedCall.status >= 200 && selectedCall.status < 300 ? 'Success' :
+                              selectedCall.status >= 400 && selectedCall.status < 500 ? 'Client Error' :
+                              selectedCall.status >= 500 ? 'Server Error' : ''
+                            }
+                          </span>
+                        ) : (
+                          <span className="px-3 py-1 rounded text-sm font-medium bg-red-500/20 text-red-400">
+                            {t('apiTester.error')}
                           </span>
                         )}
                       </div>
-                      <p className="text-xs text-white/40">
-                        {new Date(call.timestamp).toLocaleString()}
-                      </p>
-                    </button>
-                  ))}
-                </div>
-              )}
-            </Card>
-          </div>
+                      {(selectedCall.durationMs !== null || selectedCall.rateLimit) && (
+                        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-white/60">
+                          {selectedCall.durationMs !== null && (
+                            <span>{t('apiTester.duration')}: {selectedCall.durationMs} ms</span>
+                          )}
+                          {selectedCall.rateLimit && (
+                            <span>
+                              {t('apiTester.rateLimit')}: {selectedCall.rateLimit.remaining ?? '?'} / {selectedCall.rateLimit.limit}
+                              {selectedCall.rateLimit.reset && (
+                                ` · ${t('apiTester.rateLimitReset')} ${new Date(selectedCall.rateLimit.reset).toLocaleTimeString()}`
+                              )}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
 
-          {/* Right Panel - Response Viewer */}
-          <div>
-            <Card>
-              <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-bold text-white">{t('apiTester.response')}</h2>
-                {selectedCall && selectedCall.response && (
-                  <Button
-                    onClick={() => copyToClipboard(formatJson(selectedCall.response))}
-                    variant="secondary"
-                  >
-                    {t('tokens.copy')} JSON
-                  </Button>
-                )}
-              </div>
-
-              {!selectedCall ? (
-                <div className="text-center py-12">
-                  <svg className="w-16 h-16 mx-auto text-white/20 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                  </svg>
-                  <p className="text-white/40">{t('apiTester.noHistoryText')}</p>
-                </div>
-              ) : (
-                <div>
-                  {/* Status */}
-                  <div className="mb-4 p-3 rounded-lg bg-twitch-dark-light">
-                    <div className="flex items-center justify-between">
-                      <span className="text-white/60 text-sm">{t('apiTester.status')}:</span>
-                      {selectedCall.status ? (
-                        <span className={`px-3 py-1 rounded text-sm font-medium ${
-                          selectedCall.status >= 200 && selectedCall.status < 300
-                            ? 'bg-green-500/20 text-green-400'
-                            : 'bg-red-500/20 text-red-400'
-                        }`}>
-                          {selectedCall.status} {
-                            selectedCall.status >= 200 && selectedCall.status < 300 ? 'Success' :
-                            selectedCall.status >= 400 && selectedCall.status < 500 ? 'Client Error' :
-                            selectedCall.status >= 500 ? 'Server Error' : ''
-                          }
-                        </span>
+                    {/* Redacted fields */}
+                    {selectedCall.redactedFields.length > 0 && (
+                      <details className="mb-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                        <summary className="px-3 py-2 text-sm text-yellow-300 cursor-pointer">
+                          🔒 {t('apiTester.redactedFields', { count: selectedCall.redactedFields.length })}
+                        </summary>
+                        <div className="px-3 pb-3 space-y-1">
+                          {selectedCall.redactedFields.map((field) => (
+                            <div key={field} className="text-xs font-mono text-yellow-200/80 break-all">{field}</div>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+
+                    {/* Replay & Compare */}
+                    <div className="mb-4 flex flex-wrap items-center gap-2">
+                      {selectedCall.logged && selectedCall.endpoint.startsWith('/') && (
+                        <ReplayControls call={selectedCall} tokens={tokens} isLoading={isLoading} onReplay={handleReplay} />
+                      )}
+                      {compareCall ? (
+                        <Button variant="secondary" onClick={() => setCompareCall(null)} className="text-sm">
+                          {t('apiTester.exitCompare')}
+                        </Button>
                       ) : (
-                        <span className="px-3 py-1 rounded text-sm font-medium bg-red-500/20 text-red-400">
-                          {t('apiTester.error')}
-                        </span>
+                        <Button
+                          variant="secondary"
+                          onClick={() => {
+                            setCompareCall(selectedCall);
+                            toast(t('apiTester.compareHint'));
+                          }}
+                          className="text-sm"
+                        >
+                          {t('apiTester.compare')}
+                        </Button>
                       )}
                     </div>
-                  </div>
 
-                  {/* Response Body */}
-                  {selectedCall.error ? (
-                    <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
-                      <p className="text-red-400 font-medium mb-2">{t('apiTester.error')}</p>
-                      <p className="text-red-300 text-sm">{selectedCall.error}</p>
-                    </div>
-                  ) : (
-                    <div className="bg-twitch-dark border border-twitch-gray-dark rounded-lg overflow-hidden">
-                      <pre className="p-4 overflow-x-auto text-xs text-white/80 font-mono max-h-[600px] overflow-y-auto">
-                        {formatJson(selectedCall.response)}
-                      </pre>
-                    </div>
-                  )}
-                </div>
-              )}
-            </Card>
+                    {/* Headers */}
+                    {[
+                      { label: t('apiTester.requestHeaders'), headers: selectedCall.requestHeaders },
+                      { label: t('apiTester.responseHeaders'), headers: selectedCall.responseHeaders },
+                    ].filter(({ headers }) => headers && Object.keys(headers).length > 0).map(({ label, headers }) => (
+                      <details key={label} className="mb-4 bg-twitch-dark-light rounded-lg">
+                        <summary className="px-3 py-2 text-sm text-white/80 cursor-pointer">
+                          {label} ({Object.keys(headers!).length})
+                        </summary>
+                        <div className="px-3 pb-3 space-y-1">
+                          {Object.entries(headers!).map(([name, value]) => (
+                            <div key={name} className="text-xs font-mono break-all">
+                              <span className="text-twitch-purple">{name}</span>
+                              <span className="text-white/60">: {value}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </details>
+                    ))}
+
+                    {/* Response Body */}
+                    {compareCall && compareCall.id !== selectedCall.id ? (
+                      <ResponseDiff base={compareCall} call={selectedCall} />
+                    ) : selectedCall.error ? (
+                      <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                        <p className="text-red-400 font-medium mb-2">{t('apiTester.error')}</p>
+                        <p className="text-red-300 text-sm">{selectedCall.error}</p>
+                      </div>
+                    ) : (
+                      <div className="bg-twitch-dark border border-twitch-gray-dark rounded-lg overflow-hidden">
+                        <pre className="p-4 overflow-x-auto text-xs text-white/80 font-mono max-h-[600px] overflow-y-auto">
+                          {formatJson(selectedCall.response)}
+                        </pre>
+                      </div>
+                    )}
+
+                    {/* Pagination */}
+                    {getNextCursor(selectedCall.response) && (
+                      <div className="mt-4 flex items-center justify-between">
+                        <span className="text-xs text-white/60">
+                          {selectedCall.pages !== undefined && selectedCall.pages > 1
+                            ? t('apiTester.pageCapReached', { count: selectedCall.pages })
+                            : t('apiTester.morePages')}
+                        </span>
+                        <Button
+                          variant="secondary"
+                          onClick={handleNextPage}
+                          isLoading={isLoading}
+                          disabled={isLoading || !selectedTokenId}
+                        >
+                          {t('apiTester.nextPage')}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Card>
+            </div>
           </div>
         </div>
       </div>
+
+      {/* Import cURL Modal */}
+      {showCurlImport && <CurlImportModal onImport={handleImportCurl} onClose={() => setShowCurlImport(false)} />}
+
+      {/* Copy as Code Modal */}
+      {snippetSource && <CodeSnippetModal source={snippetSource} onClose={() => setSnippetSource(null)} />}
+
+      {/* Save Request Modal */}
+      {requestToSave && (
+        <SaveRequestModal
+          request={requestToSave}
+          collections={collections}
+          defaultName={selectedEndpoint?.name || `${method} ${customEndpoint.split('?')[0]}`}
+          defaultCollectionId={activeRequest?.collectionId || collections[0]?.id || ''}
+          onSaved={handleRequestSaved}
+          onClose={() => setRequestToSave(null)}
+        />
+      )}
     </div>
   );
 };
@@ -10,8 +10,29 @@ import toast from 'react-hot-toast';
 import tokenService from '../services/tokenService';
 import twitchConfigService from '../services/twitchConfigService';
 import apiLogService from '../services/apiLogService';
+import helixService from '../services/helixService';
 import twitchApiService, { type TwitchUser, type TwitchStream } from '../services/twitchApiService';
-import type { SavedToken } from '../types/index';
+import type { SavedToken, TokenRateLimit, ApiLogAnalytics } from '../types/index';
+
+const ANALYTICS_PERIODS = [7, 30, 90];
+
+// Tokens failing at least this share of their calls are highlighted
+const FAILING_ERROR_RATE = 0.2;
+
+const STATUS_CLASS_COLORS: Record<string, string> = {
+  '2xx': 'bg-green-500',
+  '3xx': 'bg-blue-500',
+  '4xx': 'bg-yellow-500',
+  '5xx': 'bg-red-500',
+  network: 'bg-gray-500',
+};
+
+// Tokens with these health statuses are listed as needing attention
+const ATTENTION_STATUSES = ['error', 'warning'];
+
+const formatRate = (rate: number | null): string => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+
+const formatLatency = (ms: number | null): string => (ms === null ? '-' : `${ms} ms`);
 
 export const Dashboard: React.FC = () => {
   const { t } = useTranslation();
@@ -23,6 +44,10 @@ export const Dashboard: React.FC = () => {
     tokens: 0,
     logs: 0,
   });
+  const [rateLimits, setRateLimits] = useState<TokenRateLimit[]>([]);
+  const [attentionTokens, setAttentionTokens] = useState<SavedToken[]>([]);
+  const [analytics, setAnalytics] = useState<ApiLogAnalytics | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(7);
   const [twitchData, setTwitchData] = useState<{
     user: TwitchUser | null;
     stream: TwitchStream | null;
@@ -35,6 +60,10 @@ export const Dashboard: React.FC = () => {
     subscribers: 0,
   });
 
+  // Scales of the analytics bars
+  const maxDayTotal = Math.max(1, ...(analytics?.byDay.map(({ total }) => total) ?? []));
+  const maxEndpointTotal = analytics?.byEndpoint[0]?.total || 1;
+
   const handleLogout = () => {
     logout();
     navigate('/login');
@@ -44,14 +73,27 @@ export const Dashboard: React.FC = () => {
     loadDashboardData();
   }, []);
 
+  useEffect(() => {
+    loadAnalytics(analyticsDays);
+  }, [analyticsDays]);
+
+  const loadAnalytics = async (days: number) => {
+    try {
+      setAnalytics(await apiLogService.getAnalytics(days));
+    } catch (error) {
+      console.error('Failed to load API analytics:', error);
+    }
+  };
+
   const loadDashboardData = async () => {
     setIsLoading(true);
     try {
       // Load stats
-      const [configs, tokens, logs] = await Promise.all([
+      const [configs, tokens, logs, limits] = await Promise.all([
         twitchConfigService.getAllConfigs(),
         tokenService.getAllTokens(),
         apiLogService.getAllLogs(1, 0),
+        helixService.getRateLimits(),
       ]);
 
       setStats({
@@ -59,9 +101,11 @@ export const Dashboard: React.FC = () => {
         tokens: tokens.length,
         logs: logs.total,
       });
+      setRateLimits(limits);
+      setAttentionTokens(tokens.filter((token) => ATTENTION_STATUSES.includes(token.health?.status ?? '')));
 
       // Try to find a user token to display Twitch data
-      const userToken = tokens.find(t => t.tokenType === 'user');
+      const userToken = tokens.find(t => t.tokenType === 'user' && !t.revokedAt);
       if (userToken) {
         await loadTwitchData(userToken);
       }
@@ -74,26 +118,23 @@ export const Dashboard: React.FC = () => {
 
   const loadTwitchData = async (token: SavedToken) => {
     try {
-      // Get full token with accessToken
-      const fullToken = await tokenService.getToken(token.id);
-
-      if (!fullToken.channelId) {
+      if (!token.channelId) {
         return;
       }
 
       // Load user info
-      const users = await twitchApiService.getUsers(fullToken, [fullToken.channelLogin!]);
+      const users = await twitchApiService.getUsers(token, [token.channelLogin!]);
       const twitchUser = users[0] || null;
 
       // Load stream status
-      const streams = await twitchApiService.getStreams(fullToken, [fullToken.channelId]);
+      const streams = await twitchApiService.getStreams(token, [token.channelId]);
       const stream = streams[0] || null;
 
       // Load followers (only if has scope)
       let followers = 0;
-      if (fullToken.scopes.includes('moderator:read:followers')) {
+      if (token.scopes.includes('moderator:read:followers')) {
         try {
-          followers = await twitchApiService.getFollowerCount(fullToken, fullToken.channelId);
+          followers = await twitchApiService.getFollowerCount(token, token.channelId);
         } catch (err) {
           console.log('No follower scope');
         }
@@ -101,9 +142,9 @@ export const Dashboard: React.FC = () => {
 
       // Load subscribers (only if has scope)
       let subscribers = 0;
-      if (fullToken.scopes.includes('channel:read:subscriptions')) {
+      if (token.scopes.includes('channel:read:subscriptions')) {
         try {
-          subscribers = await twitchApiService.getSubscriberCount(fullToken, fullToken.channelId);
+          subscribers = await twitchApiService.getSubscriberCount(token, token.channelId);
         } catch (err) {
           console.log('No subscriber scope');
         }
@@ -198,6 +239,59 @@ export const Dashboard: React.FC = () => {
               </p>
             </div>
 
+            {/* Tokens needing attention */}
+            {attentionTokens.length > 0 && (
+              <Card className="mb-8 border-yellow-500/30">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-white mb-2">⚠️ {t('dashboard.attentionNeeded')}</h2>
+                    <p className="text-sm text-gray-400">{t('dashboard.attentionNeededHint')}</p>
+                  </div>
+                  <Button variant="secondary" onClick={() => navigate('/tokens')}>
+                    {t('dashboard.manageTokens')}
+                  </Button>
+                </div>
+                <div className="space-y-3">
+                  {attentionTokens.map((token) => (
+                    <div key={token.id} className="flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <span className="text-white">
+                          {token.name || token.channelLogin || token.id}
+                          <span className="ml-2 text-xs text-white/40">{token.tokenType}</span>
+                        </span>
+                        <ul className="mt-1 text-white/60">
+                          {token.health!.issues.map((issue) => (
+                            <li key={issue}>
+                              {t(`tokens.healthIssues.${issue}`)}
+                              {issue === 'scope_drift' && token.health!.missingScopes.length > 0 && (
+                                <span className="font-mono text-xs">
+                                  {' '}· {t('tokens.missingScopes')}: {token.health!.missingScopes.join(', ')}
+                                </span>
+                              )}
+                              {issue === 'scope_drift' && token.health!.extraScopes.length > 0 && (
+                                <span className="font-mono text-xs">
+                                  {' '}· {t('tokens.extraScopes')}: {token.health!.extraScopes.join(', ')}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${
+                          token.health!.status === 'error'
+                            ? 'bg-red-500/20 text-red-400'
+                            : 'bg-yellow-500/20 text-yellow-400'
+                        }`}
+                      >
+                        {t(`tokens.health.${token.health!.status}`)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
             {/* Twitch Channel Info */}
             {twitchData.user && (
               <div className="mb-8">
@@ -308,6 +402,187 @@ export const Dashboard: React.FC = () => {
               </Card>
             </div>
 
+            {/* Rate Limits */}
+            {rateLimits.length > 0 && (
+              <Card className="mb-12">
+                <h2 className="text-2xl font-bold text-white mb-2">{t('dashboard.rateLimits')}</h2>
+                <p className="text-sm text-gray-400 mb-6">{t('dashboard.rateLimitsHint')}</p>
+                <div className="space-y-4">
+                  {rateLimits.map((bucket) => {
+                    const percent = bucket.limit > 0 ? Math.round((bucket.remaining / bucket.limit) * 100) : 0;
+                    return (
+                      <div key={bucket.tokenId}>
+                        <div className="flex items-center justify-between mb-1 text-sm">
+                          <span className="text-white">
+                            {bucket.name || bucket.tokenId}
+                            <span className="ml-2 text-xs text-white/40">{bucket.tokenType}</span>
+                          </span>
+                          <span className="text-white/60">
+                            {bucket.remaining} / {bucket.limit}
+                            {bucket.queued > 0 && ` · ${t('dashboard.rateLimitQueued', { count: bucket.queued })}`}
+                            {bucket.resetAt && ` · ${t('dashboard.rateLimitReset')} ${new Date(bucket.resetAt).toLocaleTimeString()}`}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-twitch-dark rounded-full overflow-hidden">
+                          <div
+                            className={`h-full ${percent > 25 ? 'bg-twitch-purple' : 'bg-red-500'}`}
+                            style={{ width: `${percent}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
+            {/* API Usage */}
+            {analytics && (
+              <Card className="mb-12">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                  <div>
+                    <h2 className="text-2xl font-bold text-white mb-2">{t('dashboard.analytics')}</h2>
+                    <p className="text-sm text-gray-400">{t('dashboard.analyticsHint')}</p>
+                  </div>
+                  <select
+                    value={analyticsDays}
+                    onChange={(e) => setAnalyticsDays(Number(e.target.value))}
+                    className="px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                  >
+                    {ANALYTICS_PERIODS.map((days) => (
+                      <option key={days} value={days}>{t('dashboard.lastDays', { count: days })}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {analytics.summary.total === 0 ? (
+                  <p className="text-white/40 text-center py-8">{t('dashboard.noAnalytics')}</p>
+                ) : (
+                  <div className="space-y-8">
+                    {/* Summary */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      {[
+                        { label: t('dashboard.calls'), value: formatNumber(analytics.summary.total) },
+                        { label: t('dashboard.successRate'), value: formatRate(analytics.summary.successRate) },
+                        { label: t('dashboard.latencyP50'), value: formatLatency(analytics.summary.p50) },
+                        { label: t('dashboard.latencyP95'), value: formatLatency(analytics.summary.p95) },
+                      ].map(({ label, value }) => (
+                        <div key={label} className="p-4 rounded-lg bg-twitch-dark">
+                          <p className="text-2xl font-bold text-white">{value}</p>
+                          <p className="text-sm text-white/60">{label}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Calls per day */}
+                    <div>
+                      <h3 className="text-lg font-semibold text-white mb-4">{t('dashboard.callsPerDay')}</h3>
+                      <div className="flex items-end gap-1 h-40">
+                        {analytics.byDay.map((day) => (
+                          <div
+                            key={day.date}
+                            title={`${day.date}: ${t('dashboard.callsCount', { count: day.total })}, ${t('dashboard.errorsCount', { count: day.errors })}`}
+                            className="flex-1 flex flex-col justify-end h-full"
+                          >
+                            <div className="bg-red-500" style={{ height: `${(day.errors / maxDayTotal) * 100}%` }} />
+                            <div className="bg-twitch-purple" style={{ height: `${((day.total - day.errors) / maxDayTotal) * 100}%` }} />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between mt-2 text-xs text-white/40">
+                        <span>{analytics.byDay[0]?.date}</span>
+                        <span>{analytics.byDay[analytics.byDay.length - 1]?.date}</span>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                      {/* Top endpoints */}
+                      <div>
+                        <h3 className="text-lg font-semibold text-white mb-4">{t('dashboard.topEndpoints')}</h3>
+                        <div className="space-y-3">
+                          {analytics.byEndpoint.map((row) => (
+                            <div key={`${row.method} ${row.endpoint}`}>
+                              <div className="flex items-center justify-between gap-2 mb-1 text-sm">
+                                <span className="text-white font-mono truncate" title={row.endpoint}>
+                                  <span className="text-xs text-white/40 mr-2">{row.method}</span>
+                                  {row.endpoint}
+                                </span>
+                                <span className="text-white/60 shrink-0">
+                                  {formatNumber(row.total)}
+                                  {` · ${formatRate(row.errorRate)} ${t('dashboard.errorRate')}`}
+                                  {row.p95 !== null && ` · p95 ${formatLatency(row.p95)}`}
+                                </span>
+                              </div>
+                              <div className="h-2 bg-twitch-dark rounded-full overflow-hidden flex">
+                                <div
+                                  className="h-full bg-twitch-purple"
+                                  style={{ width: `${((row.total - row.errors) / maxEndpointTotal) * 100}%` }}
+                                />
+                                <div
+                                  className="h-full bg-red-500"
+                                  style={{ width: `${(row.errors / maxEndpointTotal) * 100}%` }}
+                                />
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Tokens */}
+                      <div>
+                        <h3 className="text-lg font-semibold text-white mb-4">{t('dashboard.tokenUsage')}</h3>
+                        <div className="space-y-2">
+                          {analytics.byToken.map((row) => {
+                            const isFailing = row.errorRate !== null && row.errorRate >= FAILING_ERROR_RATE;
+                            return (
+                              <div
+                                key={row.tokenId || 'none'}
+                                className={`flex items-center justify-between gap-2 p-3 rounded-lg text-sm ${
+                                  isFailing ? 'bg-red-500/10 border border-red-500/30' : 'bg-twitch-dark'
+                                }`}
+                              >
+                                <span className="text-white truncate">
+                                  {row.tokenId ? row.tokenName || row.tokenId : t('dashboard.noToken')}
+                                  {row.tokenType && <span className="ml-2 text-xs text-white/40">{row.tokenType}</span>}
+                                </span>
+                                <span className={`shrink-0 ${isFailing ? 'text-red-400' : 'text-white/60'}`}>
+                                  {t('dashboard.callsCount', { count: row.total })}
+                                  {` · ${formatRate(row.errorRate)} ${t('dashboard.errorRate')}`}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Status classes */}
+                    <div>
+                      <h3 className="text-lg font-semibold text-white mb-4">{t('dashboard.statusClasses')}</h3>
+                      <div className="h-3 rounded-full overflow-hidden flex">
+                        {analytics.byStatusClass.map(({ statusClass, total }) => (
+                          <div
+                            key={statusClass}
+                            title={`${statusClass}: ${total}`}
+                            className={STATUS_CLASS_COLORS[statusClass] || 'bg-gray-500'}
+                            style={{ width: `${(total / analytics.summary.total) * 100}%` }}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-4 mt-3 text-sm text-white/60">
+                        {analytics.byStatusClass.map(({ statusClass, total }) => (
+                          <span key={statusClass} className="flex items-center gap-2">
+                            <span className={`w-3 h-3 rounded-sm ${STATUS_CLASS_COLORS[statusClass] || 'bg-gray-500'}`} />
+                            {statusClass === 'network' ? t('dashboard.networkErrors') : statusClass}: {formatNumber(total)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            )}
+
             {/* Quick Actions */}
             <Card>
               <h2 className="text-2xl font-bold text-white mb-6">{t('dashboard.title')}</h2>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
 import { Card } from '../components/Card';
@@ -10,17 +10,28 @@ import LanguageSelector from '../components/LanguageSelector';
 import { useAuthStore } from '../store/authStore';
 import tokenService from '../services/tokenService';
 import twitchConfigService from '../services/twitchConfigService';
+import { getApiErrorMessage } from '../utils/apiError';
 import type {
   SavedToken,
   TwitchConfig,
   GenerateAppTokenRequest,
   StartUserTokenRequest,
   DeviceFlowResponse,
+  TokenHealthStatus,
 } from '../types/index';
 
+// Health badge colors, revoked tokens already have their own badge
+const HEALTH_BADGE_CLASSES: Record<Exclude<TokenHealthStatus, 'revoked'>, string> = {
+  healthy: 'bg-green-500/20 text-green-400',
+  warning: 'bg-yellow-500/20 text-yellow-400',
+  error: 'bg-red-500/20 text-red-400',
+  unknown: 'bg-white/10 text-white/60',
+};
+
 export const Tokens: React.FC = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, logout } = useAuthStore();
   const [tokens, setTokens] = useState<SavedToken[]>([]);
   const [configs, setConfigs] = useState<TwitchConfig[]>([]);
@@ -31,6 +42,10 @@ export const Tokens: React.FC = () => {
   const [showTokenModal, setShowTokenModal] = useState(false);
   const [showValidationModal, setShowValidationModal] = useState(false);
   const [selectedToken, setSelectedToken] = useState<SavedToken | null>(null);
+  const [tokenToDelete, setTokenToDelete] = useState<SavedToken | null>(null);
+  const [revokeOnDelete, setRevokeOnDelete] = useState(true);
+  const [tokenToRegenerate, setTokenToRegenerate] = useState<SavedToken | null>(null);
+  const [revokePrevious, setRevokePrevious] = useState(false);
   const [validationResult, setValidationResult] = useState<any>(null);
   const [deviceFlowData, setDeviceFlowData] = useState<DeviceFlowResponse | null>(null);
   const [isPolling, setIsPolling] = useState(false);
@@ -38,6 +53,7 @@ export const Tokens: React.FC = () => {
   const [formData, setFormData] = useState({
     twitchConfigId: '',
     name: '',
+    keepAlive: false,
   });
   const [userTokenFormData, setUserTokenFormData] = useState({
     twitchConfigId: '',
@@ -59,6 +75,23 @@ export const Tokens: React.FC = () => {
     loadConfigs();
   }, []);
 
+  // Open the user token modal prefilled from a link, e.g. ?scopes=a b&configId=... from the API Tester
+  useEffect(() => {
+    const scopes = searchParams.get('scopes');
+    if (!scopes || configs.length === 0) {
+      return;
+    }
+
+    const configId = searchParams.get('configId');
+    setUserTokenFormData({
+      twitchConfigId: configs.find((config) => config.id === configId)?.id || configs[0].id,
+      name: '',
+      scopes: scopes.split(' ').filter(Boolean),
+    });
+    setShowUserTokenModal(true);
+    setSearchParams({}, { replace: true });
+  }, [configs, searchParams, setSearchParams]);
+
   const loadTokens = async () => {
     try {
       setIsLoading(true);
@@ -89,6 +122,7 @@ export const Tokens: React.FC = () => {
     setFormData({
       twitchConfigId: configs[0]?.id || '',
       name: '',
+      keepAlive: false,
     });
     setShowGenerateModal(true);
   };
@@ -98,6 +132,7 @@ export const Tokens: React.FC = () => {
     setFormData({
       twitchConfigId: '',
       name: '',
+      keepAlive: false,
     });
   };
 
@@ -115,6 +150,7 @@ export const Tokens: React.FC = () => {
       const requestData: GenerateAppTokenRequest = {
         twitchConfigId: formData.twitchConfigId,
         name: formData.name.trim() || undefined,
+        keepAlive: formData.keepAlive,
       };
 
       const newToken = await tokenService.generateAppToken(requestData);
@@ -166,33 +202,70 @@ export const Tokens: React.FC = () => {
     );
   };
 
-  const handleDelete = async (token: SavedToken) => {
-    if (
-      !window.confirm(
-        t('tokens.deleteConfirmation')
-      )
-    ) {
+  const handleDelete = (token: SavedToken) => {
+    setTokenToDelete(token);
+    setRevokeOnDelete(!token.revokedAt);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!tokenToDelete) return;
+
+    try {
+      setIsSubmitting(true);
+      const result = await tokenService.deleteToken(tokenToDelete.id, revokeOnDelete);
+      if (result.revocation?.status === 'already_invalid') {
+        toast.success(t('tokens.tokenDeletedAlreadyInvalid'));
+      } else if (result.revocation) {
+        toast.success(t('tokens.tokenRevokedAndDeleted'));
+      } else {
+        toast.success(t('tokens.tokenDeleted'));
+      }
+      setTokenToDelete(null);
+      loadTokens();
+    } catch (error) {
+      const message = getApiErrorMessage(error) || t('errors.somethingWentWrong');
+      toast.error(message, { duration: 5000 });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (token: SavedToken) => {
+    if (!window.confirm(t('tokens.revokeConfirmation'))) {
       return;
     }
 
     try {
-      await tokenService.deleteToken(token.id);
-      toast.success(t('tokens.tokenDeleted'));
+      const result = await tokenService.revokeToken(token.id);
+      toast.success(
+        result.revocation.status === 'already_invalid'
+          ? t('tokens.tokenAlreadyInvalid')
+          : t('tokens.tokenRevoked')
+      );
       loadTokens();
     } catch (error: any) {
       const message = error.response?.data?.message || t('errors.somethingWentWrong');
-      toast.error(message);
+      toast.error(message, { duration: 5000 });
     }
   };
 
-  const handleRefreshToken = async (token: SavedToken) => {
-    if (token.tokenType !== 'user') {
-      toast.error(t('tokens.noRefresh'));
-      return;
-    }
+  const handleRegenerate = (token: SavedToken) => {
+    setTokenToRegenerate(token);
+    setRevokePrevious(false);
+  };
+
+  const handleConfirmRegenerate = async () => {
+    if (!tokenToRegenerate) return;
 
+    setIsSubmitting(true);
+    await handleRefreshToken(tokenToRegenerate, revokePrevious);
+    setIsSubmitting(false);
+    setTokenToRegenerate(null);
+  };
+
+  const handleRefreshToken = async (token: SavedToken, revokePreviousToken = false) => {
     try {
-      const refreshedToken = await tokenService.refreshToken(token.id);
+      const refreshedToken = await tokenService.refreshToken(token.id, revokePreviousToken);
       toast.success(t('tokens.tokenRefreshed'));
       loadTokens();
 
@@ -202,6 +275,18 @@ export const Tokens: React.FC = () => {
     } catch (error: any) {
       const message = error.response?.data?.message || t('errors.somethingWentWrong');
       toast.error(message);
+      loadTokens(); // The failure is recorded on the token
+    }
+  };
+
+  const handleToggleKeepAlive = async (token: SavedToken) => {
+    try {
+      await tokenService.setKeepAlive(token.id, !token.keepAlive);
+      toast.success(token.keepAlive ? t('tokens.keepAliveDisabled') : t('tokens.keepAliveEnabled'));
+      loadTokens();
+    } catch (error) {
+      const message = getApiErrorMessage(error) || t('errors.somethingWentWrong');
+      toast.error(message);
     }
   };
 
@@ -209,6 +294,14 @@ export const Tokens: React.FC = () => {
     try {
       const result = await tokenService.validateToken(token.id);
       setValidationResult(result);
+      // The result is stored on the token, refresh its health badge
+      setTokens((prev) => prev.map((item) => item.id === token.id ? {
+        ...item,
+        lastValidatedAt: result.lastValidatedAt,
+        isValid: result.isValid,
+        validatedScopes: result.validatedScopes,
+        health: result.health,
+      } : item));
       setSelectedToken(token);
       setShowValidationModal(true);
 
@@ -585,12 +678,67 @@ export const Tokens: React.FC = () => {
                       >
                         {token.tokenType.toUpperCase()}
                       </span>
+                      {token.health && token.health.status !== 'revoked' && (
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full ${HEALTH_BADGE_CLASSES[token.health.status]}`}
+                          title={token.health.issues.length > 0
+                            ? token.health.issues.map((issue) => t(`tokens.healthIssues.${issue}`)).join('\n')
+                            : token.lastValidatedAt
+                            ? t('tokens.validatedOn', { date: formatDate(token.lastValidatedAt) })
+                            : t('tokens.notValidatedYet')}
+                        >
+                          {t(`tokens.health.${token.health.status}`)}
+                        </span>
+                      )}
                       {isExpired(token.expiresAt) && (
                         <span className="px-2 py-1 bg-red-500/20 text-red-400 text-xs rounded-full">
                           Expired
                         </span>
                       )}
+                      {token.refreshError && (
+                        <span
+                          className="px-2 py-1 bg-red-500/20 text-red-400 text-xs rounded-full"
+                          title={token.refreshError}
+                        >
+                          {t('tokens.refreshFailed')}
+                        </span>
+                      )}
+                      {token.revokedAt && (
+                        <span
+                          className="px-2 py-1 bg-red-500/20 text-red-400 text-xs rounded-full"
+                          title={t('tokens.revokedOn', { date: formatDate(token.revokedAt) })}
+                        >
+                          {t('tokens.revoked')}
+                        </span>
+                      )}
+                      {token.keepAlive && (
+                        <span
+                          className="px-2 py-1 bg-purple-500/20 text-purple-300 text-xs rounded-full"
+                          title={t('tokens.keepAliveBadgeHint')}
+                        >
+                          {t('tokens.keepAlive')}
+                        </span>
+                      )}
                     </div>
+                    {token.refreshError && (
+                      <div className="mb-3 bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-sm text-red-400">
+                        {token.refreshFailedAt
+                          ? t('tokens.autoRefreshFailedOn', { date: formatDate(token.refreshFailedAt), error: token.refreshError })
+                          : t('tokens.autoRefreshFailed', { error: token.refreshError })}
+                        {' '}{t('tokens.autoRefreshFailedHint')}
+                      </div>
+                    )}
+                    {token.health?.issues.includes('scope_drift') && (
+                      <div className="mb-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-sm text-yellow-400">
+                        {t('tokens.scopeDrift')}
+                        {token.health.missingScopes.length > 0 && (
+                          <div className="mt-1">{t('tokens.missingScopes')}: <span className="font-mono">{token.health.missingScopes.join(', ')}</span></div>
+                        )}
+                        {token.health.extraScopes.length > 0 && (
+                          <div className="mt-1">{t('tokens.extraScopes')}: <span className="font-mono">{token.health.extraScopes.join(', ')}</span></div>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <div className="flex items-center gap-2 text-sm">
                         <span className="text-white/60">Configuration:</span>
@@ -628,6 +776,12 @@ export const Tokens: React.FC = () => {
                         <span>
                           Expires: {getTimeRemaining(token.expiresAt)}
                         </span>
+                        {token.lastRefreshedAt && (
+                          <span>{t('tokens.lastRefreshed', { date: formatDate(token.lastRefreshedAt) })}</span>
+                        )}
+                        {token.lastValidatedAt && (
+                          <span>{t('tokens.lastValidated', { date: formatDate(token.lastValidatedAt) })}</span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -645,7 +799,7 @@ export const Tokens: React.FC = () => {
                     >
                       Validate
                     </button>
-                    {token.tokenType === 'user' && (
+                    {token.revokedAt ? null : token.tokenType === 'user' ? (
                       <button
                         onClick={() => handleRefreshToken(token)}
                         className="px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 rounded-lg transition-colors"
@@ -653,6 +807,36 @@ export const Tokens: React.FC = () => {
                       >
                         Refresh
                       </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleRegenerate(token)}
+                          className="px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 rounded-lg transition-colors"
+                          title={t('tokens.regenerateHint')}
+                        >
+                          {t('tokens.regenerate')}
+                        </button>
+                        <button
+                          onClick={() => handleToggleKeepAlive(token)}
+                          className={`px-4 py-2 rounded-lg transition-colors ${
+                            token.keepAlive
+                              ? 'bg-purple-500/20 hover:bg-purple-500/30 text-purple-300'
+                              : 'bg-white/5 hover:bg-white/10 text-white/60'
+                          }`}
+                          title={t('tokens.keepAliveToggleHint')}
+                        >
+                          {token.keepAlive ? t('tokens.keepAliveOn') : t('tokens.keepAliveOff')}
+                        </button>
+                      </>
+                    )}
+                    {!token.revokedAt && (
+                      <button
+                        onClick={() => handleRevoke(token)}
+                        className="px-4 py-2 bg-orange-500/10 hover:bg-orange-500/20 text-orange-400 rounded-lg transition-colors"
+                        title={t('tokens.revokeHint')}
+                      >
+                        {t('tokens.revoke')}
+                      </button>
                     )}
                     <button
                       onClick={() => handleDelete(token)}
@@ -714,6 +898,22 @@ export const Tokens: React.FC = () => {
                   Give this token a memorable name
                 </p>
               </div>
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.keepAlive}
+                  onChange={(e) =>
+                    setFormData({ ...formData, keepAlive: e.target.checked })
+                  }
+                  className="w-4 h-4 mt-0.5"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t('tokens.keepAlive')}</span>
+                  <span className="block text-xs text-white/40">
+                    {t('tokens.keepAliveHint')}
+                  </span>
+                </span>
+              </label>
               <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
                 <p className="text-sm text-blue-400">
                   <strong>Note:</strong> App Access Tokens are used for
@@ -1070,6 +1270,105 @@ export const Tokens: React.FC = () => {
         </div>
       )}
 
+      {/* Delete Token Modal */}
+      {tokenToDelete && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-lg w-full">
+            <h2 className="text-2xl font-bold text-white mb-4">{t('tokens.deleteToken')}</h2>
+            <p className="text-white/80 mb-4">
+              {t('tokens.deleteConfirmation')}
+              <span className="block text-sm text-white/60 mt-1">
+                {tokenToDelete.name || `${tokenToDelete.tokenType.toUpperCase()} Token`}
+              </span>
+            </p>
+            {tokenToDelete.revokedAt ? (
+              <p className="text-sm text-white/40 mb-4">
+                {t('tokens.alreadyRevokedOn', { date: formatDate(tokenToDelete.revokedAt) })}
+              </p>
+            ) : (
+              <label className="flex items-start gap-3 cursor-pointer mb-4">
+                <input
+                  type="checkbox"
+                  checked={revokeOnDelete}
+                  onChange={(e) => setRevokeOnDelete(e.target.checked)}
+                  className="w-4 h-4 mt-0.5"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t('tokens.revokeOnDelete')}</span>
+                  <span className="block text-xs text-white/40">
+                    {t('tokens.revokeOnDeleteHint')}
+                  </span>
+                </span>
+              </label>
+            )}
+            <div className="flex gap-3 pt-2">
+              <Button
+                variant="danger"
+                onClick={handleConfirmDelete}
+                isLoading={isSubmitting}
+                className="flex-1"
+              >
+                {revokeOnDelete && !tokenToDelete.revokedAt ? t('tokens.revokeAndDelete') : t('common.delete')}
+              </Button>
+              <button
+                type="button"
+                onClick={() => setTokenToDelete(null)}
+                disabled={isSubmitting}
+                className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {/* Regenerate App Token Modal */}
+      {tokenToRegenerate && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-lg w-full">
+            <h2 className="text-2xl font-bold text-white mb-4">{t('tokens.regenerateToken')}</h2>
+            <p className="text-white/80 mb-4">
+              {t('tokens.regenerateConfirmation')}
+              <span className="block text-sm text-white/60 mt-1">
+                {tokenToRegenerate.name || `${tokenToRegenerate.tokenType.toUpperCase()} Token`}
+              </span>
+            </p>
+            <label className="flex items-start gap-3 cursor-pointer mb-4">
+              <input
+                type="checkbox"
+                checked={revokePrevious}
+                onChange={(e) => setRevokePrevious(e.target.checked)}
+                className="w-4 h-4 mt-0.5"
+              />
+              <span>
+                <span className="block text-sm text-white">{t('tokens.revokePrevious')}</span>
+                <span className="block text-xs text-white/40">
+                  {t('tokens.revokePreviousHint')}
+                </span>
+              </span>
+            </label>
+            <div className="flex gap-3 pt-2">
+              <Button
+                onClick={handleConfirmRegenerate}
+                isLoading={isSubmitting}
+                className="flex-1"
+              >
+                {t('tokens.regenerate')}
+              </Button>
+              <button
+                type="button"
+                onClick={() => setTokenToRegenerate(null)}
+                disabled={isSubmitting}
+                className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </Card>
+        </div>
+      )}
+
       {/* Validation Result Modal */}
       {showValidationModal && validationResult && selectedToken && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -9,7 +9,8 @@ import { Logo } from '../components/Logo';
 import LanguageSelector from '../components/LanguageSelector';
 import { useAuthStore } from '../store/authStore';
 import twitchConfigService from '../services/twitchConfigService';
-import type { TwitchConfig, CreateTwitchConfigRequest } from '../types/index';
+import { getApiErrorMessage } from '../utils/apiError';
+import type { TwitchConfig, CreateTwitchConfigRequest, RevokeConfigTokensResponse } from '../types/index';
 
 export const TwitchConfigs: React.FC = () => {
   const { t } = useTranslation();
@@ -30,6 +31,8 @@ export const TwitchConfigs: React.FC = () => {
     valid: boolean;
     message: string;
   } | null>(null);
+  const [revokingConfigId, setRevokingConfigId] = useState<string | null>(null);
+  const [revokeResult, setRevokeResult] = useState<RevokeConfigTokensResponse | null>(null);
 
   const handleLogout = () => {
     logout();
@@ -172,6 +175,22 @@ export const TwitchConfigs: React.FC = () => {
     }
   };
 
+  const handleRevokeTokens = async (config: TwitchConfig) => {
+    if (!window.confirm(t('configurations.revokeTokensConfirmation', { name: config.name || config.clientId }))) {
+      return;
+    }
+
+    try {
+      setRevokingConfigId(config.id);
+      const result = await twitchConfigService.revokeConfigTokens(config.id);
+      setRevokeResult(result);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    } finally {
+      setRevokingConfigId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -310,6 +329,16 @@ export const TwitchConfigs: React.FC = () => {
                     >
                       {t('common.edit')}
                     </button>
+                    {config.tokensCount !== undefined && config.tokensCount > 0 && (
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleRevokeTokens(config)}
+                        isLoading={revokingConfigId === config.id}
+                        title={t('configurations.revokeTokensHint')}
+                      >
+                        {t('configurations.revokeTokens')}
+                      </Button>
+                    )}
                     <button
                       onClick={() => handleDelete(config)}
                       className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-lg transition-colors"
@@ -324,6 +353,66 @@ export const TwitchConfigs: React.FC = () => {
         )}
       </div>
 
+      {/* Revoke Tokens Result Modal */}
+      {revokeResult && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-lg w-full">
+            <h2 className="text-2xl font-bold text-white mb-4">
+              {t('configurations.revokeResults')}
+            </h2>
+            <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+                <div className="text-2xl font-bold text-green-400">{revokeResult.summary.revoked}</div>
+                <div className="text-xs text-white/60">{t('configurations.revokeStatus.revoked')}</div>
+              </div>
+              <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+                <div className="text-2xl font-bold text-white/80">{revokeResult.summary.alreadyInvalid}</div>
+                <div className="text-xs text-white/60">{t('configurations.revokeStatus.already_invalid')}</div>
+              </div>
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+                <div className="text-2xl font-bold text-red-400">{revokeResult.summary.failed}</div>
+                <div className="text-xs text-white/60">{t('configurations.revokeStatus.failed')}</div>
+              </div>
+            </div>
+            {revokeResult.results.length === 0 ? (
+              <p className="text-white/60 mb-4">{t('configurations.noTokensToRevoke')}</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto mb-4">
+                {revokeResult.results.map((result) => (
+                  <div
+                    key={result.tokenId}
+                    className="flex items-start justify-between gap-3 bg-twitch-dark-light rounded-lg px-3 py-2 text-sm"
+                  >
+                    <div>
+                      <span className="text-white">
+                        {result.name || `${result.tokenType.toUpperCase()} Token`}
+                      </span>
+                      {result.error && (
+                        <p className="text-xs text-red-400 mt-1">{result.error}</p>
+                      )}
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${
+                        result.status === 'revoked'
+                          ? 'bg-green-500/20 text-green-400'
+                          : result.status === 'failed'
+                            ? 'bg-red-500/20 text-red-400'
+                            : 'bg-white/10 text-white/60'
+                      }`}
+                    >
+                      {t(`configurations.revokeStatus.${result.status}`)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => setRevokeResult(null)} className="w-full">
+              {t('common.close')}
+            </Button>
+          </Card>
+        </div>
+      )}
+
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -10,7 +10,21 @@ import { useAuthStore } from '../store/authStore';
 import webhookService from '../services/webhookService';
 import tokenService from '../services/tokenService';
 import twitchConfigService from '../services/twitchConfigService';
-import type { Webhook, EventSubType, SavedToken, TwitchConfig } from '../types/index';
+import { getApiErrorMessage } from '../utils/apiError';
+import type {
+  Webhook,
+  EventSubType,
+  SavedToken,
+  TwitchConfig,
+  EventSubEvent,
+  EventSubSession,
+  EventSubTransportMethod,
+  MockEventSubMessageType,
+  TestEventResult,
+} from '../types/index';
+
+const EVENTS_PAGE_SIZE = 20;
+const SESSIONS_POLL_INTERVAL_MS = 10000;
 
 export const Webhooks: React.FC = () => {
   const { t } = useTranslation();
@@ -29,12 +43,35 @@ export const Webhooks: React.FC = () => {
   const [filterType, setFilterType] = useState<string>('');
   const [filterStatus, setFilterStatus] = useState<string>('');
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [eventsWebhook, setEventsWebhook] = useState<Webhook | null>(null);
+  const [events, setEvents] = useState<EventSubEvent[]>([]);
+  const [eventsTotal, setEventsTotal] = useState(0);
+  const [eventsOffset, setEventsOffset] = useState(0);
+  const [eventsMessageType, setEventsMessageType] = useState<string>('');
+  const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<EventSubSession[]>([]);
+  const [sessionTokenId, setSessionTokenId] = useState('');
+  const [isConnectingSession, setIsConnectingSession] = useState(false);
+  const [showTestModal, setShowTestModal] = useState(false);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [testResult, setTestResult] = useState<TestEventResult | null>(null);
+  const [testForm, setTestForm] = useState({
+    target: 'webhook' as 'webhook' | 'custom',
+    webhookId: '',
+    callbackUrl: '',
+    secret: '',
+    type: '',
+    broadcasterUserId: '',
+    messageType: 'notification' as MockEventSubMessageType,
+  });
   const [formData, setFormData] = useState({
     tokenId: '',
     type: '',
+    transport: 'webhook' as EventSubTransportMethod,
     callbackUrl: 'https://example.com/webhook',
-    broadcasterUserId: '',
-    moderatorUserId: '',
+    useHubCallback: true,
+    condition: {} as Record<string, string>,
   });
 
   const handleLogout = () => {
@@ -46,25 +83,33 @@ export const Webhooks: React.FC = () => {
     loadData();
   }, []);
 
+  // WebSocket sessions change in the background (keepalives, reconnects)
+  useEffect(() => {
+    const interval = setInterval(loadSessions, SESSIONS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
   const loadData = async () => {
     setIsLoading(true);
     try {
-      const [webhooksData, typesData, tokensData, configsData] = await Promise.all([
+      const [webhooksData, typesData, tokensData, configsData, sessionsData] = await Promise.all([
         webhookService.getAllWebhooks(),
         webhookService.getEventSubTypes(),
         tokenService.getAllTokens(),
         twitchConfigService.getAllConfigs(),
+        webhookService.getWebSocketSessions(),
       ]);
 
       setWebhooks(webhooksData);
       setEventTypes(typesData);
       setTokens(tokensData); // Keep all tokens to check for app tokens
       setConfigs(configsData);
+      setSessions(sessionsData);
 
-      // Set default token to first user token for webhook creation
+      // Set default token for WebSocket sessions to the first user token
       const userTokens = tokensData.filter(t => t.tokenType === 'user');
       if (userTokens.length > 0) {
-        setFormData(prev => ({ ...prev, tokenId: userTokens[0].id }));
+        setSessionTokenId(prev => prev || userTokens[0].id);
       }
     } catch (error: any) {
       toast.error(error.response?.data?.message || t('errors.somethingWentWrong'));
@@ -73,16 +118,101 @@ export const Webhooks: React.FC = () => {
     }
   };
 
+  const loadSessions = async () => {
+    try {
+      setSessions(await webhookService.getWebSocketSessions());
+    } catch {
+      // Keep the last known state; the next poll will try again
+    }
+  };
+
+  const handleConnectSession = async () => {
+    if (!sessionTokenId) return;
+
+    try {
+      setIsConnectingSession(true);
+      await webhookService.connectWebSocketSession(sessionTokenId);
+      toast.success(t('webhooks.sessionConnected'));
+      loadSessions();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    } finally {
+      setIsConnectingSession(false);
+    }
+  };
+
+  const handleDisconnectSession = async (session: EventSubSession) => {
+    if (!window.confirm(t('webhooks.disconnectSessionConfirmation'))) {
+      return;
+    }
+
+    try {
+      await webhookService.disconnectWebSocketSession(session.tokenId);
+      toast.success(t('webhooks.sessionDisconnected'));
+      loadData();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    }
+  };
+
+  // Twitch requires app tokens for webhooks and user tokens for WebSockets
+  const getTokensForTransport = (transport: EventSubTransportMethod): SavedToken[] => {
+    return tokens.filter(t => t.tokenType === (transport === 'websocket' ? 'user' : 'app'));
+  };
+
+  // Prefill user ID fields with the channel of the selected user token
+  const buildDefaultCondition = (type: EventSubType | undefined, tokenId: string): Record<string, string> => {
+    const channelId = tokens.find(t => t.id === tokenId)?.channelId || '';
+    const condition: Record<string, string> = {};
+    type?.condition.forEach(field => {
+      condition[field.name] = field.required && field.name.endsWith('user_id') ? channelId : '';
+    });
+    return condition;
+  };
+
   const handleOpenCreateModal = () => {
-    const userTokens = tokens.filter(t => t.tokenType === 'user');
-    if (userTokens.length === 0) {
+    if (tokens.length === 0) {
       toast.error(t('tokens.noTokens'));
       navigate('/tokens');
       return;
     }
+
+    // Start with the transport the user has a token for
+    const transport: EventSubTransportMethod = getTokensForTransport('webhook').length > 0 ? 'webhook' : 'websocket';
+    setFormData(prev => ({
+      ...prev,
+      transport,
+      tokenId: getTokensForTransport(transport)[0]?.id || '',
+    }));
     setShowCreateModal(true);
   };
 
+  const handleTypeChange = (typeName: string) => {
+    const type = eventTypes.find(t => t.type === typeName);
+    const transport = type && !type.transports.includes(formData.transport) ? 'webhook' : formData.transport;
+    const tokenId = transport === formData.transport
+      ? formData.tokenId
+      : getTokensForTransport(transport)[0]?.id || '';
+
+    setFormData({
+      ...formData,
+      type: typeName,
+      transport,
+      tokenId,
+      condition: buildDefaultCondition(type, tokenId),
+    });
+  };
+
+  const handleTransportChange = (transport: EventSubTransportMethod) => {
+    const tokenId = getTokensForTransport(transport)[0]?.id || '';
+    setFormData({
+      ...formData,
+      transport,
+      tokenId,
+      condition: buildDefaultCondition(eventTypes.find(t => t.type === formData.type), tokenId),
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -94,38 +224,26 @@ export const Webhooks: React.FC = () => {
         return;
       }
 
+      // Only send the fields of the selected type that have a value
       const condition: Record<string, string> = {};
-
-      // Build condition based on required fields
-      if (selectedType.condition.broadcaster_user_id) {
-        if (!formData.broadcasterUserId) {
-          toast.error(t('errors.requiredField'));
-          return;
+      selectedType.condition.forEach(field => {
+        const value = formData.condition[field.name]?.trim();
+        if (value) {
+          condition[field.name] = value;
         }
-        condition.broadcaster_user_id = formData.broadcasterUserId;
-      }
-
-      if (selectedType.condition.moderator_user_id) {
-        if (!formData.moderatorUserId) {
-          toast.error(t('errors.requiredField'));
-          return;
-        }
-        condition.moderator_user_id = formData.moderatorUserId;
-      }
+      });
 
-      if (selectedType.condition.to_broadcaster_user_id) {
-        if (!formData.broadcasterUserId) {
-          toast.error(t('errors.requiredField'));
-          return;
-        }
-        condition.to_broadcaster_user_id = formData.broadcasterUserId;
+      if (Object.keys(condition).length === 0) {
+        toast.error(t('errors.requiredField'));
+        return;
       }
 
       await webhookService.createWebhook({
         tokenId: formData.tokenId,
         type: formData.type,
         condition,
-        callbackUrl: formData.callbackUrl,
+        transport: formData.transport,
+        callbackUrl: formData.transport === 'webhook' && !formData.useHubCallback ? formData.callbackUrl : undefined,
       });
 
       toast.success(t('webhooks.webhookCreated'));
@@ -133,9 +251,10 @@ export const Webhooks: React.FC = () => {
       setFormData({
         tokenId: tokens[0]?.id || '',
         type: '',
+        transport: 'webhook',
         callbackUrl: 'https://example.com/webhook',
-        broadcasterUserId: '',
-        moderatorUserId: '',
+        useHubCallback: true,
+        condition: {},
       });
       loadData();
     } catch (error: any) {
@@ -189,6 +308,107 @@ export const Webhooks: React.FC = () => {
     }
   };
 
+  // Only subscriptions created by the hub have a secret to sign test events with
+  const testableWebhooks = webhooks.filter(w => w.transportMethod === 'webhook' && w.hasSecret);
+
+  const handleOpenTestModal = (webhook?: Webhook) => {
+    const target = webhook || testableWebhooks[0];
+    setTestForm(prev => ({
+      ...prev,
+      target: target ? 'webhook' : 'custom',
+      webhookId: target?.id || '',
+      type: prev.type || eventTypes[0]?.type || '',
+      messageType: 'notification',
+    }));
+    setTestResult(null);
+    setShowTestModal(true);
+  };
+
+  const handleSendTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSendingTest(true);
+
+    try {
+      let result: TestEventResult;
+
+      if (testForm.target === 'webhook') {
+        result = await webhookService.triggerTestEvent({
+          messageType: testForm.messageType,
+          webhookId: testForm.webhookId,
+        });
+      } else {
+        // Fill every condition field of the type with the given user ID
+        const condition: Record<string, string> = {};
+        const testType = eventTypes.find(t => t.type === testForm.type);
+        if (testType && testForm.broadcasterUserId) {
+          testType.condition
+            .filter(field => field.name.endsWith('user_id'))
+            .forEach(field => {
+              condition[field.name] = testForm.broadcasterUserId;
+            });
+        }
+
+        result = await webhookService.triggerTestEvent({
+          messageType: testForm.messageType,
+          callbackUrl: testForm.callbackUrl,
+          secret: testForm.secret,
+          type: testForm.type,
+          condition,
+        });
+      }
+
+      setTestResult(result);
+
+      if (result.error || !result.response.status || result.response.status >= 300) {
+        toast.error(t('webhooks.testEventFailed'));
+      } else {
+        toast.success(t('webhooks.testEventSent', { status: result.response.status }));
+      }
+
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  const loadEvents = async (webhook: Webhook, offset: number, messageType: string) => {
+    setIsLoadingEvents(true);
+    try {
+      const result = await webhookService.getWebhookEvents(webhook.id, {
+        limit: EVENTS_PAGE_SIZE,
+        offset,
+        messageType: messageType || undefined,
+      });
+      setEvents(result.events);
+      setEventsTotal(result.total);
+      setEventsOffset(offset);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error) || t('errors.somethingWentWrong'));
+    } finally {
+      setIsLoadingEvents(false);
+    }
+  };
+
+  const handleOpenEvents = (webhook: Webhook) => {
+    setEventsWebhook(webhook);
+    setEventsMessageType('');
+    setExpandedEventId(null);
+    loadEvents(webhook, 0, '');
+  };
+
+  const handleCloseEvents = () => {
+    setEventsWebhook(null);
+    setEvents([]);
+    setEventsTotal(0);
+  };
+
+  const handleEventsFilterChange = (messageType: string) => {
+    if (!eventsWebhook) return;
+    setEventsMessageType(messageType);
+    loadEvents(eventsWebhook, 0, messageType);
+  };
+
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleString();
   };
@@ -247,6 +467,14 @@ export const Webhooks: React.FC = () => {
   const uniqueStatuses = Array.from(new Set(webhooks.map(w => w.status))).sort();
 
   const selectedType = eventTypes.find(t => t.type === formData.type);
+  const userTokens = tokens.filter(t => t.tokenType === 'user');
+  const formTokens = getTokensForTransport(formData.transport);
+  const formToken = tokens.find(t => t.id === formData.tokenId);
+  // A manage scope also grants its read scope
+  const missingScopes = selectedType && formToken?.tokenType === 'user'
+    ? selectedType.scopes.filter(scope =>
+      !formToken.scopes.includes(scope) && !formToken.scopes.includes(scope.replace(':read:', ':manage:')))
+    : [];
 
   return (
     <div className="min-h-screen bg-twitch-dark">
@@ -341,6 +569,9 @@ export const Webhooks: React.FC = () => {
               </svg>
               {isSyncing ? t('webhooks.syncing') : t('webhooks.sync')}
             </button>
+            <Button variant="secondary" onClick={() => handleOpenTestModal()}>
+              {t('webhooks.triggerTestEvent')}
+            </Button>
             <Button onClick={handleOpenCreateModal}>
               <span className="text-xl mr-2">+</span>
               {t('webhooks.createSubscription')}
@@ -348,6 +579,80 @@ export const Webhooks: React.FC = () => {
           </div>
         </div>
 
+        {/* EventSub WebSocket Sessions */}
+        {!isLoading && userTokens.length > 0 && (
+          <Card className="mb-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{t('webhooks.websocketSessions')}</h2>
+                <p className="text-sm text-white/60">{t('webhooks.websocketSessionsHint')}</p>
+              </div>
+              <div className="flex gap-2 items-center">
+                <select
+                  value={sessionTokenId}
+                  onChange={(e) => setSessionTokenId(e.target.value)}
+                  className="px-3 py-2 bg-twitch-dark-light border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-twitch-purple"
+                >
+                  {userTokens.map((token) => (
+                    <option key={token.id} value={token.id}>
+                      {token.name || `Token - ${token.channelLogin}`}
+                    </option>
+                  ))}
+                </select>
+                <Button onClick={handleConnectSession} isLoading={isConnectingSession}>
+                  {t('webhooks.connectSession')}
+                </Button>
+              </div>
+            </div>
+
+            {sessions.length === 0 ? (
+              <p className="text-sm text-white/40">{t('webhooks.noSessions')}</p>
+            ) : (
+              <div className="space-y-2">
+                {sessions.map((session) => (
+                  <div
+                    key={session.tokenId}
+                    className="flex items-center justify-between bg-twitch-dark rounded-lg p-3"
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium">
+                          {session.tokenName || `Token - ${session.channelLogin}`}
+                        </span>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${
+                          session.status === 'connected'
+                            ? 'bg-green-500/20 text-green-400'
+                            : session.status === 'disconnected'
+                            ? 'bg-red-500/20 text-red-400'
+                            : 'bg-yellow-500/20 text-yellow-400'
+                        }`}>
+                          {t(`webhooks.sessionStatus.${session.status}`)}
+                        </span>
+                      </div>
+                      {session.sessionId && (
+                        <p className="text-xs text-white/60">
+                          {t('webhooks.sessionId')}: <span className="font-mono">{session.sessionId}</span>
+                        </p>
+                      )}
+                      {session.lastMessageAt && (
+                        <p className="text-xs text-white/40">
+                          {t('webhooks.lastMessage')}: {formatDate(session.lastMessageAt)}
+                        </p>
+                      )}
+                      {session.error && (
+                        <p className="text-xs text-red-400">{session.error}</p>
+                      )}
+                    </div>
+                    <Button variant="secondary" onClick={() => handleDisconnectSession(session)}>
+                      {t('webhooks.disconnectSession')}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
         {/* Loading State */}
         {isLoading ? (
           <div className="flex justify-center items-center py-12">
@@ -510,6 +815,9 @@ export const Webhooks: React.FC = () => {
                       }`}>
                         {webhook.status}
                       </span>
+                      <span className="px-2 py-0.5 bg-white/10 text-white/60 text-xs rounded-full">
+                        {t(`webhooks.transport.${webhook.transportMethod}`)}
+                      </span>
                       {webhook.cost > 0 && (
                         <span className="px-2 py-0.5 bg-blue-500/20 text-blue-400 text-xs rounded-full">
                           {t('webhooks.cost', { cost: webhook.cost })}
@@ -564,22 +872,44 @@ export const Webhooks: React.FC = () => {
                       <p className="text-sm text-white/60">
                         <span className="font-medium">{t('webhooks.subscriptionId')}:</span> {webhook.subscriptionId}
                       </p>
-                      <p className="text-sm text-white/60">
-                        <span className="font-medium">{t('webhooks.callback')}:</span>{' '}
-                        <span className="text-xs font-mono">{webhook.callbackUrl}</span>
-                      </p>
+                      {webhook.transportMethod === 'websocket' ? (
+                        <p className="text-sm text-white/60">
+                          <span className="font-medium">{t('webhooks.sessionId')}:</span>{' '}
+                          <span className="text-xs font-mono">{webhook.sessionId}</span>
+                        </p>
+                      ) : (
+                        <p className="text-sm text-white/60">
+                          <span className="font-medium">{t('webhooks.callback')}:</span>{' '}
+                          <span className="text-xs font-mono">{webhook.callbackUrl}</span>
+                        </p>
+                      )}
                       <p className="text-xs text-white/40">
                         {t('webhooks.created')}: {formatDate(webhook.createdAt)}
                       </p>
                     </div>
                   </div>
-                  <Button
-                    onClick={() => handleDelete(webhook)}
-                    variant="secondary"
-                    className="ml-4"
-                  >
-                    {t('common.delete')}
-                  </Button>
+                  <div className="flex flex-col gap-2 ml-4">
+                    <Button
+                      onClick={() => handleOpenEvents(webhook)}
+                      variant="secondary"
+                    >
+                      {t('webhooks.events')}
+                    </Button>
+                    {webhook.transportMethod === 'webhook' && webhook.hasSecret && (
+                      <Button
+                        onClick={() => handleOpenTestModal(webhook)}
+                        variant="secondary"
+                      >
+                        {t('webhooks.test')}
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleDelete(webhook)}
+                      variant="secondary"
+                    >
+                      {t('common.delete')}
+                    </Button>
+                  </div>
                 </div>
                           </Card>
                         ))}
@@ -619,7 +949,12 @@ export const Webhooks: React.FC = () => {
                   className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
                   required
                 >
-                  {tokens.map((token) => (
+                  {formTokens.length === 0 && (
+                    <option value="">
+                      {formData.transport === 'websocket' ? t('webhooks.noUserTokens') : t('webhooks.noAppTokens')}
+                    </option>
+                  )}
+                  {formTokens.map((token) => (
                     <option key={token.id} value={token.id}>
                       {token.name || `Token - ${token.channelLogin}`}
                     </option>
@@ -627,89 +962,157 @@ export const Webhooks: React.FC = () => {
                 </select>
               </div>
 
+              {/* Transport */}
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('webhooks.transportLabel')}
+                </label>
+                <select
+                  value={formData.transport}
+                  onChange={(e) => handleTransportChange(e.target.value as EventSubTransportMethod)}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                >
+                  <option value="webhook">{t('webhooks.transport.webhook')}</option>
+                  <option
+                    value="websocket"
+                    disabled={selectedType && !selectedType.transports.includes('websocket')}
+                  >
+                    {t('webhooks.transport.websocket')}
+                  </option>
+                </select>
+                <p className="text-xs text-white/40 mt-1">
+                  {formData.transport === 'websocket'
+                    ? t('webhooks.websocketTransportHint')
+                    : t('webhooks.webhookTransportHint')}
+                </p>
+              </div>
+
               {/* Event Type */}
               <div>
                 <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('apiTester.endpoint')}
+                  {t('webhooks.eventType')}
                 </label>
                 <select
                   value={formData.type}
-                  onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+                  onChange={(e) => handleTypeChange(e.target.value)}
                   className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
                   required
                 >
                   <option value="">{t('errors.requiredField')}</option>
                   {eventTypes.map((type) => (
                     <option key={type.type} value={type.type}>
-                      {type.type} - {type.description}
+                      {type.type} (v{type.version}) - {type.description}
                     </option>
                   ))}
                 </select>
+                {selectedType?.tokenType === 'app' && (
+                  <p className="text-xs text-white/40 mt-1">{t('webhooks.appTokenOnly')}</p>
+                )}
               </div>
 
-              {/* Broadcaster User ID */}
-              {selectedType && (selectedType.condition.broadcaster_user_id || selectedType.condition.to_broadcaster_user_id) && (
-                <div>
-                  <label className="block text-sm font-medium text-white/80 mb-2">
-                    {t('webhooks.broadcaster')} User ID *
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.broadcasterUserId}
-                    onChange={(e) => setFormData({ ...formData, broadcasterUserId: e.target.value })}
-                    placeholder="e.g., 12345678"
-                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                    required
-                  />
-                  <p className="text-xs text-white/40 mt-1">
-                    The Twitch user ID of the broadcaster
+              {/* Condition fields of the selected type */}
+              {selectedType && selectedType.condition.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-semibold text-white/80">{t('webhooks.conditions')}</h4>
+                  {selectedType.condition.map((field) => (
+                    <div key={field.name}>
+                      <label className="block text-sm font-medium text-white/80 mb-2 font-mono">
+                        {field.name}{field.required && ' *'}
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.condition[field.name] || ''}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          condition: { ...formData.condition, [field.name]: e.target.value },
+                        })}
+                        className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                        required={field.required}
+                      />
+                      <p className="text-xs text-white/40 mt-1">{field.description}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Required scopes */}
+              {selectedType && selectedType.scopes.length > 0 && (
+                <div className={`rounded-lg p-4 border ${
+                  missingScopes.length > 0
+                    ? 'bg-red-500/10 border-red-500/20'
+                    : 'bg-white/5 border-white/10'
+                }`}>
+                  <p className="text-sm text-white/80 mb-2">
+                    {formData.transport === 'websocket'
+                      ? t('webhooks.requiredScopesToken')
+                      : t('webhooks.requiredScopesUser')}
                   </p>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedType.scopes.map((scope) => (
+                      <span
+                        key={scope}
+                        className={`px-2 py-0.5 text-xs rounded-full font-mono ${
+                          missingScopes.includes(scope)
+                            ? 'bg-red-500/20 text-red-400'
+                            : 'bg-purple-500/20 text-purple-300'
+                        }`}
+                      >
+                        {scope}
+                      </span>
+                    ))}
+                  </div>
+                  {missingScopes.length > 0 && (
+                    <p className="text-xs text-red-400 mt-2">
+                      {t('webhooks.missingScopes', { scopes: missingScopes.join(', ') })}
+                    </p>
+                  )}
                 </div>
               )}
 
-              {/* Moderator User ID */}
-              {selectedType && selectedType.condition.moderator_user_id === 'required' && (
+              {/* Callback URL */}
+              {formData.transport === 'webhook' && (
                 <div>
-                  <label className="block text-sm font-medium text-white/80 mb-2">
-                    {t('webhooks.moderator')} User ID *
+                  <label className="flex items-center gap-2 text-sm font-medium text-white/80 mb-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.useHubCallback}
+                      onChange={(e) => setFormData({ ...formData, useHubCallback: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    {t('webhooks.useHubReceiver')}
                   </label>
-                  <input
-                    type="text"
-                    value={formData.moderatorUserId}
-                    onChange={(e) => setFormData({ ...formData, moderatorUserId: e.target.value })}
-                    placeholder="e.g., 87654321"
-                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                    required
-                  />
-                  <p className="text-xs text-white/40 mt-1">
-                    The Twitch user ID of the moderator
+                  <p className="text-xs text-white/40">
+                    {t('webhooks.useHubReceiverHint')}
                   </p>
                 </div>
               )}
 
-              {/* Callback URL */}
-              <div>
-                <label className="block text-sm font-medium text-white/80 mb-2">
-                  {t('webhooks.callback')} URL
-                </label>
-                <input
-                  type="url"
-                  value={formData.callbackUrl}
-                  onChange={(e) => setFormData({ ...formData, callbackUrl: e.target.value })}
-                  placeholder="https://example.com/webhook"
-                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
-                  required
-                />
-                <p className="text-xs text-white/40 mt-1">
-                  The URL where Twitch will send event notifications (must be HTTPS)
-                </p>
-              </div>
+              {formData.transport === 'webhook' && !formData.useHubCallback && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('webhooks.callback')} URL
+                    </label>
+                    <input
+                      type="url"
+                      value={formData.callbackUrl}
+                      onChange={(e) => setFormData({ ...formData, callbackUrl: e.target.value })}
+                      placeholder="https://example.com/webhook"
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      required
+                    />
+                    <p className="text-xs text-white/40 mt-1">
+                      The URL where Twitch will send event notifications (must be HTTPS)
+                    </p>
+                  </div>
 
-              <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
-                <p className="text-sm text-yellow-400">
-                  <strong>Note:</strong> Your callback URL must be publicly accessible and able to respond to Twitch's verification challenge.
-                </p>
-              </div>
+                  <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+                    <p className="text-sm text-yellow-400">
+                      <strong>Note:</strong> Your callback URL must be publicly accessible and able to respond to Twitch's verification challenge.
+                    </p>
+                  </div>
+                </>
+              )}
 
               <div className="flex gap-4">
                 <Button
@@ -732,6 +1135,313 @@ export const Webhooks: React.FC = () => {
           </Card>
         </div>
       )}
+
+      {/* Events Modal */}
+      {eventsWebhook && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white">{t('webhooks.eventsTitle')}</h2>
+                <p className="text-sm text-white/60 font-mono">{eventsWebhook.type}</p>
+              </div>
+              <button
+                onClick={handleCloseEvents}
+                className="text-white/60 hover:text-white text-2xl"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <select
+                value={eventsMessageType}
+                onChange={(e) => handleEventsFilterChange(e.target.value)}
+                className="px-3 py-2 bg-twitch-dark-light border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-twitch-purple"
+              >
+                <option value="">{t('webhooks.allMessageTypes')}</option>
+                <option value="notification">notification</option>
+                <option value="revocation">revocation</option>
+              </select>
+              <Button
+                variant="secondary"
+                onClick={() => loadEvents(eventsWebhook, eventsOffset, eventsMessageType)}
+                disabled={isLoadingEvents}
+              >
+                {t('webhooks.refreshEvents')}
+              </Button>
+            </div>
+
+            {isLoadingEvents ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="w-10 h-10 border-4 border-twitch-purple border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-semibold text-white mb-2">{t('webhooks.noEvents')}</h3>
+                <p className="text-white/60 text-sm">{t('webhooks.noEventsText')}</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {events.map((event) => (
+                  <div key={event.id} className="bg-twitch-dark border border-white/10 rounded-lg">
+                    <button
+                      onClick={() => setExpandedEventId(expandedEventId === event.id ? null : event.id)}
+                      className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-white/5 transition-colors"
+                    >
+                      <div className="flex items-center gap-3">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${
+                          event.messageType === 'notification'
+                            ? 'bg-green-500/20 text-green-400'
+                            : 'bg-red-500/20 text-red-400'
+                        }`}>
+                          {event.messageType}
+                        </span>
+                        {event.isMock && (
+                          <span
+                            className="px-2 py-0.5 text-xs rounded-full bg-twitch-purple/20 text-twitch-purple"
+                            title={t('webhooks.mockEventHint')}
+                          >
+                            {t('webhooks.mockEvent')}
+                          </span>
+                        )}
+                        <span className="text-sm text-white font-mono">
+                          {event.subscriptionType} v{event.subscriptionVersion}
+                        </span>
+                      </div>
+                      <span className="text-xs text-white/40">{formatDate(event.messageTimestamp)}</span>
+                    </button>
+                    {expandedEventId === event.id && (
+                      <div className="px-4 pb-4">
+                        <p className="text-xs text-white/40 mb-2">
+                          {t('webhooks.messageId')}: <span className="font-mono">{event.messageId}</span>
+                        </p>
+                        <pre className="p-3 bg-twitch-dark-light rounded-lg overflow-x-auto text-xs text-white/80 font-mono max-h-80 overflow-y-auto">
+                          {JSON.stringify(event.payload.event ?? event.payload, null, 2)}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {eventsTotal > 0 && (
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-sm text-white/60">
+                  {t('webhooks.eventsRange', {
+                    from: eventsOffset + 1,
+                    to: Math.min(eventsOffset + EVENTS_PAGE_SIZE, eventsTotal),
+                    total: eventsTotal,
+                  })}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    disabled={isLoadingEvents || eventsOffset === 0}
+                    onClick={() => loadEvents(eventsWebhook, Math.max(eventsOffset - EVENTS_PAGE_SIZE, 0), eventsMessageType)}
+                  >
+                    {t('webhooks.previous')}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    disabled={isLoadingEvents || eventsOffset + EVENTS_PAGE_SIZE >= eventsTotal}
+                    onClick={() => loadEvents(eventsWebhook, eventsOffset + EVENTS_PAGE_SIZE, eventsMessageType)}
+                  >
+                    {t('webhooks.next')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* Trigger Test Event Modal */}
+      {showTestModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <Card className="max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white">{t('webhooks.triggerTestEvent')}</h2>
+                <p className="text-sm text-white/60">{t('webhooks.triggerTestEventHint')}</p>
+              </div>
+              <button
+                onClick={() => setShowTestModal(false)}
+                className="text-white/60 hover:text-white text-2xl"
+              >
+                ×
+              </button>
+            </div>
+
+            <form onSubmit={handleSendTest} className="space-y-4">
+              {/* Target */}
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('webhooks.testTarget')}
+                </label>
+                <select
+                  value={testForm.target}
+                  onChange={(e) => setTestForm({ ...testForm, target: e.target.value as 'webhook' | 'custom' })}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                >
+                  <option value="webhook">{t('webhooks.testTargetHub')}</option>
+                  <option value="custom">{t('webhooks.testTargetCustom')}</option>
+                </select>
+              </div>
+
+              {testForm.target === 'webhook' ? (
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-2">
+                    {t('webhooks.subscription')}
+                  </label>
+                  <select
+                    value={testForm.webhookId}
+                    onChange={(e) => setTestForm({ ...testForm, webhookId: e.target.value })}
+                    className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                    required
+                  >
+                    <option value="">{t('errors.requiredField')}</option>
+                    {testableWebhooks.map((webhook) => (
+                      <option key={webhook.id} value={webhook.id}>
+                        {webhook.type} - {webhook.condition?.broadcaster_user_id || webhook.condition?.to_broadcaster_user_id || webhook.subscriptionId}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('webhooks.callback')} URL
+                    </label>
+                    <input
+                      type="url"
+                      value={testForm.callbackUrl}
+                      onChange={(e) => setTestForm({ ...testForm, callbackUrl: e.target.value })}
+                      placeholder="https://example.com/eventsub"
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      required
+                    />
+                    <p className="text-xs text-white/40 mt-1">{t('webhooks.testCallbackUrlHint')}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('webhooks.testSecret')}
+                    </label>
+                    <input
+                      type="text"
+                      value={testForm.secret}
+                      onChange={(e) => setTestForm({ ...testForm, secret: e.target.value })}
+                      minLength={10}
+                      maxLength={100}
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      required
+                    />
+                    <p className="text-xs text-white/40 mt-1">{t('webhooks.testSecretHint')}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('webhooks.eventType')}
+                    </label>
+                    <select
+                      value={testForm.type}
+                      onChange={(e) => setTestForm({ ...testForm, type: e.target.value })}
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                      required
+                    >
+                      {eventTypes.map((type) => (
+                        <option key={type.type} value={type.type}>
+                          {type.type} - {type.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-2">
+                      {t('webhooks.broadcaster')} User ID
+                    </label>
+                    <input
+                      type="text"
+                      value={testForm.broadcasterUserId}
+                      onChange={(e) => setTestForm({ ...testForm, broadcasterUserId: e.target.value })}
+                      placeholder="e.g., 12345678"
+                      className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                    />
+                  </div>
+                </>
+              )}
+
+              {/* Message Type */}
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  {t('webhooks.messageType')}
+                </label>
+                <select
+                  value={testForm.messageType}
+                  onChange={(e) => setTestForm({ ...testForm, messageType: e.target.value as MockEventSubMessageType })}
+                  className="w-full px-4 py-2 bg-twitch-dark-light border border-twitch-gray-dark text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-twitch-purple"
+                >
+                  <option value="notification">notification</option>
+                  <option value="webhook_callback_verification">webhook_callback_verification</option>
+                  <option value="revocation">revocation</option>
+                </select>
+                {testForm.target === 'webhook' && (
+                  <p className="text-xs text-white/40 mt-1">{t('webhooks.testWebhookHint')}</p>
+                )}
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="submit" isLoading={isSendingTest}>
+                  {t('webhooks.sendTestEvent')}
+                </Button>
+                <Button type="button" variant="secondary" onClick={() => setShowTestModal(false)}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+
+            {/* Result */}
+            {testResult && (
+              <div className="mt-6 space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${
+                    testResult.response.status && testResult.response.status < 300
+                      ? 'bg-green-500/20 text-green-400'
+                      : 'bg-red-500/20 text-red-400'
+                  }`}>
+                    {testResult.response.status ?? t('webhooks.noResponse')}
+                  </span>
+                  <span className="text-white/60">{testResult.response.durationMs} ms</span>
+                  {testResult.challengeVerified !== undefined && (
+                    <span className={testResult.challengeVerified ? 'text-green-400' : 'text-red-400'}>
+                      {testResult.challengeVerified ? t('webhooks.challengeVerified') : t('webhooks.challengeNotVerified')}
+                    </span>
+                  )}
+                </div>
+                {testResult.error && (
+                  <p className="text-sm text-red-400">{testResult.error}</p>
+                )}
+                <div>
+                  <h4 className="text-sm font-semibold text-white/80 mb-1">{t('webhooks.requestSent')}</h4>
+                  <pre className="bg-twitch-dark rounded-lg p-3 text-xs text-white/80 overflow-x-auto">
+                    {JSON.stringify(testResult.request, null, 2)}
+                  </pre>
+                </div>
+                {testResult.response.body && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-white/80 mb-1">{t('webhooks.responseReceived')}</h4>
+                    <pre className="bg-twitch-dark rounded-lg p-3 text-xs text-white/80 overflow-x-auto">
+                      {testResult.response.body}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,9 +1,17 @@
+import axios from 'axios';
 import api from './api';
 import type {
   ApiLog,
   CreateApiLogRequest,
   ApiLogsResponse,
   ApiLogResponse,
+  ApiLogFilters,
+  ApiLogExportFormat,
+  ApiLogAnalytics,
+  LogRetention,
+  LogRetentionResponse,
+  LogRedaction,
+  ReplayApiLogResponse,
 } from '../types/index';
 
 /**
@@ -20,11 +28,11 @@ const apiLogService = {
   },
 
   /**
-   * Get all API logs for the authenticated user
+   * Get the API logs of the authenticated user, optionally filtered
    */
-  async getAllLogs(limit: number = 50, offset: number = 0): Promise<ApiLogsResponse> {
+  async getAllLogs(limit: number = 50, offset: number = 0, filters: ApiLogFilters = {}): Promise<ApiLogsResponse> {
     const response = await api.get<ApiLogsResponse>('/logs', {
-      params: { limit, offset },
+      params: { ...filters, limit, offset },
     });
     return response.data;
   },
@@ -45,10 +53,86 @@ const apiLogService = {
   },
 
   /**
-   * Delete all API logs for the authenticated user
+   * Delete the API logs matching the filters (all of them without filters)
    */
-  async deleteAllLogs(): Promise<{ count: number }> {
-    const response = await api.delete<{ count: number }>('/logs');
+  async deleteAllLogs(filters: ApiLogFilters = {}): Promise<{ count: number }> {
+    const response = await api.delete<{ count: number }>('/logs', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  /**
+   * Download the API logs matching the filters as HAR, NDJSON or CSV
+   */
+  async exportLogs(format: ApiLogExportFormat, filters: ApiLogFilters = {}): Promise<Blob> {
+    try {
+      const response = await api.get<Blob>('/logs/export', {
+        params: { ...filters, format },
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error) {
+      // Error bodies arrive as a Blob too, parse them so their message can be shown
+      if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+        const text = await error.response.data.text();
+        try {
+          error.response.data = JSON.parse(text);
+        } catch {
+          error.response.data = { message: text };
+        }
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Get usage analytics of the last days (1-90), optionally for one token
+   */
+  async getAnalytics(days: number = 7, tokenId?: string): Promise<ApiLogAnalytics> {
+    const response = await api.get<{ analytics: ApiLogAnalytics }>('/logs/analytics', {
+      params: { days, tokenId },
+    });
+    return response.data.analytics;
+  },
+
+  /**
+   * Get the API log retention policy
+   */
+  async getRetention(): Promise<LogRetention> {
+    const response = await api.get<LogRetentionResponse>('/logs/retention');
+    return response.data.retention;
+  },
+
+  /**
+   * Update the API log retention policy, logs outside it are pruned right away
+   */
+  async updateRetention(data: Partial<LogRetention>): Promise<LogRetentionResponse> {
+    const response = await api.put<LogRetentionResponse>('/logs/retention', data);
+    return response.data;
+  },
+
+  /**
+   * Get the redaction rules applied before logs are written
+   */
+  async getRedaction(): Promise<LogRedaction> {
+    const response = await api.get<{ redaction: LogRedaction }>('/logs/redaction');
+    return response.data.redaction;
+  },
+
+  /**
+   * Update the JSON paths redacted from the logs written from now on
+   */
+  async updateRedaction(paths: string[]): Promise<LogRedaction> {
+    const response = await api.put<{ redaction: LogRedaction }>('/logs/redaction', { paths });
+    return response.data.redaction;
+  },
+
+  /**
+   * Send a logged Helix call again, with its token or another one
+   */
+  async replayLog(id: string, tokenId?: string): Promise<ReplayApiLogResponse> {
+    const response = await api.post<ReplayApiLogResponse>(`/logs/${id}/replay`, tokenId ? { tokenId } : {});
     return response.data;
   },
 };
@@ -0,0 +1,90 @@
+import api from './api';
+import type {
+  RequestCollection,
+  SavedRequest,
+  SaveRequestRequest,
+  UpdateSavedRequestRequest,
+} from '../types/index';
+
+/**
+ * Collection Service
+ * Handles the saved request collections of the API Tester
+ */
+const collectionService = {
+  /**
+   * Get all collections with their saved requests, in sidebar order
+   */
+  async getAllCollections(): Promise<RequestCollection[]> {
+    const response = await api.get<{ collections: RequestCollection[] }>('/collections');
+    return response.data.collections;
+  },
+
+  /**
+   * Create a new collection at the end of the list
+   */
+  async createCollection(name: string): Promise<RequestCollection> {
+    const response = await api.post<{ collection: RequestCollection }>('/collections', { name });
+    return response.data.collection;
+  },
+
+  /**
+   * Rename a collection
+   */
+  async updateCollection(id: string, name: string): Promise<RequestCollection> {
+    const response = await api.put<{ collection: RequestCollection }>(`/collections/${id}`, { name });
+    return response.data.collection;
+  },
+
+  /**
+   * Delete a collection and its saved requests
+   */
+  async deleteCollection(id: string): Promise<void> {
+    await api.delete(`/collections/${id}`);
+  },
+
+  /**
+   * Reorder collections (position = index in ids)
+   */
+  async reorderCollections(ids: string[]): Promise<void> {
+    await api.put('/collections/order', { ids });
+  },
+
+  /**
+   * Save a request at the end of a collection
+   */
+  async saveRequest(collectionId: string, data: SaveRequestRequest): Promise<SavedRequest> {
+    const response = await api.post<{ request: SavedRequest }>(`/collections/${collectionId}/requests`, data);
+    return response.data.request;
+  },
+
+  /**
+   * Update a saved request or move it to another collection
+   */
+  async updateRequest(
+    collectionId: string,
+    requestId: string,
+    data: UpdateSavedRequestRequest
+  ): Promise<SavedRequest> {
+    const response = await api.put<{ request: SavedRequest }>(
+      `/collections/${collectionId}/requests/${requestId}`,
+      data
+    );
+    return response.data.request;
+  },
+
+  /**
+   * Delete a saved request
+   */
+  async deleteRequest(collectionId: string, requestId: string): Promise<void> {
+    await api.delete(`/collections/${collectionId}/requests/${requestId}`);
+  },
+
+  /**
+   * Reorder the requests of a collection (position = index in ids)
+   */
+  async reorderRequests(collectionId: string, ids: string[]): Promise<void> {
+    await api.put(`/collections/${collectionId}/requests/order`, { ids });
+  },
+};
+
+export default collectionService;
@@ -0,0 +1,41 @@
+import api from './api';
+import type { Environment, EnvironmentRequest } from '../types/index';
+
+/**
+ * Environment Service
+ * Handles the variable sets substituted into API Tester requests
+ */
+const environmentService = {
+  /**
+   * Get all environments for the authenticated user
+   */
+  async getAllEnvironments(): Promise<Environment[]> {
+    const response = await api.get<{ environments: Environment[] }>('/environments');
+    return response.data.environments;
+  },
+
+  /**
+   * Create a new environment
+   */
+  async createEnvironment(data: EnvironmentRequest): Promise<Environment> {
+    const response = await api.post<{ environment: Environment }>('/environments', data);
+    return response.data.environment;
+  },
+
+  /**
+   * Update the name or variables of an environment
+   */
+  async updateEnvironment(id: string, data: EnvironmentRequest): Promise<Environment> {
+    const response = await api.put<{ environment: Environment }>(`/environments/${id}`, data);
+    return response.data.environment;
+  },
+
+  /**
+   * Delete an environment
+   */
+  async deleteEnvironment(id: string): Promise<void> {
+    await api.delete(`/environments/${id}`);
+  },
+};
+
+export default environmentService;
@@ -0,0 +1,34 @@
+import api from './api';
+import type { HelixProxyRequest, HelixProxyResponse, TokenRateLimit, HelixEndpoint } from '../types/index';
+
+/**
+ * Helix Service
+ * Sends Twitch Helix requests through the server, which injects the saved token
+ */
+const helixService = {
+  /**
+   * Get the catalog of Helix endpoints
+   */
+  async getEndpoints(): Promise<HelixEndpoint[]> {
+    const response = await api.get<{ endpoints: HelixEndpoint[] }>('/helix/endpoints');
+    return response.data.endpoints;
+  },
+
+  /**
+   * Send a Helix request with a saved token (logged automatically)
+   */
+  async proxy<T = unknown>(data: HelixProxyRequest): Promise<HelixProxyResponse<T>> {
+    const response = await api.post<HelixProxyResponse<T>>('/helix/proxy', data);
+    return response.data;
+  },
+
+  /**
+   * Get the current rate-limit bucket of each token that has called Helix
+   */
+  async getRateLimits(): Promise<TokenRateLimit[]> {
+    const response = await api.get<{ rateLimits: TokenRateLimit[] }>('/helix/rate-limits');
+    return response.data.rateLimits;
+  },
+};
+
+export default helixService;
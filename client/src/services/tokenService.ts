@@ -12,6 +12,10 @@ import type {
   StartAuthorizationFlowResponse,
   HandleOAuthCallbackRequest,
   ValidateTokenResponse,
+  RevokeTokenResponse,
+  DeleteTokenResponse,
+  MatchTokenRequest,
+  MatchTokenResponse,
 } from '../types/index';
 
 /**
@@ -60,10 +64,21 @@ const tokenService = {
   },
 
   /**
-   * Delete a saved token
+   * Delete a saved token, optionally revoking it at Twitch first
    */
-  async deleteToken(id: string): Promise<void> {
-    await api.delete(`/tokens/${id}`);
+  async deleteToken(id: string, revoke = false): Promise<DeleteTokenResponse> {
+    const response = await api.delete<DeleteTokenResponse>(`/tokens/${id}`, {
+      params: revoke ? { revoke: 'true' } : undefined,
+    });
+    return response.data;
+  },
+
+  /**
+   * Revoke a token at Twitch (the token is kept and marked as revoked)
+   */
+  async revokeToken(id: string): Promise<RevokeTokenResponse> {
+    const response = await api.post<RevokeTokenResponse>(`/tokens/${id}/revoke`);
+    return response.data;
   },
 
   /**
@@ -83,13 +98,23 @@ const tokenService = {
   },
 
   /**
-   * Refresh an existing token using its refresh token
+   * Refresh a user token using its refresh token (app tokens are regenerated in place,
+   * revokePrevious also revokes the previous app access token)
    */
-  async refreshToken(tokenId: string): Promise<SavedToken> {
-    const response = await api.post<TokenResponse>(`/tokens/${tokenId}/refresh`);
+  async refreshToken(tokenId: string, revokePrevious = false): Promise<SavedToken> {
+    const response = await api.post<TokenResponse>(`/tokens/${tokenId}/refresh`, undefined, {
+      params: revokePrevious ? { revokePrevious: 'true' } : undefined,
+    });
     return response.data.token;
   },
 
+  /**
+   * Enable or disable automatic regeneration of an app token
+   */
+  async setKeepAlive(tokenId: string, keepAlive: boolean): Promise<void> {
+    await api.patch(`/tokens/${tokenId}/keep-alive`, { keepAlive });
+  },
+
   /**
    * Validate a token with Twitch API
    */
@@ -97,6 +122,14 @@ const tokenService = {
     const response = await api.get<ValidateTokenResponse>(`/tokens/${tokenId}/validate`);
     return response.data;
   },
+
+  /**
+   * Find the saved token matching an access token, or else a Client ID
+   */
+  async matchToken(data: MatchTokenRequest): Promise<MatchTokenResponse> {
+    const response = await api.post<MatchTokenResponse>('/tokens/match', data);
+    return response.data;
+  },
 };
 
 export default tokenService;
@@ -1,8 +1,9 @@
-import type { SavedToken } from '../types/index';
+import helixService from './helixService';
+import type { SavedToken, HelixProxyResponse } from '../types/index';
 
 /**
  * Twitch API Service
- * Makes direct calls to Twitch API using saved tokens
+ * Calls the Twitch API with saved tokens through the server's Helix proxy
  */
 
 export interface TwitchUser {
@@ -39,128 +40,86 @@ export interface TwitchFollower {
   total: number;
 }
 
+/**
+ * Send a GET request through the Helix proxy and fail on non-2xx responses
+ */
+async function helixGet<T>(token: SavedToken, path: string, query: Record<string, string | string[]>): Promise<HelixProxyResponse<T>> {
+  const response = await helixService.proxy<T>({ tokenId: token.id, method: 'GET', path, query });
+
+  if (response.status === null || response.status < 200 || response.status >= 300) {
+    throw new Error(`Twitch API error: ${response.status ?? response.error}`);
+  }
+
+  return response;
+}
+
 const twitchApiService = {
   /**
    * Get user information
    */
   async getUsers(token: SavedToken, logins?: string[]): Promise<TwitchUser[]> {
-    const params = new URLSearchParams();
-    if (logins && logins.length > 0) {
-      logins.forEach(login => params.append('login', login));
-    }
-
-    const url = `https://api.twitch.tv/helix/users${params.toString() ? '?' + params.toString() : ''}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token.accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Twitch API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.data || [];
+    const response = await helixGet<{ data: TwitchUser[] }>(token, '/users', logins && logins.length > 0 ? { login: logins } : {});
+    return response.body?.data || [];
   },
 
   /**
    * Get channel information
    */
   async getChannelInfo(token: SavedToken, broadcasterId: string): Promise<any> {
-    const url = `https://api.twitch.tv/helix/channels?broadcaster_id=${broadcasterId}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token.accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Twitch API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.data?.[0] || null;
+    const response = await helixGet<{ data: unknown[] }>(token, '/channels', { broadcaster_id: broadcasterId });
+    return response.body?.data?.[0] || null;
   },
 
   /**
    * Get stream information (to check if online)
    */
   async getStreams(token: SavedToken, userIds?: string[]): Promise<TwitchStream[]> {
-    const params = new URLSearchParams();
-    if (userIds && userIds.length > 0) {
-      userIds.forEach(id => params.append('user_id', id));
-    }
-
-    const url = `https://api.twitch.tv/helix/streams${params.toString() ? '?' + params.toString() : ''}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token.accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Twitch API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.data || [];
+    const response = await helixGet<{ data: TwitchStream[] }>(token, '/streams', userIds && userIds.length > 0 ? { user_id: userIds } : {});
+    return response.body?.data || [];
   },
 
   /**
    * Get follower count
    */
   async getFollowerCount(token: SavedToken, broadcasterId: string): Promise<number> {
-    const url = `https://api.twitch.tv/helix/channels/followers?broadcaster_id=${broadcasterId}&first=1`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token.accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-      },
+    const response = await helixService.proxy<TwitchFollower>({
+      tokenId: token.id,
+      method: 'GET',
+      path: '/channels/followers',
+      query: { broadcaster_id: broadcasterId, first: '1' },
     });
 
-    if (!response.ok) {
+    if (response.status === null || response.status < 200 || response.status >= 300) {
       // If not authorized (missing scope), return 0
       if (response.status === 403 || response.status === 401) {
         return 0;
       }
-      throw new Error(`Twitch API error: ${response.status}`);
+      throw new Error(`Twitch API error: ${response.status ?? response.error}`);
     }
 
-    const data = await response.json();
-    return data.total || 0;
+    return response.body?.total || 0;
   },
 
   /**
    * Get subscriber count
    */
   async getSubscriberCount(token: SavedToken, broadcasterId: string): Promise<number> {
-    const url = `https://api.twitch.tv/helix/subscriptions?broadcaster_id=${broadcasterId}&first=1`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token.accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-      },
+    const response = await helixService.proxy<{ total: number }>({
+      tokenId: token.id,
+      method: 'GET',
+      path: '/subscriptions',
+      query: { broadcaster_id: broadcasterId, first: '1' },
     });
 
-    if (!response.ok) {
+    if (response.status === null || response.status < 200 || response.status >= 300) {
       // If not authorized (missing scope), return 0
       if (response.status === 403 || response.status === 401) {
         return 0;
       }
-      throw new Error(`Twitch API error: ${response.status}`);
+      throw new Error(`Twitch API error: ${response.status ?? response.error}`);
     }
 
-    const data = await response.json();
-    return data.total || 0;
+    return response.body?.total || 0;
   },
 };
 
@@ -5,6 +5,7 @@ import type {
   UpdateTwitchConfigRequest,
   TwitchConfigsResponse,
   TwitchConfigResponse,
+  RevokeConfigTokensResponse,
 } from '../types/index';
 
 /**
@@ -57,6 +58,14 @@ const twitchConfigService = {
     await api.delete(`/twitch-configs/${id}`);
   },
 
+  /**
+   * Revoke all tokens of a Twitch config at Twitch
+   */
+  async revokeConfigTokens(id: string): Promise<RevokeConfigTokensResponse> {
+    const response = await api.post<RevokeConfigTokensResponse>(`/twitch-configs/${id}/revoke-tokens`);
+    return response.data;
+  },
+
   /**
    * Validate a Twitch config with Twitch API
    */
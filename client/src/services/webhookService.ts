@@ -5,6 +5,11 @@ import type {
   EventSubType,
   WebhooksResponse,
   EventSubTypesResponse,
+  WebhookEventsQuery,
+  WebhookEventsResponse,
+  EventSubSession,
+  TriggerTestEventRequest,
+  TestEventResult,
 } from '../types/index';
 
 /**
@@ -43,6 +48,47 @@ const webhookService = {
     await api.delete(`/webhooks/${id}`);
   },
 
+  /**
+   * Get events received for a webhook (paged, newest first)
+   */
+  async getWebhookEvents(id: string, query: WebhookEventsQuery = {}): Promise<WebhookEventsResponse> {
+    const response = await api.get<WebhookEventsResponse>(`/webhooks/${id}/events`, {
+      params: query,
+    });
+    return response.data;
+  },
+
+  /**
+   * Send a signed mock EventSub message (like `twitch event trigger`)
+   */
+  async triggerTestEvent(data: TriggerTestEventRequest): Promise<TestEventResult> {
+    const response = await api.post<{ result: TestEventResult }>('/webhooks/test-event', data);
+    return response.data.result;
+  },
+
+  /**
+   * Get the EventSub WebSocket sessions kept open by the server
+   */
+  async getWebSocketSessions(): Promise<EventSubSession[]> {
+    const response = await api.get<{ sessions: EventSubSession[] }>('/webhooks/websocket/sessions');
+    return response.data.sessions;
+  },
+
+  /**
+   * Connect an EventSub WebSocket session for a user token
+   */
+  async connectWebSocketSession(tokenId: string): Promise<EventSubSession> {
+    const response = await api.post<{ session: EventSubSession }>('/webhooks/websocket/sessions', { tokenId });
+    return response.data.session;
+  },
+
+  /**
+   * Disconnect the EventSub WebSocket session of a token
+   */
+  async disconnectWebSocketSession(tokenId: string): Promise<void> {
+    await api.delete(`/webhooks/websocket/sessions/${tokenId}`);
+  },
+
   /**
    * Get EventSub subscriptions from Twitch API (remote)
    */
@@ -51,6 +97,7 @@ const webhookService = {
     total: number;
     max_total_cost: number;
     total_cost: number;
+    truncated: boolean; // More subscriptions than the server pages through
   }> {
     const response = await api.get('/webhooks/remote');
     return response.data;
@@ -36,6 +36,7 @@ export interface ApiError {
   error: string;
   message: string;
   messages?: string[];
+  errors?: { msg: string; path: string; value?: unknown }[]; // Validation errors (400)
   stack?: string;
 }
 
@@ -70,6 +71,19 @@ export interface TwitchConfigResponse {
   message?: string;
 }
 
+// error: the token does not work, warning: it works but needs attention,
+// unknown: not validated recently, revoked: revoked on purpose
+export type TokenHealthStatus = 'healthy' | 'warning' | 'error' | 'unknown' | 'revoked';
+
+export type TokenHealthIssue = 'invalid' | 'expired' | 'refresh_failed' | 'expiring' | 'scope_drift';
+
+export interface TokenHealth {
+  status: TokenHealthStatus;
+  issues: TokenHealthIssue[];
+  missingScopes: string[]; // Saved scopes that Twitch no longer reports
+  extraScopes: string[]; // Scopes Twitch reports that were not saved
+}
+
 export interface SavedToken {
   id: string;
   tokenType: 'user' | 'app';
@@ -80,6 +94,15 @@ export interface SavedToken {
   channelId: string | null;
   name: string | null;
   expiresAt: string | null;
+  lastRefreshedAt?: string | null;
+  refreshError?: string | null; // Set when the last (automatic or manual) refresh failed
+  refreshFailedAt?: string | null;
+  keepAlive?: boolean; // App tokens only: regenerated automatically before expiring
+  revokedAt?: string | null; // Revoked at Twitch, the token no longer works
+  lastValidatedAt?: string | null; // Last check with Twitch (manual or hourly)
+  isValid?: boolean | null; // Result of the last check, null until checked
+  validatedScopes?: string[]; // Scopes Twitch reported at the last check
+  health?: TokenHealth;
   createdAt: string;
   updatedAt: string;
   twitchConfig: {
@@ -89,9 +112,50 @@ export interface SavedToken {
   };
 }
 
+// Credentials of an imported request (e.g. a pasted cURL command)
+export interface MatchTokenRequest {
+  accessToken?: string;
+  clientId?: string;
+}
+
+export interface MatchTokenResponse {
+  tokenId: string | null;
+  match: 'accessToken' | 'clientId' | null; // Same access token, or only the same Client ID
+}
+
+export interface TokenRevocationResult {
+  tokenId: string;
+  name: string | null;
+  tokenType: 'user' | 'app';
+  status: 'revoked' | 'already_invalid' | 'failed';
+  error?: string;
+}
+
+export interface RevokeTokenResponse {
+  message: string;
+  revocation: TokenRevocationResult;
+}
+
+export interface DeleteTokenResponse {
+  message: string;
+  revocation?: TokenRevocationResult; // Only when deleted with revoke
+}
+
+export interface RevokeConfigTokensResponse {
+  message: string;
+  summary: {
+    total: number;
+    revoked: number;
+    alreadyInvalid: number;
+    failed: number;
+  };
+  results: TokenRevocationResult[];
+}
+
 export interface GenerateAppTokenRequest {
   twitchConfigId: string;
   name?: string;
+  keepAlive?: boolean;
 }
 
 export interface StartUserTokenRequest {
@@ -158,16 +222,26 @@ export interface ValidateTokenResponse {
   scopes?: string[];
   expiresIn?: number;
   message?: string;
+  lastValidatedAt?: string | null;
+  isValid?: boolean | null;
+  validatedScopes?: string[];
+  health?: TokenHealth;
 }
 
+export type EventSubTransportMethod = 'webhook' | 'websocket';
+
 export interface Webhook {
   id: string;
   subscriptionId: string;
   type: string;
   condition?: Record<string, string>;
-  callbackUrl: string;
+  transportMethod: EventSubTransportMethod;
+  callbackUrl: string | null; // Webhook transport only
+  sessionId: string | null; // WebSocket transport only
+  tokenId: string | null;
   status: string;
   cost: number;
+  hasSecret: boolean; // Created by the hub, so it can receive test events
   createdAt: string;
 }
 
@@ -175,14 +249,98 @@ export interface CreateWebhookRequest {
   tokenId: string;
   type: string;
   condition: Record<string, string>;
-  callbackUrl: string;
+  transport?: EventSubTransportMethod; // Defaults to webhook
+  callbackUrl?: string; // Omit to use the hub's built-in EventSub receiver
+}
+
+export interface EventSubConditionField {
+  name: string;
+  required: boolean;
+  description: string;
 }
 
 export interface EventSubType {
   type: string;
   version: string;
   description: string;
-  condition: Record<string, string>;
+  condition: EventSubConditionField[];
+  transports: EventSubTransportMethod[];
+  tokenType: 'app' | 'any'; // app = webhook-only type that needs an app token
+  scopes: string[]; // All required; a manage scope satisfies its read scope
+}
+
+export interface EventSubEvent {
+  id: string;
+  webhookId: string;
+  messageId: string;
+  messageType: 'notification' | 'revocation';
+  subscriptionType: string;
+  subscriptionVersion: string;
+  payload: {
+    subscription?: Record<string, unknown>;
+    event?: Record<string, unknown>;
+  };
+  messageTimestamp: string;
+  isMock: boolean; // Test event sent from the hub
+  createdAt: string;
+}
+
+export interface WebhookEventsQuery {
+  limit?: number;
+  offset?: number;
+  messageType?: string;
+  subscriptionType?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface WebhookEventsResponse {
+  events: EventSubEvent[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export type EventSubSessionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface EventSubSession {
+  tokenId: string;
+  tokenName: string | null;
+  channelLogin: string | null;
+  status: EventSubSessionStatus;
+  sessionId: string | null;
+  keepaliveTimeoutSeconds: number | null;
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  error: string | null;
+}
+
+export type MockEventSubMessageType = 'webhook_callback_verification' | 'notification' | 'revocation';
+
+export interface TriggerTestEventRequest {
+  messageType: MockEventSubMessageType;
+  webhookId?: string; // Send to this webhook's built-in receiver
+  callbackUrl?: string; // Or to any callback URL, signed with secret
+  secret?: string;
+  type?: string;
+  condition?: Record<string, string>;
+}
+
+export interface TestEventResult {
+  messageId: string;
+  messageType: MockEventSubMessageType;
+  callbackUrl: string;
+  request: {
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+  };
+  response: {
+    status: number | null;
+    body: string | null;
+    durationMs: number;
+  };
+  error: string | null;
+  challengeVerified?: boolean;
 }
 
 export interface WebhooksResponse {
@@ -201,12 +359,48 @@ export interface ApiLog {
   method: string;
   endpoint: string;
   status: number | null;
+  source: ApiLogSource;
+  requestHeaders: Record<string, string> | null;
   requestBody: any;
+  responseHeaders: Record<string, string> | null;
   responseBody: any;
+  durationMs: number | null;
+  rateLimit: ApiLogRateLimit | null;
   error: string | null;
+  redactedFields: string[]; // e.g. responseBody.data[0].email
   createdAt: string;
 }
 
+// Where a log entry came from: the browser, the Helix proxy, token flows or EventSub
+export type ApiLogSource = 'client' | 'proxy' | 'token' | 'eventsub';
+
+export interface ApiLogRateLimit {
+  limit: number;
+  remaining: number | null;
+  reset: string | null;
+}
+
+// Call shown in the API Tester history, sent from the page or loaded from the API logs
+export interface ApiCall {
+  id: string;
+  timestamp: string;
+  method: string;
+  endpoint: string;
+  status: number | null;
+  response: any;
+  error: string | null;
+  source?: ApiLogSource;
+  durationMs: number | null;
+  requestHeaders: Record<string, string> | null;
+  responseHeaders: Record<string, string> | null;
+  rateLimit: ApiLogRateLimit | null;
+  pages?: number;
+  tokenId: string | null;
+  requestBody: unknown;
+  logged: boolean; // Stored as an API log, so it can be replayed
+  redactedFields: string[]; // Fields hidden in the stored log
+}
+
 export interface CreateApiLogRequest {
   tokenId?: string;
   method: string;
@@ -227,3 +421,181 @@ export interface ApiLogsResponse {
 export interface ApiLogResponse {
   log: ApiLog;
 }
+
+// Filters of the API log list, empty values are ignored
+export interface ApiLogFilters {
+  method?: string;
+  statusMin?: number;
+  statusMax?: number;
+  endpoint?: string; // Substring of the endpoint
+  tokenId?: string;
+  source?: ApiLogSource;
+  from?: string; // ISO 8601
+  to?: string;
+  q?: string; // Free text searched in the endpoint, bodies and error
+}
+
+export type ApiLogExportFormat = 'har' | 'ndjson' | 'csv';
+
+// Successes are 2xx/3xx responses, errors are 4xx/5xx responses and calls that got no response
+export interface ApiLogStats {
+  total: number;
+  successes: number;
+  errors: number;
+  successRate: number | null; // 0-1, null without calls
+  errorRate: number | null;
+  p50: number | null; // Latency in ms
+  p95: number | null;
+}
+
+export interface ApiLogAnalytics {
+  from: string;
+  to: string;
+  days: number;
+  summary: ApiLogStats;
+  byDay: (ApiLogStats & { date: string })[]; // UTC days (yyyy-mm-dd), oldest first
+  byEndpoint: (ApiLogStats & { method: string; endpoint: string })[]; // Busiest first, without query string
+  byToken: (ApiLogStats & { tokenId: string | null; tokenName: string | null; tokenType: string | null })[];
+  byStatusClass: { statusClass: string; total: number }[]; // 2xx, 3xx, 4xx, 5xx or network
+}
+
+// null disables the limit
+export interface LogRetention {
+  maxAgeDays: number | null;
+  maxRows: number | null;
+}
+
+export interface LogRetentionResponse {
+  retention: LogRetention;
+  pruned?: number; // Logs deleted by the new policy
+}
+
+// Field of the responses of a Helix endpoint that is always redacted
+export interface RedactionRule {
+  endpoint: string;
+  path: string; // JSON path, e.g. data[*].email
+}
+
+export interface LogRedaction {
+  paths: string[]; // User-defined JSON paths, redacted on every endpoint
+  builtInRules: RedactionRule[];
+  sensitiveKeys: string[]; // Keys redacted wherever they appear
+}
+
+// Helix Proxy Types
+export type HelixMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HelixProxyRequest {
+  tokenId: string;
+  method: HelixMethod;
+  path: string; // e.g. /users or /users?login=twitch
+  query?: Record<string, string | string[]>;
+  body?: unknown;
+  allPages?: boolean; // Follow pagination.cursor and merge the data of every page (GET only)
+  maxPages?: number; // Page cap for allPages (1-50, default 10)
+}
+
+export interface HelixProxyResponse<T = unknown> {
+  status: number | null; // null if Twitch could not be reached
+  headers: Record<string, string>;
+  body: T | null;
+  durationMs: number;
+  endpoint: string;
+  error: string | null;
+  logId: string | null;
+  tokenRefreshed: boolean; // The token returned 401 and was refreshed before retrying
+  pages: number; // Pages fetched (more than 1 with allPages)
+}
+
+export interface ReplayApiLogResponse extends HelixProxyResponse {
+  replayOf: string; // ID of the replayed log
+}
+
+// Helix endpoint catalog (json = arrays and objects, edited as raw JSON)
+export type HelixParamType = 'string' | 'integer' | 'boolean' | 'datetime' | 'enum' | 'json';
+
+export interface HelixParam {
+  name: string;
+  type: HelixParamType;
+  required: boolean;
+  description: string;
+  multiple?: boolean; // Query parameter that may be repeated (e.g. id=1&id=2)
+  options?: string[]; // Allowed values of an enum
+}
+
+export interface HelixEndpoint {
+  id: string;
+  name: string;
+  category: string;
+  method: HelixMethod;
+  path: string;
+  description: string;
+  query: HelixParam[];
+  body: HelixParam[]; // Empty for endpoints without a JSON body
+  tokenType: 'app' | 'user' | 'any';
+  scopes: string[]; // All required; a manage scope satisfies its read scope
+  paginated: boolean;
+}
+
+// Helix rate-limit bucket of a token, as last reported by Twitch
+export interface TokenRateLimit {
+  tokenId: string;
+  name: string | null;
+  tokenType: 'app' | 'user';
+  limit: number;
+  remaining: number;
+  resetAt: string | null;
+  queued: number; // Requests waiting on the server for the bucket to refill
+  updatedAt: string;
+}
+
+// Saved request collections (API Tester sidebar)
+export interface SavedRequest {
+  id: string;
+  collectionId: string;
+  name: string;
+  method: HelixMethod;
+  path: string; // Without query string
+  query: Record<string, string | string[]> | null;
+  body: unknown;
+  tokenId: string | null; // Preferred token, null if none or deleted
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RequestCollection {
+  id: string;
+  name: string;
+  position: number;
+  requests: SavedRequest[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveRequestRequest {
+  name: string;
+  method: HelixMethod;
+  path: string;
+  query?: Record<string, string | string[]> | null;
+  body?: unknown;
+  tokenId?: string | null;
+}
+
+export interface UpdateSavedRequestRequest extends Partial<SaveRequestRequest> {
+  collectionId?: string; // Move the request to the end of another collection
+}
+
+// API Tester environments ({{name}} variables)
+export interface Environment {
+  id: string;
+  name: string;
+  variables: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnvironmentRequest {
+  name?: string;
+  variables?: Record<string, string>;
+}
@@ -0,0 +1,8 @@
+import axios from 'axios';
+import type { ApiError } from '../types/index';
+
+/**
+ * Message the server sent with a failed API call, if any
+ */
+export const getApiErrorMessage = (error: unknown): string | undefined =>
+  axios.isAxiosError<ApiError>(error) ? error.response?.data?.message : undefined;
@@ -0,0 +1,35 @@
+import type { ApiLogFilters } from '../types/index';
+
+// Filters of the history, as entered in the form
+export interface HistoryFilters {
+  q: string;
+  method: string;
+  status: string; // Key of STATUS_RANGES
+  tokenId: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { q: '', method: '', status: '', tokenId: '', from: '', to: '' };
+
+export const STATUS_RANGES: Record<string, [number, number]> = {
+  '2xx': [200, 299],
+  '3xx': [300, 399],
+  '4xx': [400, 499],
+  '5xx': [500, 599],
+};
+
+/**
+ * API log filters of the history form (dates cover whole local days)
+ */
+export const toApiLogFilters = (filters: HistoryFilters): ApiLogFilters => {
+  const range = STATUS_RANGES[filters.status];
+  return {
+    ...(filters.q.trim() && { q: filters.q.trim() }),
+    ...(filters.method && { method: filters.method }),
+    ...(range && { statusMin: range[0], statusMax: range[1] }),
+    ...(filters.tokenId && { tokenId: filters.tokenId }),
+    ...(filters.from && { from: new Date(`${filters.from}T00:00:00`).toISOString() }),
+    ...(filters.to && { to: new Date(`${filters.to}T23:59:59.999`).toISOString() }),
+  };
+};
@@ -0,0 +1,191 @@
+/**
+ * "Copy as code" generators for Twitch API requests
+ */
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'twurple';
+
+export interface SnippetRequest {
+  method: string;
+  url: string; // Absolute URL
+  headers: Record<string, string>;
+  body?: unknown; // JSON body, undefined if none
+}
+
+export const HELIX_BASE_URL = 'https://api.twitch.tv/helix';
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'fetch', label: 'fetch' },
+  { id: 'axios', label: 'axios' },
+  { id: 'python', label: 'Python' },
+  { id: 'twurple', label: 'Twurple' },
+];
+
+/**
+ * Twurple's callApi only covers Helix, other Twitch APIs have dedicated clients
+ */
+export const isHelixUrl = (url: string): boolean => url.startsWith(`${HELIX_BASE_URL}/`);
+
+const hasBody = (request: SnippetRequest): boolean => request.body !== undefined && request.body !== null;
+
+/**
+ * Indent every line but the first, for values nested in a snippet
+ */
+const indent = (text: string, spaces: number): string => text.split('\n').join(`\n${' '.repeat(spaces)}`);
+
+const quoteShell = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const quoteJs = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * JavaScript object literal with quoted keys, one entry per line
+ */
+const toJsObject = (values: Record<string, string>): string => {
+  const entries = Object.entries(values).map(([name, value]) => `  ${quoteJs(name)}: ${quoteJs(value)},`);
+  return entries.length > 0 ? `{\n${entries.join('\n')}\n}` : '{}';
+};
+
+/**
+ * Python literal of a JSON value (None, True, False instead of null, true, false)
+ */
+const toPython = (value: unknown, level = 0): string => {
+  const padding = '    '.repeat(level + 1);
+  const closing = '    '.repeat(level);
+
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${padding}${toPython(item, level + 1)},`).join('\n')}\n${closing}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([name, item]) => `${padding}${JSON.stringify(name)}: ${toPython(item, level + 1)},`).join('\n')}\n${closing}}`;
+};
+
+const toCurl = (request: SnippetRequest): string => {
+  const lines = [
+    `curl${request.method === 'GET' ? '' : ` -X ${request.method}`} ${quoteShell(request.url)}`,
+    ...Object.entries(request.headers).map(([name, value]) => `  -H ${quoteShell(`${name}: ${value}`)}`),
+  ];
+  if (hasBody(request)) {
+    lines.push(`  -d ${quoteShell(JSON.stringify(request.body))}`);
+  }
+  return lines.join(' \\\n');
+};
+
+const toFetch = (request: SnippetRequest): string => {
+  const options = [
+    `  method: '${request.method}',`,
+    `  headers: ${indent(toJsObject(request.headers), 2)},`,
+  ];
+  if (hasBody(request)) {
+    options.push(`  body: JSON.stringify(${indent(JSON.stringify(request.body, null, 2), 2)}),`);
+  }
+
+  return [
+    `const response = await fetch(${quoteJs(request.url)}, {`,
+    ...options,
+    '});',
+    '',
+    '// Twitch answers 204 No Content to some requests',
+    'const data = response.status === 204 ? null : await response.json();',
+    'console.log(response.status, data);',
+  ].join('\n');
+};
+
+const toAxios = (request: SnippetRequest): string => {
+  const options = [
+    `  method: '${request.method.toLowerCase()}',`,
+    `  url: ${quoteJs(request.url)},`,
+    `  headers: ${indent(toJsObject(request.headers), 2)},`,
+  ];
+  if (hasBody(request)) {
+    options.push(`  data: ${indent(JSON.stringify(request.body, null, 2), 2)},`);
+  }
+
+  return [
+    "import axios from 'axios';",
+    '',
+    'const { status, data } = await axios({',
+    ...options,
+    '});',
+    'console.log(status, data);',
+  ].join('\n');
+};
+
+const toPythonRequests = (request: SnippetRequest): string => {
+  const headers = Object.entries(request.headers).map(
+    ([name, value]) => `        ${JSON.stringify(name)}: ${JSON.stringify(value)},`
+  );
+  const args = [
+    `    ${JSON.stringify(request.url)},`,
+    headers.length > 0 ? `    headers={\n${headers.join('\n')}\n    },` : '    headers={},',
+  ];
+  if (hasBody(request)) {
+    args.push(`    json=${toPython(request.body, 1)},`);
+  }
+
+  return [
+    'import requests',
+    '',
+    `response = requests.${request.method.toLowerCase()}(`,
+    ...args,
+    ')',
+    'print(response.status_code, response.text)',
+  ].join('\n');
+};
+
+const toTwurple = (request: SnippetRequest): string => {
+  const url = new URL(request.url);
+  const authorization = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'authorization')?.[1] || '';
+  const clientId = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'client-id')?.[1] || '';
+
+  // Repeated parameters (id=1&id=2) become arrays
+  const query: Record<string, string | string[]> = {};
+  url.searchParams.forEach((value, name) => {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  });
+
+  const options = [
+    "  type: 'helix',",
+    `  url: ${quoteJs(url.pathname.replace(/^\/helix\//, ''))},`,
+    `  method: '${request.method}',`,
+  ];
+  if (Object.keys(query).length > 0) {
+    options.push(`  query: ${indent(JSON.stringify(query, null, 2), 2)},`);
+  }
+  if (hasBody(request)) {
+    options.push(`  jsonBody: ${indent(JSON.stringify(request.body, null, 2), 2)},`);
+  }
+
+  return [
+    "import { ApiClient } from '@twurple/api';",
+    "import { StaticAuthProvider } from '@twurple/auth';",
+    '',
+    `const authProvider = new StaticAuthProvider(${quoteJs(clientId)}, ${quoteJs(authorization.replace(/^Bearer /i, ''))});`,
+    'const apiClient = new ApiClient({ authProvider });',
+    '',
+    'const data = await apiClient.callApi({',
+    ...options,
+    '});',
+    'console.log(data);',
+  ].join('\n');
+};
+
+const GENERATORS: Record<SnippetLanguage, (request: SnippetRequest) => string> = {
+  curl: toCurl,
+  fetch: toFetch,
+  axios: toAxios,
+  python: toPythonRequests,
+  twurple: toTwurple,
+};
+
+/**
+ * Generate the code of a request in a language
+ */
+export const generateSnippet = (language: SnippetLanguage, request: SnippetRequest): string =>
+  GENERATORS[language](request);
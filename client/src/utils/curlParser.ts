@@ -0,0 +1,175 @@
+/**
+ * Parser for cURL commands pasted in the API Tester
+ * (as copied from the Twitch docs or the browser devtools)
+ */
+
+export interface ParsedCurlCommand {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// Escapes of bash ANSI-C quoting ($'...'), used by "Copy as cURL" for bodies with special characters
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+// Options whose value is skipped, they have no equivalent in the tester
+const IGNORED_OPTIONS_WITH_VALUE = [
+  '-u', '--user', '-A', '--user-agent', '-e', '--referer', '-b', '--cookie',
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-x', '--proxy',
+];
+
+const DATA_OPTIONS = ['-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--data-urlencode'];
+
+/**
+ * Split a shell command into arguments, handling quotes, escapes and line continuations
+ */
+const tokenize = (command: string): string[] => {
+  const text = command.replace(/[\\^]\r?\n/g, ' ');
+  const args: string[] = [];
+  let current = '';
+  let inArgument = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      if (inArgument) {
+        args.push(current);
+        current = '';
+        inArgument = false;
+      }
+      i++;
+      continue;
+    }
+
+    inArgument = true;
+
+    if (char === "'") {
+      const end = text.indexOf("'", i + 1);
+      current += text.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === '$' && text[i + 1] === "'") {
+      i += 2;
+      while (i < text.length && text[i] !== "'") {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const escaped = text[i + 1];
+          current += ANSI_C_ESCAPES[escaped] ?? `\\${escaped}`;
+          i += 2;
+        } else {
+          current += text[i];
+          i++;
+        }
+      }
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && ['"', '\\', '$', '`'].includes(text[i + 1])) {
+          current += text[i + 1];
+          i += 2;
+        } else {
+          current += text[i];
+          i++;
+        }
+      }
+      i++;
+    } else if (char === '\\') {
+      current += text[i + 1] ?? '';
+      i += 2;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  if (inArgument) {
+    args.push(current);
+  }
+  return args;
+};
+
+/**
+ * Value of a header, whatever its case
+ */
+export const getHeader = (headers: Record<string, string>, name: string): string | undefined =>
+  Object.entries(headers).find(([header]) => header.toLowerCase() === name.toLowerCase())?.[1];
+
+/**
+ * Parse a cURL command, null if it is not one or has no URL
+ */
+export const parseCurlCommand = (command: string): ParsedCurlCommand | null => {
+  const args = tokenize(command.trim());
+  if (args[0] !== 'curl' && args[0] !== 'curl.exe') {
+    return null;
+  }
+
+  let method: string | null = null;
+  let url: string | null = null;
+  let sendDataAsQuery = false;
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    // --name=value is the same as --name value
+    const separator = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = separator > 0 ? arg.slice(0, separator) : arg;
+    const nextValue = () => (separator > 0 ? arg.slice(separator + 1) : args[++i] ?? '');
+
+    if (name === '-X' || name === '--request') {
+      method = nextValue().toUpperCase();
+    } else if (/^-X[A-Za-z]+$/.test(name)) {
+      method = name.slice(2).toUpperCase();
+    } else if (name === '-H' || name === '--header') {
+      const header = nextValue();
+      const colon = header.indexOf(':');
+      if (colon > 0) {
+        headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+      }
+    } else if (DATA_OPTIONS.includes(name)) {
+      data.push(nextValue());
+    } else if (name === '--json') {
+      data.push(nextValue());
+      if (!getHeader(headers, 'Content-Type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    } else if (name === '-G' || name === '--get') {
+      sendDataAsQuery = true;
+    } else if (name === '--url') {
+      url = nextValue();
+    } else if (IGNORED_OPTIONS_WITH_VALUE.includes(name)) {
+      nextValue();
+    } else if (!arg.startsWith('-') && url === null) {
+      url = arg;
+    }
+  }
+
+  if (!url) {
+    return null;
+  }
+
+  if (!/^https?:\/\//i.test(url)) {
+    url = `https://${url}`;
+  }
+
+  if (sendDataAsQuery && data.length > 0) {
+    url += `${url.includes('?') ? '&' : '?'}${data.join('&')}`;
+    data.length = 0;
+  }
+
+  return {
+    method: method || (data.length > 0 ? 'POST' : 'GET'),
+    url,
+    headers,
+    body: data.length > 0 ? data.join('&') : undefined,
+  };
+};
@@ -0,0 +1,122 @@
+/**
+ * Side-by-side line diff of two JSON values, for comparing API responses
+ */
+
+export type DiffRowType = 'same' | 'changed' | 'removed' | 'added';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null; // Line of the first value, null if only on the right
+  right: string | null;
+  leftNumber: number | null;
+  rightNumber: number | null;
+}
+
+// Above this many line pairs, lines are compared by position instead of aligned
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+const toLines = (value: unknown): string[] =>
+  value === undefined ? [] : (JSON.stringify(value, null, 2) ?? String(value)).split('\n');
+
+/**
+ * Operations turning the left lines into the right ones (longest common subsequence)
+ */
+const alignLines = (left: string[], right: string[]): ('same' | 'removed' | 'added')[] => {
+  const columns = right.length + 1;
+  const lengths = new Uint32Array((left.length + 1) * columns);
+
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = left[i] === right[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const operations: ('same' | 'removed' | 'added')[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      operations.push('same');
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      operations.push('removed');
+      i++;
+    } else {
+      operations.push('added');
+      j++;
+    }
+  }
+  while (i++ < left.length) operations.push('removed');
+  while (j++ < right.length) operations.push('added');
+
+  return operations;
+};
+
+/**
+ * Diff two JSON values line by line.
+ * Removed and added lines next to each other are paired as changed rows.
+ */
+export const diffJson = (leftValue: unknown, rightValue: unknown): DiffRow[] => {
+  const left = toLines(leftValue);
+  const right = toLines(rightValue);
+  const rows: DiffRow[] = [];
+
+  if (left.length * right.length > MAX_ALIGNED_CELLS) {
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const leftLine = left[i] ?? null;
+      const rightLine = right[i] ?? null;
+      rows.push({
+        type: leftLine === rightLine ? 'same' : leftLine === null ? 'added' : rightLine === null ? 'removed' : 'changed',
+        left: leftLine,
+        right: rightLine,
+        leftNumber: leftLine === null ? null : i + 1,
+        rightNumber: rightLine === null ? null : i + 1,
+      });
+    }
+    return rows;
+  }
+
+  const operations = alignLines(left, right);
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (k < operations.length) {
+    if (operations[k] === 'same') {
+      rows.push({ type: 'same', left: left[i], right: right[j], leftNumber: i + 1, rightNumber: j + 1 });
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // Collect a run of removed then added lines
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < operations.length && operations[k] !== 'same') {
+      if (operations[k] === 'removed') {
+        removed.push(i++);
+      } else {
+        added.push(j++);
+      }
+      k++;
+    }
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const leftIndex = removed[n];
+      const rightIndex = added[n];
+      rows.push({
+        type: leftIndex === undefined ? 'added' : rightIndex === undefined ? 'removed' : 'changed',
+        left: leftIndex === undefined ? null : left[leftIndex],
+        right: rightIndex === undefined ? null : right[rightIndex],
+        leftNumber: leftIndex === undefined ? null : leftIndex + 1,
+        rightNumber: rightIndex === undefined ? null : rightIndex + 1,
+      });
+    }
+  }
+
+  return rows;
+};
@@ -0,0 +1,39 @@
+import type { HelixMethod, SaveRequestRequest } from '../types/index';
+
+// Methods the Helix proxy sends
+export const HELIX_METHODS: HelixMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Keep {{name}} placeholders readable in an encoded query string
+ */
+export const keepPlaceholders = (search: string): string =>
+  search.replace(/%7B%7B([A-Za-z0-9_.-]+)%7D%7D/gi, '{{$1}}');
+
+/**
+ * Split an endpoint into its path and query parameters (repeated parameters become arrays)
+ */
+export const parseEndpoint = (endpoint: string): { path: string; query: Record<string, string | string[]> } => {
+  const [path = '', search = ''] = endpoint.split('?');
+  const query: Record<string, string | string[]> = {};
+
+  new URLSearchParams(search).forEach((value, name) => {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  });
+
+  return { path, query };
+};
+
+/**
+ * Endpoint of a saved request, with its query parameters
+ */
+export const buildSavedRequestPath = (request: Pick<SaveRequestRequest, 'path' | 'query'>): string => {
+  const params = new URLSearchParams();
+
+  Object.entries(request.query || {}).forEach(([name, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) => params.append(name, item));
+  });
+
+  const search = keepPlaceholders(params.toString());
+  return search ? `${request.path}?${search}` : request.path;
+};
@@ -0,0 +1,26 @@
+import type { HelixEndpoint, SavedToken } from '../types/index';
+
+/**
+ * Required scopes a token is missing for an endpoint (a manage scope satisfies its read scope)
+ */
+export const getMissingScopes = (endpoint: HelixEndpoint, token: SavedToken): string[] => {
+  if (token.tokenType !== 'user') {
+    return [];
+  }
+
+  return endpoint.scopes.filter(
+    (scope) => !token.scopes.includes(scope) && !token.scopes.includes(scope.replace(':read:', ':manage:'))
+  );
+};
+
+/**
+ * Whether an endpoint needs another type of token
+ */
+export const isWrongTokenType = (endpoint: HelixEndpoint, token: SavedToken): boolean =>
+  endpoint.tokenType !== 'any' && endpoint.tokenType !== token.tokenType;
+
+/**
+ * Whether Twitch would reject a call to an endpoint with a token (401/403)
+ */
+export const hasPreflightIssues = (endpoint: HelixEndpoint, token: SavedToken): boolean =>
+  isWrongTokenType(endpoint, token) || getMissingScopes(endpoint, token).length > 0;
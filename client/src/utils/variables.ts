@@ -0,0 +1,46 @@
+import type { SavedToken } from '../types/index';
+
+// {{name}} placeholders, resolved from the active environment and the selected token
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}/g;
+
+// Names of environment variables; the token. prefix is reserved for the built-in ones
+export const VARIABLE_NAME = /^(?!token\.)[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Built-in variables derived from the selected token (only those with a value)
+ */
+export const getTokenVariables = (token: SavedToken | null): Record<string, string> => {
+  if (!token) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries({
+      'token.channelId': token.channelId,
+      'token.channelLogin': token.channelLogin,
+      'token.clientId': token.twitchConfig.clientId,
+    }).filter((entry): entry is [string, string] => !!entry[1])
+  );
+};
+
+/**
+ * Replace the {{name}} placeholders of a template, passing each value through encode.
+ * Also returns the names without a value, so a request is never sent half resolved.
+ */
+export const resolveTemplate = (
+  template: string,
+  variables: Record<string, string>,
+  encode: (value: string) => string
+): { value: string; missing: string[] } => {
+  const missing = new Set<string>();
+  const value = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const variable = variables[name];
+    if (variable === undefined) {
+      missing.add(name);
+      return placeholder;
+    }
+    return encode(variable);
+  });
+
+  return { value, missing: [...missing] };
+};
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "eventsub_events" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "messageType" TEXT NOT NULL,
+    "subscriptionType" TEXT NOT NULL,
+    "subscriptionVersion" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "messageTimestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "eventsub_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "eventsub_events_messageId_key" ON "eventsub_events"("messageId");
+
+-- CreateIndex
+CREATE INDEX "eventsub_events_webhookId_messageTimestamp_idx" ON "eventsub_events"("webhookId", "messageTimestamp");
+
+-- AddForeignKey
+ALTER TABLE "eventsub_events" ADD CONSTRAINT "eventsub_events_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "webhooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
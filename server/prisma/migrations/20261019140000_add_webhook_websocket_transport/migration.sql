@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhooks" ADD COLUMN     "sessionId" TEXT,
+ADD COLUMN     "tokenId" TEXT,
+ADD COLUMN     "transportMethod" TEXT NOT NULL DEFAULT 'webhook',
+ALTER COLUMN "callbackUrl" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "webhooks" ADD CONSTRAINT "webhooks_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "saved_tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
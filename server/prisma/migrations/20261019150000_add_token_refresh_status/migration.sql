@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "saved_tokens" ADD COLUMN     "lastRefreshedAt" TIMESTAMP(3),
+ADD COLUMN     "refreshError" TEXT,
+ADD COLUMN     "refreshFailedAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "saved_tokens" ADD COLUMN     "revokedAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "api_logs" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "rateLimitLimit" INTEGER,
+ADD COLUMN     "rateLimitRemaining" INTEGER,
+ADD COLUMN     "rateLimitReset" TIMESTAMP(3),
+ADD COLUMN     "requestHeaders" TEXT,
+ADD COLUMN     "responseHeaders" TEXT,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'client';
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "request_collections" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "request_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "saved_requests" (
+    "id" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "query" JSONB,
+    "body" JSONB,
+    "tokenId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_collections_userId_position_idx" ON "request_collections"("userId", "position");
+
+-- CreateIndex
+CREATE INDEX "saved_requests_collectionId_position_idx" ON "saved_requests"("collectionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "request_collections" ADD CONSTRAINT "request_collections_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_requests" ADD CONSTRAINT "saved_requests_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "request_collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_requests" ADD CONSTRAINT "saved_requests_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "saved_tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
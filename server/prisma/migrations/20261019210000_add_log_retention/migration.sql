@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "logRetentionDays" INTEGER,
+ADD COLUMN     "logRetentionMaxRows" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "api_logs" ADD COLUMN     "redactedFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "logRedactionPaths" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "saved_tokens" ADD COLUMN     "isValid" BOOLEAN,
+ADD COLUMN     "lastValidatedAt" TIMESTAMP(3),
+ADD COLUMN     "validatedScopes" TEXT[] DEFAULT ARRAY[]::TEXT[];
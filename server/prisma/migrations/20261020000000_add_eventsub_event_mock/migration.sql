@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "eventsub_events" ADD COLUMN     "isMock" BOOLEAN NOT NULL DEFAULT false;
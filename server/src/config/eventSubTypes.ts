@@ -0,0 +1,814 @@
+/**
+ * Field of an EventSub subscription condition
+ */
+export interface EventSubConditionField {
+  name: string;
+  required: boolean;
+  description: string;
+}
+
+export type EventSubTransportMethod = 'webhook' | 'websocket';
+
+/**
+ * EventSub subscription type supported by the hub
+ */
+export interface EventSubTypeDefinition {
+  type: string;
+  version: string;
+  description: string;
+  condition: EventSubConditionField[];
+  transports: EventSubTransportMethod[];
+  // Token that can create the subscription: 'app' for webhook-only types,
+  // 'any' when it depends on the transport (app token for webhooks, user token for WebSockets)
+  tokenType: 'app' | 'any';
+  // Scopes the authorizing user must have granted (all of them; a manage scope satisfies its read scope)
+  scopes: string[];
+}
+
+const BROADCASTER: EventSubConditionField = {
+  name: 'broadcaster_user_id',
+  required: true,
+  description: 'User ID of the broadcaster',
+};
+
+const MODERATOR: EventSubConditionField = {
+  name: 'moderator_user_id',
+  required: true,
+  description: 'User ID of a moderator of the channel (or the broadcaster)',
+};
+
+const CHAT_USER: EventSubConditionField = {
+  name: 'user_id',
+  required: true,
+  description: 'User ID to read chat as',
+};
+
+const CLIENT_ID: EventSubConditionField = {
+  name: 'client_id',
+  required: true,
+  description: 'Client ID of your application',
+};
+
+const REWARD_ID: EventSubConditionField = {
+  name: 'reward_id',
+  required: false,
+  description: 'Only receive events for this custom reward',
+};
+
+const BOTH_TRANSPORTS: EventSubTransportMethod[] = ['webhook', 'websocket'];
+const WEBHOOK_ONLY: EventSubTransportMethod[] = ['webhook'];
+
+/**
+ * Current (non-beta) EventSub subscription types, at their latest version
+ * @see https://dev.twitch.tv/docs/eventsub/eventsub-subscription-types/
+ */
+export const EVENTSUB_TYPES: EventSubTypeDefinition[] = [
+  // Automod
+  {
+    type: 'automod.message.hold',
+    version: '2',
+    description: 'A message is caught by automod for review',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:manage:automod'],
+  },
+  {
+    type: 'automod.message.update',
+    version: '2',
+    description: 'A message in the automod queue had its status changed',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:manage:automod'],
+  },
+  {
+    type: 'automod.settings.update',
+    version: '1',
+    description: 'The broadcaster\'s automod settings are updated',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:automod_settings'],
+  },
+  {
+    type: 'automod.terms.update',
+    version: '1',
+    description: 'The broadcaster\'s automod terms are updated',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:manage:automod'],
+  },
+
+  // Channel
+  {
+    type: 'channel.bits.use',
+    version: '1',
+    description: 'Bits are used on a channel (cheers, Power-ups)',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['bits:read'],
+  },
+  {
+    type: 'channel.update',
+    version: '2',
+    description: 'A broadcaster updates their channel properties',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'channel.follow',
+    version: '2',
+    description: 'A user follows a broadcaster',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:followers'],
+  },
+  {
+    type: 'channel.ad_break.begin',
+    version: '1',
+    description: 'A midroll commercial break starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:ads'],
+  },
+  {
+    type: 'channel.chat.clear',
+    version: '1',
+    description: 'A moderator or bot clears all messages from the chat room',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.clear_user_messages',
+    version: '1',
+    description: 'A moderator or bot clears all messages for a specific user',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.message',
+    version: '1',
+    description: 'Any user sends a message to a chat room',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.message_delete',
+    version: '1',
+    description: 'A moderator removes a specific message',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.notification',
+    version: '1',
+    description: 'A chat event (sub, raid, announcement...) is shown in chat',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat_settings.update',
+    version: '1',
+    description: 'The chat settings of a channel are updated',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.user_message_hold',
+    version: '1',
+    description: 'A user\'s message is caught by automod',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.chat.user_message_update',
+    version: '1',
+    description: 'A user\'s held message is approved or denied',
+    condition: [BROADCASTER, CHAT_USER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:chat'],
+  },
+  {
+    type: 'channel.shared_chat.begin',
+    version: '1',
+    description: 'A channel becomes active in a shared chat session',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'channel.shared_chat.update',
+    version: '1',
+    description: 'The active shared chat session of a channel changes',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'channel.shared_chat.end',
+    version: '1',
+    description: 'A channel leaves a shared chat session or the session ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'channel.subscribe',
+    version: '1',
+    description: 'A user subscribes to a broadcaster',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:subscriptions'],
+  },
+  {
+    type: 'channel.subscription.end',
+    version: '1',
+    description: 'A subscription to a broadcaster ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:subscriptions'],
+  },
+  {
+    type: 'channel.subscription.gift',
+    version: '1',
+    description: 'A user gifts subscriptions',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:subscriptions'],
+  },
+  {
+    type: 'channel.subscription.message',
+    version: '1',
+    description: 'A user sends a resubscription chat message',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:subscriptions'],
+  },
+  {
+    type: 'channel.cheer',
+    version: '1',
+    description: 'A user cheers bits',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['bits:read'],
+  },
+  {
+    type: 'channel.raid',
+    version: '1',
+    description: 'A broadcaster raids another broadcaster (set one of the two IDs)',
+    condition: [
+      { name: 'from_broadcaster_user_id', required: false, description: 'User ID of the broadcaster starting the raid' },
+      { name: 'to_broadcaster_user_id', required: false, description: 'User ID of the broadcaster being raided' },
+    ],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'channel.ban',
+    version: '1',
+    description: 'A user is banned from a broadcaster\'s chat',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:moderate'],
+  },
+  {
+    type: 'channel.unban',
+    version: '1',
+    description: 'A user is unbanned from a broadcaster\'s chat',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:moderate'],
+  },
+  {
+    type: 'channel.unban_request.create',
+    version: '1',
+    description: 'A user creates an unban request',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:unban_requests'],
+  },
+  {
+    type: 'channel.unban_request.resolve',
+    version: '1',
+    description: 'An unban request is resolved',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:unban_requests'],
+  },
+  {
+    type: 'channel.moderate',
+    version: '2',
+    description: 'A moderator performs a moderation action in a channel',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [
+      'moderator:read:blocked_terms',
+      'moderator:read:chat_settings',
+      'moderator:read:unban_requests',
+      'moderator:read:banned_users',
+      'moderator:read:chat_messages',
+      'moderator:read:warnings',
+      'moderator:read:moderators',
+      'moderator:read:vips',
+    ],
+  },
+  {
+    type: 'channel.moderator.add',
+    version: '1',
+    description: 'A user is added as a moderator',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderation:read'],
+  },
+  {
+    type: 'channel.moderator.remove',
+    version: '1',
+    description: 'A user has moderator privileges removed',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderation:read'],
+  },
+  {
+    type: 'channel.channel_points_automatic_reward_redemption.add',
+    version: '2',
+    description: 'A viewer redeems an automatic channel points reward',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.channel_points_custom_reward.add',
+    version: '1',
+    description: 'A custom channel points reward is created',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.channel_points_custom_reward.update',
+    version: '1',
+    description: 'A custom channel points reward is updated',
+    condition: [BROADCASTER, REWARD_ID],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.channel_points_custom_reward.remove',
+    version: '1',
+    description: 'A custom channel points reward is removed',
+    condition: [BROADCASTER, REWARD_ID],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.channel_points_custom_reward_redemption.add',
+    version: '1',
+    description: 'A viewer redeems a custom channel points reward',
+    condition: [BROADCASTER, REWARD_ID],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.channel_points_custom_reward_redemption.update',
+    version: '1',
+    description: 'A custom reward redemption is fulfilled or canceled',
+    condition: [BROADCASTER, REWARD_ID],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:redemptions'],
+  },
+  {
+    type: 'channel.poll.begin',
+    version: '1',
+    description: 'A poll starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:polls'],
+  },
+  {
+    type: 'channel.poll.progress',
+    version: '1',
+    description: 'Users respond to a poll',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:polls'],
+  },
+  {
+    type: 'channel.poll.end',
+    version: '1',
+    description: 'A poll ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:polls'],
+  },
+  {
+    type: 'channel.prediction.begin',
+    version: '1',
+    description: 'A prediction starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:predictions'],
+  },
+  {
+    type: 'channel.prediction.progress',
+    version: '1',
+    description: 'Users participate in a prediction',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:predictions'],
+  },
+  {
+    type: 'channel.prediction.lock',
+    version: '1',
+    description: 'A prediction is locked',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:predictions'],
+  },
+  {
+    type: 'channel.prediction.end',
+    version: '1',
+    description: 'A prediction ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:predictions'],
+  },
+  {
+    type: 'channel.suspicious_user.message',
+    version: '1',
+    description: 'A chat message is sent by a suspicious user',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:suspicious_users'],
+  },
+  {
+    type: 'channel.suspicious_user.update',
+    version: '1',
+    description: 'A suspicious user is updated',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:suspicious_users'],
+  },
+  {
+    type: 'channel.vip.add',
+    version: '1',
+    description: 'A VIP is added to the channel',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:vips'],
+  },
+  {
+    type: 'channel.vip.remove',
+    version: '1',
+    description: 'A VIP is removed from the channel',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:vips'],
+  },
+  {
+    type: 'channel.warning.acknowledge',
+    version: '1',
+    description: 'A user acknowledges a warning',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:warnings'],
+  },
+  {
+    type: 'channel.warning.send',
+    version: '1',
+    description: 'A user is sent a warning',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:warnings'],
+  },
+  {
+    type: 'channel.charity_campaign.donate',
+    version: '1',
+    description: 'A user donates to the broadcaster\'s charity campaign',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:charity'],
+  },
+  {
+    type: 'channel.charity_campaign.start',
+    version: '1',
+    description: 'A charity campaign starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:charity'],
+  },
+  {
+    type: 'channel.charity_campaign.progress',
+    version: '1',
+    description: 'Progress is made towards a charity campaign\'s goal',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:charity'],
+  },
+  {
+    type: 'channel.charity_campaign.stop',
+    version: '1',
+    description: 'A charity campaign stops',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:charity'],
+  },
+  {
+    type: 'channel.goal.begin',
+    version: '1',
+    description: 'A creator goal starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:goals'],
+  },
+  {
+    type: 'channel.goal.progress',
+    version: '1',
+    description: 'Progress is made towards a creator goal',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:goals'],
+  },
+  {
+    type: 'channel.goal.end',
+    version: '1',
+    description: 'A creator goal ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:goals'],
+  },
+  {
+    type: 'channel.hype_train.begin',
+    version: '2',
+    description: 'A Hype Train starts',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:hype_train'],
+  },
+  {
+    type: 'channel.hype_train.progress',
+    version: '2',
+    description: 'A Hype Train makes progress',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:hype_train'],
+  },
+  {
+    type: 'channel.hype_train.end',
+    version: '2',
+    description: 'A Hype Train ends',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['channel:read:hype_train'],
+  },
+  {
+    type: 'channel.shield_mode.begin',
+    version: '1',
+    description: 'Shield mode is activated',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:shield_mode'],
+  },
+  {
+    type: 'channel.shield_mode.end',
+    version: '1',
+    description: 'Shield mode is deactivated',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:shield_mode'],
+  },
+  {
+    type: 'channel.shoutout.create',
+    version: '1',
+    description: 'The broadcaster sends a Shoutout',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:shoutouts'],
+  },
+  {
+    type: 'channel.shoutout.receive',
+    version: '1',
+    description: 'The broadcaster receives a Shoutout',
+    condition: [BROADCASTER, MODERATOR],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['moderator:read:shoutouts'],
+  },
+
+  // Conduits, drops and extensions (webhook only, app token)
+  {
+    type: 'conduit.shard.disabled',
+    version: '1',
+    description: 'A conduit shard is disabled',
+    condition: [CLIENT_ID, { name: 'conduit_id', required: false, description: 'Only receive events for this conduit' }],
+    transports: WEBHOOK_ONLY,
+    tokenType: 'app',
+    scopes: [],
+  },
+  {
+    type: 'drop.entitlement.grant',
+    version: '1',
+    description: 'An entitlement for a Drop is granted to a user',
+    condition: [
+      { name: 'organization_id', required: true, description: 'Organization ID of the organization that owns the game' },
+      { name: 'category_id', required: false, description: 'Only receive events for this game' },
+      { name: 'campaign_id', required: false, description: 'Only receive events for this campaign' },
+    ],
+    transports: WEBHOOK_ONLY,
+    tokenType: 'app',
+    scopes: [],
+  },
+  {
+    type: 'extension.bits_transaction.create',
+    version: '1',
+    description: 'A Bits transaction occurs for an extension',
+    condition: [{ name: 'extension_client_id', required: true, description: 'Client ID of the extension' }],
+    transports: WEBHOOK_ONLY,
+    tokenType: 'app',
+    scopes: [],
+  },
+
+  // Stream
+  {
+    type: 'stream.online',
+    version: '1',
+    description: 'A broadcaster starts a stream',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'stream.offline',
+    version: '1',
+    description: 'A broadcaster stops a stream',
+    condition: [BROADCASTER],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+
+  // User
+  {
+    type: 'user.authorization.grant',
+    version: '1',
+    description: 'A user grants authorization to your application',
+    condition: [CLIENT_ID],
+    transports: WEBHOOK_ONLY,
+    tokenType: 'app',
+    scopes: [],
+  },
+  {
+    type: 'user.authorization.revoke',
+    version: '1',
+    description: 'A user revokes authorization for your application',
+    condition: [CLIENT_ID],
+    transports: WEBHOOK_ONLY,
+    tokenType: 'app',
+    scopes: [],
+  },
+  {
+    type: 'user.update',
+    version: '1',
+    description: 'A user updates their account (email requires user:read:email)',
+    condition: [{ name: 'user_id', required: true, description: 'User ID of the user' }],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: [],
+  },
+  {
+    type: 'user.whisper.message',
+    version: '1',
+    description: 'A user receives a whisper',
+    condition: [{ name: 'user_id', required: true, description: 'User ID of the user receiving whispers' }],
+    transports: BOTH_TRANSPORTS,
+    tokenType: 'any',
+    scopes: ['user:read:whispers'],
+  },
+];
+
+/**
+ * Find a subscription type in the catalog
+ */
+export function getEventSubType(type: string): EventSubTypeDefinition | undefined {
+  return EVENTSUB_TYPES.find((definition) => definition.type === type);
+}
+
+/**
+ * Get the required scopes a token is missing for a subscription type
+ * @param definition - Subscription type
+ * @param scopes - Scopes granted to the token
+ * @returns Missing scopes (empty if the token can subscribe)
+ */
+export function getMissingEventSubScopes(definition: EventSubTypeDefinition, scopes: string[]): string[] {
+  return definition.scopes.filter(
+    (scope) => !scopes.includes(scope) && !scopes.includes(scope.replace(':read:', ':manage:'))
+  );
+}
+
+/**
+ * Validate a subscription condition against the schema of its type
+ * @param definition - Subscription type
+ * @param condition - Condition sent by the client
+ * @returns Validation errors (empty if the condition is valid)
+ */
+export function validateEventSubCondition(
+  definition: EventSubTypeDefinition,
+  condition: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  const fieldNames = definition.condition.map((field) => field.name);
+
+  for (const field of definition.condition) {
+    const value = condition[field.name];
+
+    if (value === undefined || value === '') {
+      if (field.required) {
+        errors.push(`Condition field ${field.name} is required`);
+      }
+    } else if (typeof value !== 'string') {
+      errors.push(`Condition field ${field.name} must be a string`);
+    }
+  }
+
+  for (const key of Object.keys(condition)) {
+    if (!fieldNames.includes(key)) {
+      errors.push(`Unknown condition field ${key} for ${definition.type}`);
+    }
+  }
+
+  if (Object.values(condition).every((value) => value === undefined || value === '')) {
+    errors.push('Condition must have at least one field');
+  }
+
+  return errors;
+}
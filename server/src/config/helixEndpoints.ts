@@ -0,0 +1,1405 @@
+import { HelixMethod } from '../services/helixService';
+
+/**
+ * Type of a query parameter or body field
+ * - json: arrays and objects, edited as raw JSON
+ */
+export type HelixParamType = 'string' | 'integer' | 'boolean' | 'datetime' | 'enum' | 'json';
+
+/**
+ * Query parameter or body field of a Helix endpoint
+ */
+export interface HelixParam {
+  name: string;
+  type: HelixParamType;
+  required: boolean;
+  description: string;
+  multiple?: boolean; // Query parameter that may be repeated (e.g. id=1&id=2)
+  options?: string[]; // Allowed values of an enum
+}
+
+/**
+ * Helix endpoint supported by the API Tester
+ */
+export interface HelixEndpointDefinition {
+  id: string;
+  name: string;
+  category: string;
+  method: HelixMethod;
+  path: string;
+  description: string;
+  query: HelixParam[];
+  body: HelixParam[]; // Empty for endpoints without a JSON body
+  // Token the endpoint accepts ('any' for app or user tokens)
+  tokenType: 'app' | 'user' | 'any';
+  // Scopes the token must have (all of them; a manage scope satisfies its read scope)
+  scopes: string[];
+  paginated: boolean; // Returns pagination.cursor
+}
+
+const BROADCASTER_ID: HelixParam = {
+  name: 'broadcaster_id',
+  type: 'string',
+  required: true,
+  description: 'User ID of the broadcaster',
+};
+
+const MODERATOR_ID: HelixParam = {
+  name: 'moderator_id',
+  type: 'string',
+  required: true,
+  description: 'User ID of a moderator of the channel (or the broadcaster), must match the token',
+};
+
+const FIRST: HelixParam = {
+  name: 'first',
+  type: 'integer',
+  required: false,
+  description: 'Maximum number of items per page (1-100)',
+};
+
+const AFTER: HelixParam = {
+  name: 'after',
+  type: 'string',
+  required: false,
+  description: 'Cursor of the next page',
+};
+
+const BEFORE: HelixParam = {
+  name: 'before',
+  type: 'string',
+  required: false,
+  description: 'Cursor of the previous page',
+};
+
+/**
+ * Parameter with a different name or description, e.g. an optional broadcaster_id
+ */
+function param(base: HelixParam, overrides: Partial<HelixParam>): HelixParam {
+  return { ...base, ...overrides };
+}
+
+/**
+ * Current (non-beta) Helix endpoints, grouped by category
+ * @see https://dev.twitch.tv/docs/api/reference/
+ */
+export const HELIX_ENDPOINTS: HelixEndpointDefinition[] = [
+  // Ads
+  {
+    id: 'start-commercial',
+    name: 'Start Commercial',
+    category: 'Ads',
+    method: 'POST',
+    path: '/channels/commercial',
+    description: 'Start a commercial on the channel',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'length', type: 'integer', required: true, description: 'Length of the commercial in seconds (max 180)' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:edit:commercial'],
+    paginated: false,
+  },
+  {
+    id: 'get-ad-schedule',
+    name: 'Get Ad Schedule',
+    category: 'Ads',
+    method: 'GET',
+    path: '/channels/ads',
+    description: 'Get the ad schedule and snoozes of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:ads'],
+    paginated: false,
+  },
+  {
+    id: 'snooze-next-ad',
+    name: 'Snooze Next Ad',
+    category: 'Ads',
+    method: 'POST',
+    path: '/channels/ads/schedule/snooze',
+    description: 'Push back the next scheduled ad by 5 minutes',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:ads'],
+    paginated: false,
+  },
+
+  // Bits
+  {
+    id: 'get-bits-leaderboard',
+    name: 'Get Bits Leaderboard',
+    category: 'Bits',
+    method: 'GET',
+    path: '/bits/leaderboard',
+    description: 'Get the Bits leaderboard of the authenticated broadcaster',
+    query: [
+      { name: 'count', type: 'integer', required: false, description: 'Number of results (1-100)' },
+      { name: 'period', type: 'enum', required: false, description: 'Time period', options: ['day', 'week', 'month', 'year', 'all'] },
+      { name: 'started_at', type: 'datetime', required: false, description: 'Start of the period (RFC3339)' },
+      { name: 'user_id', type: 'string', required: false, description: 'Only return this user' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['bits:read'],
+    paginated: false,
+  },
+  {
+    id: 'get-cheermotes',
+    name: 'Get Cheermotes',
+    category: 'Bits',
+    method: 'GET',
+    path: '/bits/cheermotes',
+    description: 'Get the Cheermotes available globally or in a channel',
+    query: [param(BROADCASTER_ID, { required: false })],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+
+  // Channels
+  {
+    id: 'get-channel-information',
+    name: 'Get Channel Information',
+    category: 'Channels',
+    method: 'GET',
+    path: '/channels',
+    description: 'Get the title, category and tags of one or more channels',
+    query: [param(BROADCASTER_ID, { multiple: true })],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'modify-channel-information',
+    name: 'Modify Channel Information',
+    category: 'Channels',
+    method: 'PATCH',
+    path: '/channels',
+    description: 'Update the title, category, language or tags of the channel',
+    query: [BROADCASTER_ID],
+    body: [
+      { name: 'game_id', type: 'string', required: false, description: 'Category ID, "0" to unset' },
+      { name: 'broadcaster_language', type: 'string', required: false, description: 'ISO 639-1 language code' },
+      { name: 'title', type: 'string', required: false, description: 'Stream title' },
+      { name: 'delay', type: 'integer', required: false, description: 'Stream delay in seconds (partners only)' },
+      { name: 'tags', type: 'json', required: false, description: 'Array of up to 10 tags' },
+      { name: 'is_branded_content', type: 'boolean', required: false, description: 'Whether the stream has branded content' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:broadcast'],
+    paginated: false,
+  },
+  {
+    id: 'get-channel-editors',
+    name: 'Get Channel Editors',
+    category: 'Channels',
+    method: 'GET',
+    path: '/channels/editors',
+    description: 'Get the editors of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:editors'],
+    paginated: false,
+  },
+  {
+    id: 'get-followed-channels',
+    name: 'Get Followed Channels',
+    category: 'Channels',
+    method: 'GET',
+    path: '/channels/followed',
+    description: 'Get the channels a user follows',
+    query: [
+      { name: 'user_id', type: 'string', required: true, description: 'User ID, must match the token' },
+      param(BROADCASTER_ID, { required: false, description: 'Only check if the user follows this broadcaster' }),
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:read:follows'],
+    paginated: true,
+  },
+  {
+    id: 'get-channel-followers',
+    name: 'Get Channel Followers',
+    category: 'Channels',
+    method: 'GET',
+    path: '/channels/followers',
+    description: 'Get the followers of a channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: false, description: 'Only check if this user follows the broadcaster' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:read:followers'],
+    paginated: true,
+  },
+  {
+    id: 'get-vips',
+    name: 'Get VIPs',
+    category: 'Channels',
+    method: 'GET',
+    path: '/channels/vips',
+    description: 'Get the VIPs of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: false, multiple: true, description: 'Only check these users' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:vips'],
+    paginated: true,
+  },
+  {
+    id: 'add-channel-vip',
+    name: 'Add Channel VIP',
+    category: 'Channels',
+    method: 'POST',
+    path: '/channels/vips',
+    description: 'Make a user a VIP of the channel',
+    query: [
+      { name: 'user_id', type: 'string', required: true, description: 'User to make a VIP' },
+      BROADCASTER_ID,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:vips'],
+    paginated: false,
+  },
+  {
+    id: 'remove-channel-vip',
+    name: 'Remove Channel VIP',
+    category: 'Channels',
+    method: 'DELETE',
+    path: '/channels/vips',
+    description: 'Remove the VIP status of a user',
+    query: [
+      { name: 'user_id', type: 'string', required: true, description: 'User to remove as VIP' },
+      BROADCASTER_ID,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:vips'],
+    paginated: false,
+  },
+
+  // Channel Points
+  {
+    id: 'create-custom-reward',
+    name: 'Create Custom Reward',
+    category: 'Channel Points',
+    method: 'POST',
+    path: '/channel_points/custom_rewards',
+    description: 'Create a Channel Points custom reward',
+    query: [BROADCASTER_ID],
+    body: [
+      { name: 'title', type: 'string', required: true, description: 'Title of the reward (max 45 characters)' },
+      { name: 'cost', type: 'integer', required: true, description: 'Cost in Channel Points' },
+      { name: 'prompt', type: 'string', required: false, description: 'Prompt shown to the viewer' },
+      { name: 'is_enabled', type: 'boolean', required: false, description: 'Whether viewers can redeem it' },
+      { name: 'background_color', type: 'string', required: false, description: 'Hex color, e.g. #9147FF' },
+      { name: 'is_user_input_required', type: 'boolean', required: false, description: 'Whether the viewer must enter text' },
+      { name: 'is_max_per_stream_enabled', type: 'boolean', required: false, description: 'Limit redemptions per stream' },
+      { name: 'max_per_stream', type: 'integer', required: false, description: 'Maximum redemptions per stream' },
+      { name: 'is_global_cooldown_enabled', type: 'boolean', required: false, description: 'Enable a cooldown between redemptions' },
+      { name: 'global_cooldown_seconds', type: 'integer', required: false, description: 'Cooldown in seconds' },
+      { name: 'should_redemptions_skip_request_queue', type: 'boolean', required: false, description: 'Fulfill redemptions immediately' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:redemptions'],
+    paginated: false,
+  },
+  {
+    id: 'get-custom-rewards',
+    name: 'Get Custom Rewards',
+    category: 'Channel Points',
+    method: 'GET',
+    path: '/channel_points/custom_rewards',
+    description: 'Get the custom rewards of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Reward IDs' },
+      { name: 'only_manageable_rewards', type: 'boolean', required: false, description: 'Only rewards created by this app' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:redemptions'],
+    paginated: false,
+  },
+  {
+    id: 'update-custom-reward',
+    name: 'Update Custom Reward',
+    category: 'Channel Points',
+    method: 'PATCH',
+    path: '/channel_points/custom_rewards',
+    description: 'Update a custom reward created by this app',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: true, description: 'Reward ID' },
+    ],
+    body: [
+      { name: 'title', type: 'string', required: false, description: 'Title of the reward' },
+      { name: 'cost', type: 'integer', required: false, description: 'Cost in Channel Points' },
+      { name: 'prompt', type: 'string', required: false, description: 'Prompt shown to the viewer' },
+      { name: 'is_enabled', type: 'boolean', required: false, description: 'Whether viewers can redeem it' },
+      { name: 'is_paused', type: 'boolean', required: false, description: 'Whether redemptions are paused' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:redemptions'],
+    paginated: false,
+  },
+  {
+    id: 'delete-custom-reward',
+    name: 'Delete Custom Reward',
+    category: 'Channel Points',
+    method: 'DELETE',
+    path: '/channel_points/custom_rewards',
+    description: 'Delete a custom reward created by this app',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: true, description: 'Reward ID' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:redemptions'],
+    paginated: false,
+  },
+  {
+    id: 'get-custom-reward-redemptions',
+    name: 'Get Custom Reward Redemptions',
+    category: 'Channel Points',
+    method: 'GET',
+    path: '/channel_points/custom_rewards/redemptions',
+    description: 'Get the redemptions of a custom reward',
+    query: [
+      BROADCASTER_ID,
+      { name: 'reward_id', type: 'string', required: true, description: 'Reward ID' },
+      { name: 'status', type: 'enum', required: false, description: 'Redemption status', options: ['CANCELED', 'FULFILLED', 'UNFULFILLED'] },
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Redemption IDs' },
+      { name: 'sort', type: 'enum', required: false, description: 'Sort order', options: ['OLDEST', 'NEWEST'] },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:redemptions'],
+    paginated: true,
+  },
+  {
+    id: 'update-redemption-status',
+    name: 'Update Redemption Status',
+    category: 'Channel Points',
+    method: 'PATCH',
+    path: '/channel_points/custom_rewards/redemptions',
+    description: 'Fulfill or cancel redemptions',
+    query: [
+      { name: 'id', type: 'string', required: true, multiple: true, description: 'Redemption IDs' },
+      BROADCASTER_ID,
+      { name: 'reward_id', type: 'string', required: true, description: 'Reward ID' },
+    ],
+    body: [
+      { name: 'status', type: 'enum', required: true, description: 'New status', options: ['CANCELED', 'FULFILLED'] },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:redemptions'],
+    paginated: false,
+  },
+
+  // Charity
+  {
+    id: 'get-charity-campaign',
+    name: 'Get Charity Campaign',
+    category: 'Charity',
+    method: 'GET',
+    path: '/charity/campaigns',
+    description: 'Get the active charity campaign of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:charity'],
+    paginated: false,
+  },
+
+  // Chat
+  {
+    id: 'get-chatters',
+    name: 'Get Chatters',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/chatters',
+    description: 'Get the users connected to the chat',
+    query: [BROADCASTER_ID, MODERATOR_ID, FIRST, AFTER],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:read:chatters'],
+    paginated: true,
+  },
+  {
+    id: 'get-channel-emotes',
+    name: 'Get Channel Emotes',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/emotes',
+    description: 'Get the custom emotes of a channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'get-global-emotes',
+    name: 'Get Global Emotes',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/emotes/global',
+    description: 'Get the global Twitch emotes',
+    query: [],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'get-channel-chat-badges',
+    name: 'Get Channel Chat Badges',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/badges',
+    description: 'Get the custom chat badges of a channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'get-global-chat-badges',
+    name: 'Get Global Chat Badges',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/badges/global',
+    description: 'Get the global chat badges',
+    query: [],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'get-chat-settings',
+    name: 'Get Chat Settings',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/settings',
+    description: 'Get the chat settings of a channel',
+    query: [
+      BROADCASTER_ID,
+      param(MODERATOR_ID, { required: false, description: 'Moderator ID, to include moderator-only settings' }),
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'update-chat-settings',
+    name: 'Update Chat Settings',
+    category: 'Chat',
+    method: 'PATCH',
+    path: '/chat/settings',
+    description: 'Update the chat settings of a channel',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [
+      { name: 'emote_mode', type: 'boolean', required: false, description: 'Emote-only mode' },
+      { name: 'follower_mode', type: 'boolean', required: false, description: 'Follower-only mode' },
+      { name: 'follower_mode_duration', type: 'integer', required: false, description: 'Minutes a user must follow (0-129600)' },
+      { name: 'slow_mode', type: 'boolean', required: false, description: 'Slow mode' },
+      { name: 'slow_mode_wait_time', type: 'integer', required: false, description: 'Seconds between messages (3-120)' },
+      { name: 'subscriber_mode', type: 'boolean', required: false, description: 'Subscriber-only mode' },
+      { name: 'unique_chat_mode', type: 'boolean', required: false, description: 'Unique messages only' },
+      { name: 'non_moderator_chat_delay', type: 'boolean', required: false, description: 'Delay non-moderator messages' },
+      { name: 'non_moderator_chat_delay_duration', type: 'integer', required: false, description: 'Delay in seconds (2, 4 or 6)' },
+    ],
+    tokenType: 'user',
+    scopes: ['moderator:manage:chat_settings'],
+    paginated: false,
+  },
+  {
+    id: 'send-chat-message',
+    name: 'Send Chat Message',
+    category: 'Chat',
+    method: 'POST',
+    path: '/chat/messages',
+    description: 'Send a message to a chat',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'sender_id', type: 'string', required: true, description: 'User ID of the sender, must match the token' },
+      { name: 'message', type: 'string', required: true, description: 'Message (max 500 characters)' },
+      { name: 'reply_parent_message_id', type: 'string', required: false, description: 'ID of the message to reply to' },
+    ],
+    tokenType: 'user',
+    scopes: ['user:write:chat'],
+    paginated: false,
+  },
+  {
+    id: 'send-chat-announcement',
+    name: 'Send Chat Announcement',
+    category: 'Chat',
+    method: 'POST',
+    path: '/chat/announcements',
+    description: 'Send a highlighted announcement to a chat',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [
+      { name: 'message', type: 'string', required: true, description: 'Announcement (max 500 characters)' },
+      { name: 'color', type: 'enum', required: false, description: 'Highlight color', options: ['blue', 'green', 'orange', 'purple', 'primary'] },
+    ],
+    tokenType: 'user',
+    scopes: ['moderator:manage:announcements'],
+    paginated: false,
+  },
+  {
+    id: 'send-shoutout',
+    name: 'Send a Shoutout',
+    category: 'Chat',
+    method: 'POST',
+    path: '/chat/shoutouts',
+    description: 'Send a shoutout to another broadcaster',
+    query: [
+      { name: 'from_broadcaster_id', type: 'string', required: true, description: 'Broadcaster sending the shoutout' },
+      { name: 'to_broadcaster_id', type: 'string', required: true, description: 'Broadcaster receiving the shoutout' },
+      MODERATOR_ID,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:manage:shoutouts'],
+    paginated: false,
+  },
+  {
+    id: 'get-user-chat-color',
+    name: 'Get User Chat Color',
+    category: 'Chat',
+    method: 'GET',
+    path: '/chat/color',
+    description: 'Get the chat color of one or more users',
+    query: [{ name: 'user_id', type: 'string', required: true, multiple: true, description: 'User IDs' }],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'update-user-chat-color',
+    name: 'Update User Chat Color',
+    category: 'Chat',
+    method: 'PUT',
+    path: '/chat/color',
+    description: 'Update the chat color of the user',
+    query: [
+      { name: 'user_id', type: 'string', required: true, description: 'User ID, must match the token' },
+      { name: 'color', type: 'string', required: true, description: 'Named color (e.g. blue) or hex code for Turbo/Prime users' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:manage:chat_color'],
+    paginated: false,
+  },
+
+  // Clips
+  {
+    id: 'create-clip',
+    name: 'Create Clip',
+    category: 'Clips',
+    method: 'POST',
+    path: '/clips',
+    description: 'Create a clip of the live stream',
+    query: [
+      BROADCASTER_ID,
+      { name: 'has_delay', type: 'boolean', required: false, description: 'Add a delay before capturing' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['clips:edit'],
+    paginated: false,
+  },
+  {
+    id: 'get-clips',
+    name: 'Get Clips',
+    category: 'Clips',
+    method: 'GET',
+    path: '/clips',
+    description: 'Get clips by broadcaster, game or ID (one of them is required)',
+    query: [
+      param(BROADCASTER_ID, { required: false }),
+      { name: 'game_id', type: 'string', required: false, description: 'Game ID' },
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Clip IDs' },
+      { name: 'started_at', type: 'datetime', required: false, description: 'Start of the date range (RFC3339)' },
+      { name: 'ended_at', type: 'datetime', required: false, description: 'End of the date range (RFC3339)' },
+      { name: 'is_featured', type: 'boolean', required: false, description: 'Only featured clips' },
+      FIRST,
+      AFTER,
+      BEFORE,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+
+  // Games
+  {
+    id: 'get-top-games',
+    name: 'Get Top Games',
+    category: 'Games',
+    method: 'GET',
+    path: '/games/top',
+    description: 'Get the most watched games and categories',
+    query: [FIRST, AFTER, BEFORE],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+  {
+    id: 'get-games',
+    name: 'Get Games',
+    category: 'Games',
+    method: 'GET',
+    path: '/games',
+    description: 'Get games and categories by ID, name or IGDB ID',
+    query: [
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Game IDs' },
+      { name: 'name', type: 'string', required: false, multiple: true, description: 'Exact game names' },
+      { name: 'igdb_id', type: 'string', required: false, multiple: true, description: 'IGDB IDs' },
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+
+  // Goals
+  {
+    id: 'get-creator-goals',
+    name: 'Get Creator Goals',
+    category: 'Goals',
+    method: 'GET',
+    path: '/goals',
+    description: 'Get the active creator goals of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:goals'],
+    paginated: false,
+  },
+
+  // Hype Train
+  {
+    id: 'get-hype-train-status',
+    name: 'Get Hype Train Status',
+    category: 'Hype Train',
+    method: 'GET',
+    path: '/hypetrain/status',
+    description: 'Get the current Hype Train and all-time records of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:hype_train'],
+    paginated: false,
+  },
+
+  // Moderation
+  {
+    id: 'get-banned-users',
+    name: 'Get Banned Users',
+    category: 'Moderation',
+    method: 'GET',
+    path: '/moderation/banned',
+    description: 'Get the users banned or timed out in the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: false, multiple: true, description: 'Only check these users' },
+      FIRST,
+      AFTER,
+      BEFORE,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderation:read'],
+    paginated: true,
+  },
+  {
+    id: 'ban-user',
+    name: 'Ban User',
+    category: 'Moderation',
+    method: 'POST',
+    path: '/moderation/bans',
+    description: 'Ban or time out a user',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [
+      { name: 'data', type: 'json', required: true, description: '{ "user_id": "...", "duration": 600, "reason": "..." } (omit duration to ban)' },
+    ],
+    tokenType: 'user',
+    scopes: ['moderator:manage:banned_users'],
+    paginated: false,
+  },
+  {
+    id: 'unban-user',
+    name: 'Unban User',
+    category: 'Moderation',
+    method: 'DELETE',
+    path: '/moderation/bans',
+    description: 'Remove a ban or timeout',
+    query: [
+      BROADCASTER_ID,
+      MODERATOR_ID,
+      { name: 'user_id', type: 'string', required: true, description: 'User to unban' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:manage:banned_users'],
+    paginated: false,
+  },
+  {
+    id: 'warn-chat-user',
+    name: 'Warn Chat User',
+    category: 'Moderation',
+    method: 'POST',
+    path: '/moderation/warnings',
+    description: 'Warn a user in chat',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [
+      { name: 'data', type: 'json', required: true, description: '{ "user_id": "...", "reason": "..." }' },
+    ],
+    tokenType: 'user',
+    scopes: ['moderator:manage:warnings'],
+    paginated: false,
+  },
+  {
+    id: 'get-blocked-terms',
+    name: 'Get Blocked Terms',
+    category: 'Moderation',
+    method: 'GET',
+    path: '/moderation/blocked_terms',
+    description: 'Get the blocked terms of the channel',
+    query: [BROADCASTER_ID, MODERATOR_ID, FIRST, AFTER],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:read:blocked_terms'],
+    paginated: true,
+  },
+  {
+    id: 'add-blocked-term',
+    name: 'Add Blocked Term',
+    category: 'Moderation',
+    method: 'POST',
+    path: '/moderation/blocked_terms',
+    description: 'Add a word or phrase to the blocked terms',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [
+      { name: 'text', type: 'string', required: true, description: 'Term to block (2-500 characters, * as wildcard)' },
+    ],
+    tokenType: 'user',
+    scopes: ['moderator:manage:blocked_terms'],
+    paginated: false,
+  },
+  {
+    id: 'delete-chat-messages',
+    name: 'Delete Chat Messages',
+    category: 'Moderation',
+    method: 'DELETE',
+    path: '/moderation/chat',
+    description: 'Delete one message, or clear the chat',
+    query: [
+      BROADCASTER_ID,
+      MODERATOR_ID,
+      { name: 'message_id', type: 'string', required: false, description: 'Message to delete (omit to clear the chat)' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:manage:chat_messages'],
+    paginated: false,
+  },
+  {
+    id: 'get-moderators',
+    name: 'Get Moderators',
+    category: 'Moderation',
+    method: 'GET',
+    path: '/moderation/moderators',
+    description: 'Get the moderators of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: false, multiple: true, description: 'Only check these users' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderation:read'],
+    paginated: true,
+  },
+  {
+    id: 'add-channel-moderator',
+    name: 'Add Channel Moderator',
+    category: 'Moderation',
+    method: 'POST',
+    path: '/moderation/moderators',
+    description: 'Make a user a moderator of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: true, description: 'User to add as moderator' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:moderators'],
+    paginated: false,
+  },
+  {
+    id: 'remove-channel-moderator',
+    name: 'Remove Channel Moderator',
+    category: 'Moderation',
+    method: 'DELETE',
+    path: '/moderation/moderators',
+    description: 'Remove a moderator from the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: true, description: 'Moderator to remove' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:moderators'],
+    paginated: false,
+  },
+  {
+    id: 'get-shield-mode-status',
+    name: 'Get Shield Mode Status',
+    category: 'Moderation',
+    method: 'GET',
+    path: '/moderation/shield_mode',
+    description: 'Get whether Shield Mode is active',
+    query: [BROADCASTER_ID, MODERATOR_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['moderator:read:shield_mode'],
+    paginated: false,
+  },
+
+  // Polls
+  {
+    id: 'get-polls',
+    name: 'Get Polls',
+    category: 'Polls',
+    method: 'GET',
+    path: '/polls',
+    description: 'Get the polls of the channel from the last 90 days',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Poll IDs' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:polls'],
+    paginated: true,
+  },
+  {
+    id: 'create-poll',
+    name: 'Create Poll',
+    category: 'Polls',
+    method: 'POST',
+    path: '/polls',
+    description: 'Start a poll in the channel',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'title', type: 'string', required: true, description: 'Question (max 60 characters)' },
+      { name: 'choices', type: 'json', required: true, description: 'Array of 2-5 choices: [{ "title": "..." }]' },
+      { name: 'duration', type: 'integer', required: true, description: 'Duration in seconds (15-1800)' },
+      { name: 'channel_points_voting_enabled', type: 'boolean', required: false, description: 'Allow extra votes with Channel Points' },
+      { name: 'channel_points_per_vote', type: 'integer', required: false, description: 'Channel Points per extra vote' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:polls'],
+    paginated: false,
+  },
+  {
+    id: 'end-poll',
+    name: 'End Poll',
+    category: 'Polls',
+    method: 'PATCH',
+    path: '/polls',
+    description: 'End an active poll',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: true, description: 'Poll ID' },
+      { name: 'status', type: 'enum', required: true, description: 'TERMINATED shows the results, ARCHIVED hides them', options: ['TERMINATED', 'ARCHIVED'] },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:polls'],
+    paginated: false,
+  },
+
+  // Predictions
+  {
+    id: 'get-predictions',
+    name: 'Get Predictions',
+    category: 'Predictions',
+    method: 'GET',
+    path: '/predictions',
+    description: 'Get the predictions of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Prediction IDs' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:predictions'],
+    paginated: true,
+  },
+  {
+    id: 'create-prediction',
+    name: 'Create Prediction',
+    category: 'Predictions',
+    method: 'POST',
+    path: '/predictions',
+    description: 'Start a prediction in the channel',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'title', type: 'string', required: true, description: 'Question (max 45 characters)' },
+      { name: 'outcomes', type: 'json', required: true, description: 'Array of 2-10 outcomes: [{ "title": "..." }]' },
+      { name: 'prediction_window', type: 'integer', required: true, description: 'Seconds viewers can predict (30-1800)' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:predictions'],
+    paginated: false,
+  },
+  {
+    id: 'end-prediction',
+    name: 'End Prediction',
+    category: 'Predictions',
+    method: 'PATCH',
+    path: '/predictions',
+    description: 'Lock, resolve or cancel a prediction',
+    query: [],
+    body: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: true, description: 'Prediction ID' },
+      { name: 'status', type: 'enum', required: true, description: 'New status', options: ['RESOLVED', 'CANCELED', 'LOCKED'] },
+      { name: 'winning_outcome_id', type: 'string', required: false, description: 'Winning outcome (required to resolve)' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:predictions'],
+    paginated: false,
+  },
+
+  // Raids
+  {
+    id: 'start-raid',
+    name: 'Start a Raid',
+    category: 'Raids',
+    method: 'POST',
+    path: '/raids',
+    description: 'Raid another channel',
+    query: [
+      { name: 'from_broadcaster_id', type: 'string', required: true, description: 'Broadcaster starting the raid' },
+      { name: 'to_broadcaster_id', type: 'string', required: true, description: 'Broadcaster to raid' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:raids'],
+    paginated: false,
+  },
+  {
+    id: 'cancel-raid',
+    name: 'Cancel a Raid',
+    category: 'Raids',
+    method: 'DELETE',
+    path: '/raids',
+    description: 'Cancel a pending raid',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:raids'],
+    paginated: false,
+  },
+
+  // Schedule
+  {
+    id: 'get-channel-stream-schedule',
+    name: 'Get Channel Stream Schedule',
+    category: 'Schedule',
+    method: 'GET',
+    path: '/schedule',
+    description: 'Get the stream schedule of a channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Segment IDs' },
+      { name: 'start_time', type: 'datetime', required: false, description: 'Start of the schedule (RFC3339)' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+
+  // Search
+  {
+    id: 'search-categories',
+    name: 'Search Categories',
+    category: 'Search',
+    method: 'GET',
+    path: '/search/categories',
+    description: 'Search games and categories by name',
+    query: [
+      { name: 'query', type: 'string', required: true, description: 'Search text' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+  {
+    id: 'search-channels',
+    name: 'Search Channels',
+    category: 'Search',
+    method: 'GET',
+    path: '/search/channels',
+    description: 'Search channels by name',
+    query: [
+      { name: 'query', type: 'string', required: true, description: 'Search text' },
+      { name: 'live_only', type: 'boolean', required: false, description: 'Only live channels' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+
+  // Streams
+  {
+    id: 'get-streams',
+    name: 'Get Streams',
+    category: 'Streams',
+    method: 'GET',
+    path: '/streams',
+    description: 'Get live streams, by user, game or language',
+    query: [
+      { name: 'user_id', type: 'string', required: false, multiple: true, description: 'User IDs' },
+      { name: 'user_login', type: 'string', required: false, multiple: true, description: 'User logins' },
+      { name: 'game_id', type: 'string', required: false, multiple: true, description: 'Game IDs' },
+      { name: 'type', type: 'enum', required: false, description: 'Stream type', options: ['all', 'live'] },
+      { name: 'language', type: 'string', required: false, multiple: true, description: 'ISO 639-1 language codes' },
+      FIRST,
+      AFTER,
+      BEFORE,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+  {
+    id: 'get-followed-streams',
+    name: 'Get Followed Streams',
+    category: 'Streams',
+    method: 'GET',
+    path: '/streams/followed',
+    description: 'Get the live streams of channels the user follows',
+    query: [
+      { name: 'user_id', type: 'string', required: true, description: 'User ID, must match the token' },
+      FIRST,
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:read:follows'],
+    paginated: true,
+  },
+  {
+    id: 'get-stream-key',
+    name: 'Get Stream Key',
+    category: 'Streams',
+    method: 'GET',
+    path: '/streams/key',
+    description: 'Get the stream key of the channel',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:stream_key'],
+    paginated: false,
+  },
+  {
+    id: 'create-stream-marker',
+    name: 'Create Stream Marker',
+    category: 'Streams',
+    method: 'POST',
+    path: '/streams/markers',
+    description: 'Add a marker to the live stream',
+    query: [],
+    body: [
+      { name: 'user_id', type: 'string', required: true, description: 'Broadcaster ID' },
+      { name: 'description', type: 'string', required: false, description: 'Description (max 140 characters)' },
+    ],
+    tokenType: 'user',
+    scopes: ['channel:manage:broadcast'],
+    paginated: false,
+  },
+
+  // Subscriptions
+  {
+    id: 'get-broadcaster-subscriptions',
+    name: 'Get Broadcaster Subscriptions',
+    category: 'Subscriptions',
+    method: 'GET',
+    path: '/subscriptions',
+    description: 'Get the subscribers of the channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: false, multiple: true, description: 'Only check these users' },
+      FIRST,
+      AFTER,
+      BEFORE,
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:read:subscriptions'],
+    paginated: true,
+  },
+  {
+    id: 'check-user-subscription',
+    name: 'Check User Subscription',
+    category: 'Subscriptions',
+    method: 'GET',
+    path: '/subscriptions/user',
+    description: 'Check whether the user subscribes to a channel',
+    query: [
+      BROADCASTER_ID,
+      { name: 'user_id', type: 'string', required: true, description: 'User ID, must match the token' },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:read:subscriptions'],
+    paginated: false,
+  },
+
+  // Teams
+  {
+    id: 'get-channel-teams',
+    name: 'Get Channel Teams',
+    category: 'Teams',
+    method: 'GET',
+    path: '/teams/channel',
+    description: 'Get the teams a channel belongs to',
+    query: [BROADCASTER_ID],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'get-teams',
+    name: 'Get Teams',
+    category: 'Teams',
+    method: 'GET',
+    path: '/teams',
+    description: 'Get a team by name or ID',
+    query: [
+      { name: 'name', type: 'string', required: false, description: 'Team name' },
+      { name: 'id', type: 'string', required: false, description: 'Team ID' },
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+
+  // Users
+  {
+    id: 'get-users',
+    name: 'Get Users',
+    category: 'Users',
+    method: 'GET',
+    path: '/users',
+    description: 'Get users by ID or login (the token user if none given)',
+    query: [
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'User IDs' },
+      { name: 'login', type: 'string', required: false, multiple: true, description: 'User logins' },
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+  {
+    id: 'update-user',
+    name: 'Update User',
+    category: 'Users',
+    method: 'PUT',
+    path: '/users',
+    description: 'Update the description of the user',
+    query: [{ name: 'description', type: 'string', required: false, description: 'New description (max 300 characters)' }],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:edit'],
+    paginated: false,
+  },
+  {
+    id: 'get-user-block-list',
+    name: 'Get User Block List',
+    category: 'Users',
+    method: 'GET',
+    path: '/users/blocks',
+    description: 'Get the users the broadcaster blocked',
+    query: [BROADCASTER_ID, FIRST, AFTER],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:read:blocked_users'],
+    paginated: true,
+  },
+  {
+    id: 'block-user',
+    name: 'Block User',
+    category: 'Users',
+    method: 'PUT',
+    path: '/users/blocks',
+    description: 'Block a user',
+    query: [
+      { name: 'target_user_id', type: 'string', required: true, description: 'User to block' },
+      { name: 'source_context', type: 'enum', required: false, description: 'Where the harassment happened', options: ['chat', 'whisper'] },
+      { name: 'reason', type: 'enum', required: false, description: 'Reason', options: ['harassment', 'spam', 'other'] },
+    ],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:manage:blocked_users'],
+    paginated: false,
+  },
+  {
+    id: 'unblock-user',
+    name: 'Unblock User',
+    category: 'Users',
+    method: 'DELETE',
+    path: '/users/blocks',
+    description: 'Unblock a user',
+    query: [{ name: 'target_user_id', type: 'string', required: true, description: 'User to unblock' }],
+    body: [],
+    tokenType: 'user',
+    scopes: ['user:manage:blocked_users'],
+    paginated: false,
+  },
+
+  // Videos
+  {
+    id: 'get-videos',
+    name: 'Get Videos',
+    category: 'Videos',
+    method: 'GET',
+    path: '/videos',
+    description: 'Get videos by ID, user or game (one of them is required)',
+    query: [
+      { name: 'id', type: 'string', required: false, multiple: true, description: 'Video IDs' },
+      { name: 'user_id', type: 'string', required: false, description: 'User ID' },
+      { name: 'game_id', type: 'string', required: false, description: 'Game ID' },
+      { name: 'language', type: 'string', required: false, description: 'ISO 639-1 language code' },
+      { name: 'period', type: 'enum', required: false, description: 'Publish period', options: ['all', 'day', 'month', 'week'] },
+      { name: 'sort', type: 'enum', required: false, description: 'Sort order', options: ['time', 'trending', 'views'] },
+      { name: 'type', type: 'enum', required: false, description: 'Video type', options: ['all', 'archive', 'highlight', 'upload'] },
+      FIRST,
+      AFTER,
+      BEFORE,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+  {
+    id: 'delete-videos',
+    name: 'Delete Videos',
+    category: 'Videos',
+    method: 'DELETE',
+    path: '/videos',
+    description: 'Delete videos of the channel',
+    query: [{ name: 'id', type: 'string', required: true, multiple: true, description: 'Video IDs (max 5)' }],
+    body: [],
+    tokenType: 'user',
+    scopes: ['channel:manage:videos'],
+    paginated: false,
+  },
+
+  // Whispers
+  {
+    id: 'send-whisper',
+    name: 'Send Whisper',
+    category: 'Whispers',
+    method: 'POST',
+    path: '/whispers',
+    description: 'Send a whisper to a user',
+    query: [
+      { name: 'from_user_id', type: 'string', required: true, description: 'User ID of the sender, must match the token' },
+      { name: 'to_user_id', type: 'string', required: true, description: 'User ID of the recipient' },
+    ],
+    body: [
+      { name: 'message', type: 'string', required: true, description: 'Message (max 500 characters for new recipients)' },
+    ],
+    tokenType: 'user',
+    scopes: ['user:manage:whispers'],
+    paginated: false,
+  },
+
+  // EventSub
+  {
+    id: 'get-eventsub-subscriptions',
+    name: 'Get EventSub Subscriptions',
+    category: 'EventSub',
+    method: 'GET',
+    path: '/eventsub/subscriptions',
+    description: 'Get the EventSub subscriptions of the app (webhooks) or of the user (WebSockets)',
+    query: [
+      { name: 'status', type: 'string', required: false, description: 'Subscription status, e.g. enabled' },
+      { name: 'type', type: 'string', required: false, description: 'Subscription type, e.g. channel.follow' },
+      { name: 'user_id', type: 'string', required: false, description: 'Subscriptions for this user' },
+      AFTER,
+    ],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: true,
+  },
+  {
+    id: 'delete-eventsub-subscription',
+    name: 'Delete EventSub Subscription',
+    category: 'EventSub',
+    method: 'DELETE',
+    path: '/eventsub/subscriptions',
+    description: 'Delete an EventSub subscription',
+    query: [{ name: 'id', type: 'string', required: true, description: 'Subscription ID' }],
+    body: [],
+    tokenType: 'any',
+    scopes: [],
+    paginated: false,
+  },
+];
@@ -1,6 +1,29 @@
+import { once } from 'events';
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import prisma from '../config/database';
+import { sendHelixRequest, buildHelixUrl, HelixMethod } from '../services/helixService';
+import { withTokenRefreshRetry } from '../services/tokenRefreshService';
+import {
+  API_LOG_INCLUDE,
+  parseApiLogFilters,
+  getUnparsedApiLogFilters,
+  buildApiLogWhere,
+  formatApiLog,
+  iterateApiLogs,
+  pruneApiLogs,
+} from '../services/apiLogService';
+import {
+  ApiLogExportFormat,
+  EXPORT_FORMATS,
+  getExportHeader,
+  formatExportedLog,
+  getExportFooter,
+} from '../services/apiLogExportService';
+import { getApiLogAnalytics } from '../services/apiLogAnalyticsService';
+import { BUILT_IN_RULES, REDACTED, SENSITIVE_KEYS, redactApiLogBodies } from '../services/logRedactionService';
+
+const HELIX_METHODS: HelixMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
 
 /**
  * Create a new API log entry
@@ -14,7 +37,13 @@ export async function createApiLog(req: Request, res: Response): Promise<void> {
     }
 
     const userId = req.user!.userId;
-    const { tokenId, method, endpoint, status, requestBody, responseBody, error } = req.body;
+    const { tokenId, method, endpoint, status, error } = req.body;
+    const { requestBody, responseBody, redactedFields } = await redactApiLogBodies(
+      userId,
+      endpoint,
+      req.body.requestBody || null,
+      req.body.responseBody || null
+    );
 
     const apiLog = await prisma.apiLog.create({
       data: {
@@ -26,6 +55,7 @@ export async function createApiLog(req: Request, res: Response): Promise<void> {
         requestBody: requestBody ? JSON.stringify(requestBody) : null,
         responseBody: responseBody ? JSON.stringify(responseBody) : null,
         error: error || null,
+        redactedFields,
       },
     });
 
@@ -36,6 +66,7 @@ export async function createApiLog(req: Request, res: Response): Promise<void> {
         method: apiLog.method,
         endpoint: apiLog.endpoint,
         status: apiLog.status,
+        redactedFields: apiLog.redactedFields,
         createdAt: apiLog.createdAt.toISOString(),
       },
     });
@@ -49,46 +80,33 @@ export async function createApiLog(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Get all API logs for the authenticated user
+ * Get the API logs of the authenticated user, optionally filtered
  */
 export async function getAllApiLogs(req: Request, res: Response): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.user!.userId;
     const { limit = '50', offset = '0' } = req.query;
+    const where = buildApiLogWhere(userId, parseApiLogFilters(req.query));
 
     const logs = await prisma.apiLog.findMany({
-      where: { userId },
-      include: {
-        token: {
-          select: {
-            id: true,
-            name: true,
-            tokenType: true,
-          },
-        },
-      },
+      where,
+      include: API_LOG_INCLUDE,
       orderBy: { createdAt: 'desc' },
       take: parseInt(limit as string),
       skip: parseInt(offset as string),
     });
 
     const total = await prisma.apiLog.count({
-      where: { userId },
-    });
-
-    const formattedLogs = logs.map((log) => ({
-      id: log.id,
-      tokenId: log.tokenId,
-      tokenName: log.token?.name || null,
-      tokenType: log.token?.tokenType || null,
-      method: log.method,
-      endpoint: log.endpoint,
-      status: log.status,
-      requestBody: log.requestBody ? JSON.parse(log.requestBody) : null,
-      responseBody: log.responseBody ? JSON.parse(log.responseBody) : null,
-      error: log.error,
-      createdAt: log.createdAt.toISOString(),
-    }));
+      where,
+    });
+
+    const formattedLogs = logs.map(formatApiLog);
 
     res.json({
       logs: formattedLogs,
@@ -105,6 +123,91 @@ export async function getAllApiLogs(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Export the API logs matching the filters as HAR, NDJSON or CSV.
+ * The file is streamed a batch of logs at a time.
+ */
+export async function exportApiLogs(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const format = req.query.format as ApiLogExportFormat;
+    const where = buildApiLogWhere(userId, parseApiLogFilters(req.query));
+    const { contentType, extension } = EXPORT_FORMATS[format];
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="api-logs-${new Date().toISOString().slice(0, 10)}.${extension}"`
+    );
+
+    // Wait for the client to read when its buffer is full
+    const write = async (chunk: string) => {
+      if (!res.write(chunk)) {
+        await once(res, 'drain');
+      }
+    };
+
+    await write(getExportHeader(format));
+    let isFirst = true;
+    for await (const log of iterateApiLogs(where)) {
+      if (res.destroyed) {
+        return;
+      }
+      await write(formatExportedLog(format, log, isFirst));
+      isFirst = false;
+    }
+    await write(getExportFooter(format));
+    res.end();
+  } catch (error: any) {
+    console.error('Export API logs error:', error);
+    // The file is incomplete, close the connection so it is not mistaken for a full export
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to export API logs',
+    });
+  }
+}
+
+/**
+ * Get usage analytics of the API logs: calls by day, endpoint, token and status class
+ */
+export async function getAnalytics(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { days = '7', tokenId } = req.query;
+
+    const analytics = await getApiLogAnalytics(
+      userId,
+      parseInt(days as string),
+      typeof tokenId === 'string' && tokenId !== '' ? tokenId : undefined
+    );
+
+    res.json({ analytics });
+  } catch (error: any) {
+    console.error('Get API log analytics error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve API analytics',
+    });
+  }
+}
+
 /**
  * Get a single API log by ID
  */
@@ -115,15 +218,7 @@ export async function getApiLog(req: Request, res: Response): Promise<void> {
 
     const log = await prisma.apiLog.findUnique({
       where: { id },
-      include: {
-        token: {
-          select: {
-            id: true,
-            name: true,
-            tokenType: true,
-          },
-        },
-      },
+      include: API_LOG_INCLUDE,
     });
 
     if (!log) {
@@ -142,21 +237,7 @@ export async function getApiLog(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const formattedLog = {
-      id: log.id,
-      tokenId: log.tokenId,
-      tokenName: log.token?.name || null,
-      tokenType: log.token?.tokenType || null,
-      method: log.method,
-      endpoint: log.endpoint,
-      status: log.status,
-      requestBody: log.requestBody ? JSON.parse(log.requestBody) : null,
-      responseBody: log.responseBody ? JSON.parse(log.responseBody) : null,
-      error: log.error,
-      createdAt: log.createdAt.toISOString(),
-    };
-
-    res.json({ log: formattedLog });
+    res.json({ log: formatApiLog(log) });
   } catch (error: any) {
     console.error('Get API log error:', error);
     res.status(500).json({
@@ -211,14 +292,31 @@ export async function deleteApiLog(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Delete all API logs for the authenticated user
+ * Delete the API logs of the authenticated user matching the filters (all without filters)
  */
 export async function deleteAllApiLogs(req: Request, res: Response): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.user!.userId;
+    const filters = parseApiLogFilters(req.query);
+
+    // A dropped filter would delete more logs than asked for
+    const unparsed = getUnparsedApiLogFilters(req.query, filters);
+    if (unparsed.length > 0) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: `Invalid filters: ${unparsed.join(', ')}`,
+      });
+      return;
+    }
 
     const result = await prisma.apiLog.deleteMany({
-      where: { userId },
+      where: buildApiLogWhere(userId, filters),
     });
 
     res.json({
@@ -233,3 +331,272 @@ export async function deleteAllApiLogs(req: Request, res: Response): Promise<voi
     });
   }
 }
+
+/**
+ * Get the API log retention policy of the authenticated user
+ */
+export async function getLogRetention(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { logRetentionDays: true, logRetentionMaxRows: true },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'User not found',
+      });
+      return;
+    }
+
+    res.json({
+      retention: {
+        maxAgeDays: user.logRetentionDays,
+        maxRows: user.logRetentionMaxRows,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get log retention error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve log retention policy',
+    });
+  }
+}
+
+/**
+ * Update the API log retention policy of the authenticated user.
+ * Logs outside the new policy are pruned right away.
+ */
+export async function updateLogRetention(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { maxAgeDays, maxRows } = req.body;
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(maxAgeDays !== undefined && { logRetentionDays: maxAgeDays === null ? null : Number(maxAgeDays) }),
+        ...(maxRows !== undefined && { logRetentionMaxRows: maxRows === null ? null : Number(maxRows) }),
+      },
+      select: { logRetentionDays: true, logRetentionMaxRows: true },
+    });
+
+    const pruned = await pruneApiLogs(userId, user);
+
+    res.json({
+      message: 'Log retention policy updated successfully',
+      retention: {
+        maxAgeDays: user.logRetentionDays,
+        maxRows: user.logRetentionMaxRows,
+      },
+      pruned,
+    });
+  } catch (error: any) {
+    console.error('Update log retention error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update log retention policy',
+    });
+  }
+}
+
+/**
+ * Get the redaction rules applied to the API logs of the authenticated user
+ */
+export async function getLogRedaction(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { logRedactionPaths: true },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'User not found',
+      });
+      return;
+    }
+
+    res.json({
+      redaction: {
+        paths: user.logRedactionPaths,
+        builtInRules: BUILT_IN_RULES,
+        sensitiveKeys: [...SENSITIVE_KEYS],
+      },
+    });
+  } catch (error: any) {
+    console.error('Get log redaction error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve log redaction rules',
+    });
+  }
+}
+
+/**
+ * Update the JSON paths redacted from the API logs of the authenticated user.
+ * They apply to the logs written from now on.
+ */
+export async function updateLogRedaction(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const paths: string[] = [...new Set<string>(req.body.paths)];
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { logRedactionPaths: paths },
+      select: { logRedactionPaths: true },
+    });
+
+    res.json({
+      message: 'Log redaction rules updated successfully',
+      redaction: {
+        paths: user.logRedactionPaths,
+        builtInRules: BUILT_IN_RULES,
+        sensitiveKeys: [...SENSITIVE_KEYS],
+      },
+    });
+  } catch (error: any) {
+    console.error('Update log redaction error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update log redaction rules',
+    });
+  }
+}
+
+/**
+ * Send a logged Helix call again, with its token or another one.
+ * The replay is logged as a new proxy call.
+ */
+export async function replayApiLog(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const log = await prisma.apiLog.findUnique({
+      where: { id },
+    });
+
+    if (!log) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'API log not found',
+      });
+      return;
+    }
+
+    if (log.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to replay this log',
+      });
+      return;
+    }
+
+    // Token and OAuth calls are logged with their full URL and cannot be replayed
+    const method = log.method.toUpperCase() as HelixMethod;
+    if (!HELIX_METHODS.includes(method) || !buildHelixUrl(log.endpoint)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Only Helix calls can be replayed',
+      });
+      return;
+    }
+
+    // Redacted values would be sent as the marker itself (e.g. an EventSub secret of "[REDACTED]").
+    // Redacted response fields do not matter, the response is not part of the replay.
+    if (
+      log.redactedFields.some((field) => field.startsWith('requestBody')) ||
+      log.endpoint.includes(REDACTED) ||
+      log.requestBody?.includes(REDACTED)
+    ) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This call has redacted values and cannot be replayed, send it again from the API Tester',
+      });
+      return;
+    }
+
+    const tokenId = req.body.tokenId || log.tokenId;
+    if (!tokenId) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'The logged call has no token, choose one to replay it',
+      });
+      return;
+    }
+
+    const token = await prisma.savedToken.findUnique({
+      where: { id: tokenId },
+      include: { twitchConfig: true },
+    });
+
+    if (!token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    if (token.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to use this token',
+      });
+      return;
+    }
+
+    if (token.revokedAt) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This token has been revoked',
+      });
+      return;
+    }
+
+    const { result, refreshed } = await withTokenRefreshRetry(token, (accessToken) => sendHelixRequest({
+      userId,
+      tokenId: token.id,
+      clientId: token.twitchConfig.clientId,
+      accessToken,
+      method,
+      path: log.endpoint,
+      body: log.requestBody ? JSON.parse(log.requestBody) : undefined,
+    }));
+
+    res.json({ ...result, tokenRefreshed: refreshed, replayOf: log.id });
+  } catch (error: any) {
+    console.error('Replay API log error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: error.message || 'Failed to replay API log',
+    });
+  }
+}
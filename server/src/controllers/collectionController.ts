@@ -0,0 +1,528 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+/**
+ * Convert an optional request value for a nullable Json column.
+ * undefined leaves the column untouched and null clears it.
+ */
+function toJsonInput(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return Prisma.DbNull;
+  return value as Prisma.InputJsonValue;
+}
+
+/**
+ * Check that a token exists and belongs to the user
+ */
+async function isOwnedToken(tokenId: string, userId: string): Promise<boolean> {
+  const token = await prisma.savedToken.findUnique({
+    where: { id: tokenId },
+    select: { userId: true },
+  });
+
+  return !!token && token.userId === userId;
+}
+
+/**
+ * Get all request collections of the authenticated user with their requests
+ */
+export async function getAllCollections(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const collections = await prisma.requestCollection.findMany({
+      where: { userId },
+      include: {
+        requests: {
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({ collections });
+  } catch (error) {
+    console.error('Get all collections error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve request collections',
+    });
+  }
+}
+
+/**
+ * Create a new request collection at the end of the list
+ */
+export async function createCollection(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { name } = req.body;
+
+    const last = await prisma.requestCollection.aggregate({
+      where: { userId },
+      _max: { position: true },
+    });
+
+    const collection = await prisma.requestCollection.create({
+      data: {
+        userId,
+        name,
+        position: (last._max.position ?? -1) + 1,
+      },
+      include: { requests: true },
+    });
+
+    res.status(201).json({
+      message: 'Collection created successfully',
+      collection,
+    });
+  } catch (error) {
+    console.error('Create collection error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to create request collection',
+    });
+  }
+}
+
+/**
+ * Rename a request collection
+ */
+export async function updateCollection(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { name } = req.body;
+
+    const existingCollection = await prisma.requestCollection.findUnique({
+      where: { id },
+    });
+
+    if (!existingCollection) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Collection not found',
+      });
+      return;
+    }
+
+    if (existingCollection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this collection',
+      });
+      return;
+    }
+
+    const collection = await prisma.requestCollection.update({
+      where: { id },
+      data: { name },
+      include: {
+        requests: {
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+    });
+
+    res.json({
+      message: 'Collection updated successfully',
+      collection,
+    });
+  } catch (error) {
+    console.error('Update collection error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update request collection',
+    });
+  }
+}
+
+/**
+ * Delete a request collection and its saved requests
+ */
+export async function deleteCollection(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const existingCollection = await prisma.requestCollection.findUnique({
+      where: { id },
+    });
+
+    if (!existingCollection) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Collection not found',
+      });
+      return;
+    }
+
+    if (existingCollection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to delete this collection',
+      });
+      return;
+    }
+
+    await prisma.requestCollection.delete({
+      where: { id },
+    });
+
+    res.json({ message: 'Collection deleted successfully' });
+  } catch (error) {
+    console.error('Delete collection error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to delete request collection',
+    });
+  }
+}
+
+/**
+ * Reorder the collections of the authenticated user.
+ * The position of each collection is its index in the ids array.
+ */
+export async function reorderCollections(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const ids: string[] = req.body.ids;
+
+    const ownedCount = await prisma.requestCollection.count({
+      where: { id: { in: ids }, userId },
+    });
+
+    if (ownedCount !== new Set(ids).size || ownedCount !== ids.length) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'ids must list distinct collections that belong to you',
+      });
+      return;
+    }
+
+    await prisma.$transaction(
+      ids.map((id, position) =>
+        prisma.requestCollection.update({
+          where: { id },
+          data: { position },
+        })
+      )
+    );
+
+    res.json({ message: 'Collections reordered successfully' });
+  } catch (error) {
+    console.error('Reorder collections error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to reorder request collections',
+    });
+  }
+}
+
+/**
+ * Save a request at the end of a collection
+ */
+export async function createSavedRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { name, method, path, query, body, tokenId } = req.body;
+
+    const collection = await prisma.requestCollection.findUnique({
+      where: { id },
+    });
+
+    if (!collection) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Collection not found',
+      });
+      return;
+    }
+
+    if (collection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to modify this collection',
+      });
+      return;
+    }
+
+    if (tokenId && !(await isOwnedToken(tokenId, userId))) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    const last = await prisma.savedRequest.aggregate({
+      where: { collectionId: collection.id },
+      _max: { position: true },
+    });
+
+    const savedRequest = await prisma.savedRequest.create({
+      data: {
+        collectionId: collection.id,
+        name,
+        method,
+        path,
+        query: toJsonInput(query),
+        body: toJsonInput(body),
+        tokenId: tokenId || null,
+        position: (last._max.position ?? -1) + 1,
+      },
+    });
+
+    res.status(201).json({
+      message: 'Request saved successfully',
+      request: savedRequest,
+    });
+  } catch (error) {
+    console.error('Create saved request error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to save request',
+    });
+  }
+}
+
+/**
+ * Update a saved request, optionally moving it to the end of another collection
+ */
+export async function updateSavedRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id, requestId } = req.params;
+    const { name, method, path, query, body, tokenId, collectionId } = req.body;
+
+    const existingRequest = await prisma.savedRequest.findUnique({
+      where: { id: requestId },
+      include: { collection: true },
+    });
+
+    if (!existingRequest || existingRequest.collectionId !== id) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Saved request not found',
+      });
+      return;
+    }
+
+    if (existingRequest.collection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this request',
+      });
+      return;
+    }
+
+    if (tokenId && !(await isOwnedToken(tokenId, userId))) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    // Moving to another collection puts the request at its end
+    let position: number | undefined;
+    if (collectionId && collectionId !== id) {
+      const targetCollection = await prisma.requestCollection.findUnique({
+        where: { id: collectionId },
+      });
+
+      if (!targetCollection || targetCollection.userId !== userId) {
+        res.status(404).json({
+          error: 'Not found',
+          message: 'Target collection not found',
+        });
+        return;
+      }
+
+      const last = await prisma.savedRequest.aggregate({
+        where: { collectionId },
+        _max: { position: true },
+      });
+      position = (last._max.position ?? -1) + 1;
+    }
+
+    const savedRequest = await prisma.savedRequest.update({
+      where: { id: requestId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(method !== undefined && { method }),
+        ...(path !== undefined && { path }),
+        query: toJsonInput(query),
+        body: toJsonInput(body),
+        ...(tokenId !== undefined && { tokenId: tokenId || null }),
+        ...(position !== undefined && { collectionId, position }),
+      },
+    });
+
+    res.json({
+      message: 'Request updated successfully',
+      request: savedRequest,
+    });
+  } catch (error) {
+    console.error('Update saved request error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update saved request',
+    });
+  }
+}
+
+/**
+ * Delete a saved request
+ */
+export async function deleteSavedRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id, requestId } = req.params;
+
+    const existingRequest = await prisma.savedRequest.findUnique({
+      where: { id: requestId },
+      include: { collection: true },
+    });
+
+    if (!existingRequest || existingRequest.collectionId !== id) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Saved request not found',
+      });
+      return;
+    }
+
+    if (existingRequest.collection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to delete this request',
+      });
+      return;
+    }
+
+    await prisma.savedRequest.delete({
+      where: { id: requestId },
+    });
+
+    res.json({ message: 'Request deleted successfully' });
+  } catch (error) {
+    console.error('Delete saved request error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to delete saved request',
+    });
+  }
+}
+
+/**
+ * Reorder the requests of a collection.
+ * The position of each request is its index in the ids array.
+ */
+export async function reorderSavedRequests(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const ids: string[] = req.body.ids;
+
+    const collection = await prisma.requestCollection.findUnique({
+      where: { id },
+    });
+
+    if (!collection) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Collection not found',
+      });
+      return;
+    }
+
+    if (collection.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to modify this collection',
+      });
+      return;
+    }
+
+    const inCollectionCount = await prisma.savedRequest.count({
+      where: { id: { in: ids }, collectionId: collection.id },
+    });
+
+    if (inCollectionCount !== new Set(ids).size || inCollectionCount !== ids.length) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'ids must list distinct requests of this collection',
+      });
+      return;
+    }
+
+    await prisma.$transaction(
+      ids.map((requestId, position) =>
+        prisma.savedRequest.update({
+          where: { id: requestId },
+          data: { position },
+        })
+      )
+    );
+
+    res.json({ message: 'Requests reordered successfully' });
+  } catch (error) {
+    console.error('Reorder saved requests error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to reorder saved requests',
+    });
+  }
+}
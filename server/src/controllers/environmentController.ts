@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import prisma from '../config/database';
+
+/**
+ * Get all environments of the authenticated user
+ */
+export async function getAllEnvironments(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const environments = await prisma.environment.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({ environments });
+  } catch (error) {
+    console.error('Get all environments error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve environments',
+    });
+  }
+}
+
+/**
+ * Create a new environment
+ */
+export async function createEnvironment(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { name, variables } = req.body;
+
+    const existingEnvironment = await prisma.environment.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existingEnvironment) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'An environment with this name already exists',
+      });
+      return;
+    }
+
+    const environment = await prisma.environment.create({
+      data: {
+        userId,
+        name,
+        variables: variables || {},
+      },
+    });
+
+    res.status(201).json({
+      message: 'Environment created successfully',
+      environment,
+    });
+  } catch (error) {
+    console.error('Create environment error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to create environment',
+    });
+  }
+}
+
+/**
+ * Update the name or variables of an environment
+ */
+export async function updateEnvironment(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { name, variables } = req.body;
+
+    const existingEnvironment = await prisma.environment.findUnique({
+      where: { id },
+    });
+
+    if (!existingEnvironment) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Environment not found',
+      });
+      return;
+    }
+
+    if (existingEnvironment.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this environment',
+      });
+      return;
+    }
+
+    if (name && name !== existingEnvironment.name) {
+      const duplicate = await prisma.environment.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+
+      if (duplicate) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'An environment with this name already exists',
+        });
+        return;
+      }
+    }
+
+    const environment = await prisma.environment.update({
+      where: { id: existingEnvironment.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(variables !== undefined && { variables }),
+      },
+    });
+
+    res.json({
+      message: 'Environment updated successfully',
+      environment,
+    });
+  } catch (error) {
+    console.error('Update environment error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update environment',
+    });
+  }
+}
+
+/**
+ * Delete an environment
+ */
+export async function deleteEnvironment(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const existingEnvironment = await prisma.environment.findUnique({
+      where: { id },
+    });
+
+    if (!existingEnvironment) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Environment not found',
+      });
+      return;
+    }
+
+    if (existingEnvironment.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to delete this environment',
+      });
+      return;
+    }
+
+    await prisma.environment.delete({
+      where: { id: existingEnvironment.id },
+    });
+
+    res.json({ message: 'Environment deleted successfully' });
+  } catch (error) {
+    console.error('Delete environment error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to delete environment',
+    });
+  }
+}
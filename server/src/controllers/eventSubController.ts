@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import prisma from '../config/database';
+import { decrypt } from '../utils/encryption';
+import {
+  EVENTSUB_HEADERS,
+  MOCK_EVENTSUB_HEADER,
+  verifyEventSubSignature,
+  isStaleEventSubMessage,
+  recordEventSubEvent,
+} from '../services/eventSubService';
+
+/**
+ * Receive EventSub webhook messages from Twitch (public, verified by HMAC signature)
+ */
+export async function handleEventSubCallback(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { webhookId } = req.params;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+    });
+
+    if (!webhook || !webhook.secret) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Webhook not found',
+      });
+      return;
+    }
+
+    const messageId = req.get(EVENTSUB_HEADERS.messageId);
+    const timestamp = req.get(EVENTSUB_HEADERS.messageTimestamp);
+    const signature = req.get(EVENTSUB_HEADERS.messageSignature);
+    const messageType = req.get(EVENTSUB_HEADERS.messageType);
+
+    if (!messageId || !timestamp || !signature || !messageType || !Buffer.isBuffer(req.body)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Missing EventSub headers or body',
+      });
+      return;
+    }
+
+    // Verify the message was sent by Twitch
+    const secret = decrypt(webhook.secret);
+    if (!verifyEventSubSignature(secret, messageId, timestamp, req.body, signature)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Invalid signature',
+      });
+      return;
+    }
+
+    if (isStaleEventSubMessage(timestamp)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Message timestamp is too old',
+      });
+      return;
+    }
+
+    const payload = JSON.parse(req.body.toString('utf8'));
+
+    // Test events are answered and stored like real ones (flagged as tests) but leave the webhook status untouched
+    const isMock = req.get(MOCK_EVENTSUB_HEADER) === 'true';
+
+    switch (messageType) {
+      case 'webhook_callback_verification':
+        if (!isMock) {
+          await prisma.webhook.update({
+            where: { id: webhook.id },
+            data: { status: 'enabled' },
+          });
+        }
+
+        // Twitch expects the raw challenge string back
+        res.status(200).type('text/plain').send(payload.challenge);
+        return;
+
+      case 'revocation':
+        if (await recordEventSubEvent(webhook.id, messageId, messageType, timestamp, payload, isMock) && !isMock) {
+          await prisma.webhook.update({
+            where: { id: webhook.id },
+            data: { status: payload.subscription?.status || 'revoked' },
+          });
+        }
+
+        res.status(204).end();
+        return;
+
+      case 'notification':
+        // Duplicates (Twitch retries) are acknowledged but not stored twice
+        await recordEventSubEvent(webhook.id, messageId, messageType, timestamp, payload, isMock);
+        res.status(204).end();
+        return;
+
+      default:
+        res.status(400).json({
+          error: 'Bad request',
+          message: `Unknown message type: ${messageType}`,
+        });
+    }
+  } catch (error: any) {
+    console.error('EventSub callback error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to process EventSub message',
+    });
+  }
+}
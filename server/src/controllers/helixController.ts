@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import prisma from '../config/database';
+import { HELIX_ENDPOINTS } from '../config/helixEndpoints';
+import { sendHelixRequest, buildHelixUrl } from '../services/helixService';
+import { getTokenRateLimits } from '../services/twitchClient';
+import { withTokenRefreshRetry } from '../services/tokenRefreshService';
+
+/**
+ * Proxy a request to the Helix API using a saved token
+ */
+export async function proxyHelixRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { tokenId, method, path, query, body, allPages, maxPages } = req.body;
+
+    if (!buildHelixUrl(path, query)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Path must be a Helix API path, e.g. /users',
+      });
+      return;
+    }
+
+    const token = await prisma.savedToken.findUnique({
+      where: { id: tokenId },
+      include: { twitchConfig: true },
+    });
+
+    if (!token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    // Ensure the token belongs to the authenticated user
+    if (token.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to use this token',
+      });
+      return;
+    }
+
+    if (token.revokedAt) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This token has been revoked',
+      });
+      return;
+    }
+
+    // The Twitch status is part of the result, the proxy itself succeeded.
+    // Expired user tokens are refreshed and the request retried once
+    const { result, refreshed } = await withTokenRefreshRetry(token, (accessToken) => sendHelixRequest({
+      userId,
+      tokenId: token.id,
+      clientId: token.twitchConfig.clientId,
+      accessToken,
+      method,
+      path,
+      query,
+      body,
+      allPages,
+      maxPages,
+    }));
+
+    res.json({ ...result, tokenRefreshed: refreshed });
+  } catch (error: any) {
+    console.error('Helix proxy error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: error.message || 'Failed to send request to Twitch',
+    });
+  }
+}
+
+/**
+ * Get the current Helix rate-limit bucket of each of the user's tokens
+ */
+export async function getRateLimits(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const tokens = await prisma.savedToken.findMany({
+      where: { userId },
+      select: { id: true, name: true, channelLogin: true, tokenType: true },
+    });
+
+    const buckets = getTokenRateLimits(tokens.map((token) => token.id));
+    const rateLimits = buckets.map((bucket) => {
+      const token = tokens.find((item) => item.id === bucket.tokenId)!;
+      return {
+        tokenId: token.id,
+        name: token.name || token.channelLogin,
+        tokenType: token.tokenType,
+        limit: bucket.limit,
+        remaining: bucket.remaining,
+        resetAt: bucket.resetAt,
+        queued: bucket.queued,
+        updatedAt: bucket.updatedAt,
+      };
+    });
+
+    res.json({ rateLimits });
+  } catch (error: any) {
+    console.error('Get rate limits error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve rate limits',
+    });
+  }
+}
+
+/**
+ * Get the catalog of Helix endpoints supported by the API Tester
+ */
+export async function getHelixEndpoints(req: Request, res: Response): Promise<void> {
+  res.json({ endpoints: HELIX_ENDPOINTS });
+}
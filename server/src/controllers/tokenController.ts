@@ -9,8 +9,11 @@ import {
   pollDeviceToken,
   generateAuthorizationUrl,
   exchangeCodeForToken,
-  refreshAccessToken,
 } from '../services/twitchApiService';
+import { refreshSavedTokenOnce, regenerateSavedAppToken } from '../services/tokenRefreshService';
+import { revokeSavedToken } from '../services/tokenRevocationService';
+import { disconnectEventSubSession } from '../services/eventSubWebSocketService';
+import { formatTokenHealth, validateSavedTokenHealth } from '../services/tokenHealthService';
 
 /**
  * Get all saved tokens for the authenticated user
@@ -42,6 +45,12 @@ export async function getAllTokens(req: Request, res: Response): Promise<void> {
       channelId: token.channelId,
       name: token.name,
       expiresAt: token.expiresAt?.toISOString() || null,
+      lastRefreshedAt: token.lastRefreshedAt?.toISOString() || null,
+      refreshError: token.refreshError,
+      refreshFailedAt: token.refreshFailedAt?.toISOString() || null,
+      keepAlive: token.keepAlive,
+      revokedAt: token.revokedAt?.toISOString() || null,
+      ...formatTokenHealth(token),
       createdAt: token.createdAt.toISOString(),
       updatedAt: token.updatedAt.toISOString(),
       twitchConfig: token.twitchConfig,
@@ -112,6 +121,9 @@ export async function getToken(req: Request, res: Response): Promise<void> {
       channelId: token.channelId,
       name: token.name,
       expiresAt: token.expiresAt?.toISOString() || null,
+      keepAlive: token.keepAlive,
+      revokedAt: token.revokedAt?.toISOString() || null,
+      ...formatTokenHealth(token),
       createdAt: token.createdAt.toISOString(),
       updatedAt: token.updatedAt.toISOString(),
       twitchConfig: token.twitchConfig,
@@ -139,7 +151,7 @@ export async function generateAppToken(req: Request, res: Response): Promise<voi
     }
 
     const userId = req.user!.userId;
-    const { twitchConfigId, name } = req.body;
+    const { twitchConfigId, name, keepAlive } = req.body;
 
     // Get the Twitch config
     const twitchConfig = await prisma.twitchConfig.findUnique({
@@ -169,7 +181,8 @@ export async function generateAppToken(req: Request, res: Response): Promise<voi
     // Generate the app access token from Twitch
     const { accessToken, expiresIn } = await generateAppAccessToken(
       twitchConfig.clientId,
-      clientSecret
+      clientSecret,
+      { userId, source: 'token' }
     );
 
     // Calculate expiration date
@@ -189,6 +202,7 @@ export async function generateAppToken(req: Request, res: Response): Promise<voi
         channelId: null,
         name: name || null,
         expiresAt,
+        keepAlive: keepAlive === true,
       },
       include: {
         twitchConfig: {
@@ -211,6 +225,7 @@ export async function generateAppToken(req: Request, res: Response): Promise<voi
       channelId: savedToken.channelId,
       name: savedToken.name,
       expiresAt: savedToken.expiresAt?.toISOString() || null,
+      keepAlive: savedToken.keepAlive,
       createdAt: savedToken.createdAt.toISOString(),
       updatedAt: savedToken.updatedAt.toISOString(),
       twitchConfig: savedToken.twitchConfig,
@@ -230,7 +245,7 @@ export async function generateAppToken(req: Request, res: Response): Promise<voi
 }
 
 /**
- * Delete a saved token
+ * Delete a saved token, optionally revoking it at Twitch first (?revoke=true)
  */
 export async function deleteToken(req: Request, res: Response): Promise<void> {
   try {
@@ -242,10 +257,12 @@ export async function deleteToken(req: Request, res: Response): Promise<void> {
 
     const userId = req.user!.userId;
     const { id } = req.params;
+    const revoke = req.query.revoke === 'true';
 
     // Check if token exists and belongs to user
     const existingToken = await prisma.savedToken.findUnique({
       where: { id },
+      include: { twitchConfig: true },
     });
 
     if (!existingToken) {
@@ -264,6 +281,24 @@ export async function deleteToken(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    // Revoke first so a failure leaves the token in place to retry
+    let revocation;
+    if (revoke && !existingToken.revokedAt) {
+      revocation = await revokeSavedToken(existingToken);
+
+      if (revocation.status === 'failed') {
+        res.status(502).json({
+          error: 'Twitch API error',
+          message: `Failed to revoke token at Twitch, it was not deleted: ${revocation.error}`,
+          revocation,
+        });
+        return;
+      }
+    }
+
+    // Close its EventSub WebSocket session, if any, before the token goes away
+    await disconnectEventSubSession(existingToken.id);
+
     // Delete the token
     await prisma.savedToken.delete({
       where: { id },
@@ -271,6 +306,7 @@ export async function deleteToken(req: Request, res: Response): Promise<void> {
 
     res.json({
       message: 'Token deleted successfully',
+      revocation,
     });
   } catch (error) {
     console.error('Delete token error:', error);
@@ -318,7 +354,7 @@ export async function startUserToken(req: Request, res: Response): Promise<void>
     }
 
     // Start the device flow
-    const deviceFlowData = await startDeviceFlow(twitchConfig.clientId, scopes);
+    const deviceFlowData = await startDeviceFlow(twitchConfig.clientId, scopes, { userId, source: 'token' });
 
     res.json({
       deviceCode: deviceFlowData.deviceCode,
@@ -373,7 +409,7 @@ export async function pollUserToken(req: Request, res: Response): Promise<void>
     }
 
     // Poll for the token
-    const tokenData = await pollDeviceToken(twitchConfig.clientId, deviceCode);
+    const tokenData = await pollDeviceToken(twitchConfig.clientId, deviceCode, { userId, source: 'token' });
 
     // If still pending, return pending status
     if (!tokenData) {
@@ -382,7 +418,7 @@ export async function pollUserToken(req: Request, res: Response): Promise<void>
     }
 
     // Token received! Validate it to get user info
-    const validation = await validateToken(tokenData.accessToken);
+    const validation = await validateToken(tokenData.accessToken, { userId, source: 'token' });
 
     // Calculate expiration date
     const expiresAt = new Date(Date.now() + tokenData.expiresIn * 1000);
@@ -552,11 +588,12 @@ export async function handleAuthorizationCallback(req: Request, res: Response):
       twitchConfig.clientId,
       clientSecret,
       code,
-      redirectUri
+      redirectUri,
+      { userId, source: 'token' }
     );
 
     // Validate the token to get user info
-    const validation = await validateToken(tokenData.accessToken);
+    const validation = await validateToken(tokenData.accessToken, { userId, source: 'token' });
 
     // Calculate expiration
     const expiresAt = new Date();
@@ -656,11 +693,17 @@ export async function validateSavedToken(req: Request, res: Response): Promise<v
       return;
     }
 
-    // Decrypt the access token
-    const accessToken = decrypt(token.accessToken);
+    // Validate with Twitch API and store the result on the token
+    const { savedToken, validation } = await validateSavedTokenHealth(token);
 
-    // Validate with Twitch API
-    const validation = await validateToken(accessToken);
+    if (!validation) {
+      res.status(200).json({
+        valid: false,
+        message: 'Token is invalid or expired',
+        ...formatTokenHealth(savedToken),
+      });
+      return;
+    }
 
     res.json({
       valid: true,
@@ -669,19 +712,10 @@ export async function validateSavedToken(req: Request, res: Response): Promise<v
       userId: validation.userId,
       scopes: validation.scopes,
       expiresIn: validation.expiresIn,
+      ...formatTokenHealth(savedToken),
     });
   } catch (error: any) {
     console.error('Validate token error:', error);
-
-    // If validation failed, it means the token is invalid
-    if (error.message === 'Invalid or expired token') {
-      res.status(200).json({
-        valid: false,
-        message: 'Token is invalid or expired',
-      });
-      return;
-    }
-
     res.status(500).json({
       error: 'Server error',
       message: error.message || 'Failed to validate token',
@@ -690,7 +724,8 @@ export async function validateSavedToken(req: Request, res: Response): Promise<v
 }
 
 /**
- * Refresh an existing token using its refresh token
+ * Refresh an existing token using its refresh token, or regenerate an app token
+ * (?revokePrevious=true also revokes the previous app access token at Twitch)
  */
 export async function refreshToken(req: Request, res: Response): Promise<void> {
   try {
@@ -728,65 +763,54 @@ export async function refreshToken(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // Only user tokens have refresh tokens
-    if (token.tokenType !== 'user' || !token.refreshToken) {
+    if (token.revokedAt) {
       res.status(400).json({
         error: 'Bad request',
-        message: 'This token cannot be refreshed',
+        message: 'This token has been revoked',
       });
       return;
     }
 
-    // Decrypt refresh token and client secret
-    const refreshTokenValue = decrypt(token.refreshToken);
-    const clientSecret = decrypt(token.twitchConfig.clientSecret);
-
-    // Refresh the token
-    const newTokenData = await refreshAccessToken(
-      token.twitchConfig.clientId,
-      clientSecret,
-      refreshTokenValue
-    );
-
-    // Calculate new expiration
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + newTokenData.expiresIn);
-
-    // Encrypt new tokens
-    const encryptedAccessToken = encrypt(newTokenData.accessToken);
-    const encryptedRefreshToken = encrypt(newTokenData.refreshToken);
+    // App tokens have no refresh token, they are regenerated in place instead
+    if (token.tokenType !== 'app' && !token.refreshToken) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This token cannot be refreshed',
+      });
+      return;
+    }
 
-    // Update token in database
-    const updatedToken = await prisma.savedToken.update({
-      where: { id },
-      data: {
-        accessToken: encryptedAccessToken,
-        refreshToken: encryptedRefreshToken,
-        scopes: newTokenData.scopes,
-        expiresAt,
-      },
-      include: {
-        twitchConfig: {
-          select: {
-            id: true,
-            clientId: true,
-            name: true,
-          },
-        },
+    // Refresh and store the rotated tokens (failures are recorded on the token)
+    const refreshed = token.tokenType === 'app'
+      ? await regenerateSavedAppToken(token, req.query.revokePrevious === 'true')
+      : await refreshSavedTokenOnce(token);
+
+    const updatedToken = {
+      ...refreshed.savedToken,
+      twitchConfig: {
+        id: token.twitchConfig.id,
+        clientId: token.twitchConfig.clientId,
+        name: token.twitchConfig.name,
       },
-    });
+    };
 
     // Return updated token
     const responseToken = {
       id: updatedToken.id,
       tokenType: updatedToken.tokenType,
-      accessToken: newTokenData.accessToken,
-      refreshToken: newTokenData.refreshToken,
+      accessToken: refreshed.accessToken,
+      refreshToken: 'refreshToken' in refreshed ? refreshed.refreshToken : undefined,
       scopes: updatedToken.scopes,
       channelLogin: updatedToken.channelLogin,
       channelId: updatedToken.channelId,
       name: updatedToken.name,
       expiresAt: updatedToken.expiresAt?.toISOString() || null,
+      lastRefreshedAt: updatedToken.lastRefreshedAt?.toISOString() || null,
+      refreshError: updatedToken.refreshError,
+      refreshFailedAt: updatedToken.refreshFailedAt?.toISOString() || null,
+      keepAlive: updatedToken.keepAlive,
+      revokedAt: updatedToken.revokedAt?.toISOString() || null,
+      ...formatTokenHealth(updatedToken),
       createdAt: updatedToken.createdAt.toISOString(),
       updatedAt: updatedToken.updatedAt.toISOString(),
       twitchConfig: updatedToken.twitchConfig,
@@ -804,3 +828,199 @@ export async function refreshToken(req: Request, res: Response): Promise<void> {
     });
   }
 }
+
+/**
+ * Enable or disable automatic regeneration of an app token
+ */
+export async function updateKeepAlive(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { keepAlive } = req.body;
+
+    const token = await prisma.savedToken.findUnique({
+      where: { id },
+    });
+
+    if (!token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    // Ensure the token belongs to the authenticated user
+    if (token.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this token',
+      });
+      return;
+    }
+
+    // User tokens are kept alive through their refresh token
+    if (token.tokenType !== 'app') {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'Keep alive is only available for app tokens',
+      });
+      return;
+    }
+
+    if (token.revokedAt && keepAlive) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This token has been revoked',
+      });
+      return;
+    }
+
+    const updatedToken = await prisma.savedToken.update({
+      where: { id },
+      data: { keepAlive },
+    });
+
+    res.json({
+      message: keepAlive ? 'Keep alive enabled' : 'Keep alive disabled',
+      keepAlive: updatedToken.keepAlive,
+    });
+  } catch (error) {
+    console.error('Update keep alive error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to update token',
+    });
+  }
+}
+
+/**
+ * Revoke a saved token at Twitch (the token is kept and marked as revoked)
+ */
+export async function revokeToken(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const token = await prisma.savedToken.findUnique({
+      where: { id },
+      include: { twitchConfig: true },
+    });
+
+    if (!token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    // Ensure the token belongs to the authenticated user
+    if (token.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to revoke this token',
+      });
+      return;
+    }
+
+    if (token.revokedAt) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'This token has already been revoked',
+      });
+      return;
+    }
+
+    const revocation = await revokeSavedToken(token);
+
+    if (revocation.status === 'failed') {
+      res.status(502).json({
+        error: 'Twitch API error',
+        message: `Failed to revoke token at Twitch: ${revocation.error}`,
+        revocation,
+      });
+      return;
+    }
+
+    res.json({
+      message: revocation.status === 'revoked'
+        ? 'Token revoked successfully'
+        : 'Token was already invalid at Twitch and has been marked as revoked',
+      revocation,
+    });
+  } catch (error) {
+    console.error('Revoke token error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to revoke token',
+    });
+  }
+}
+
+/**
+ * Find the saved token closest to the credentials of an imported request:
+ * the same access token, else a working token of the same Client ID
+ */
+export async function matchToken(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { accessToken, clientId } = req.body;
+
+    const tokens = await prisma.savedToken.findMany({
+      where: { userId },
+      include: {
+        twitchConfig: {
+          select: { clientId: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (accessToken) {
+      const sameToken = tokens.find((token) => decrypt(token.accessToken) === accessToken);
+      if (sameToken) {
+        res.json({ tokenId: sameToken.id, match: 'accessToken' });
+        return;
+      }
+    }
+
+    if (clientId) {
+      const sameClient = tokens.filter((token) => token.twitchConfig.clientId === clientId);
+      const now = new Date();
+      // Prefer the newest token that still works
+      const best = sameClient.find((token) => !token.revokedAt && (!token.expiresAt || token.expiresAt > now)) ||
+        sameClient[0];
+      if (best) {
+        res.json({ tokenId: best.id, match: 'clientId' });
+        return;
+      }
+    }
+
+    res.json({ tokenId: null, match: null });
+  } catch (error) {
+    console.error('Match token error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to match saved token',
+    });
+  }
+}
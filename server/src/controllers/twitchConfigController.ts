@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import prisma from '../config/database';
 import { encrypt, decrypt } from '../utils/encryption';
+import { revokeSavedToken, TokenRevocationResult } from '../services/tokenRevocationService';
 
 /**
  * Get all Twitch configs for the authenticated user
@@ -345,13 +346,14 @@ export async function validateConfig(req: Request, res: Response): Promise<void>
       return;
     }
 
+    const userId = req.user!.userId;
     const { clientId, clientSecret } = req.body;
 
     // Try to generate an app access token to validate the credentials
     const { generateAppAccessToken } = await import('../services/twitchApiService');
 
     try {
-      const result = await generateAppAccessToken(clientId, clientSecret);
+      const result = await generateAppAccessToken(clientId, clientSecret, { userId, source: 'token' });
 
       res.json({
         valid: true,
@@ -373,3 +375,69 @@ export async function validateConfig(req: Request, res: Response): Promise<void>
     });
   }
 }
+
+/**
+ * Revoke every saved token of a Twitch config at Twitch
+ */
+export async function revokeConfigTokens(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const config = await prisma.twitchConfig.findUnique({
+      where: { id },
+    });
+
+    if (!config) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Twitch configuration not found',
+      });
+      return;
+    }
+
+    if (config.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to use this configuration',
+      });
+      return;
+    }
+
+    const tokens = await prisma.savedToken.findMany({
+      where: { twitchConfigId: id, revokedAt: null },
+      include: { twitchConfig: true },
+    });
+
+    // One at a time to stay clear of Twitch rate limits
+    const results: TokenRevocationResult[] = [];
+    for (const token of tokens) {
+      results.push(await revokeSavedToken(token));
+    }
+
+    const summary = {
+      total: results.length,
+      revoked: results.filter((r) => r.status === 'revoked').length,
+      alreadyInvalid: results.filter((r) => r.status === 'already_invalid').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    };
+
+    res.json({
+      message: `Revoked ${summary.revoked + summary.alreadyInvalid} of ${summary.total} token(s)`,
+      summary,
+      results,
+    });
+  } catch (error) {
+    console.error('Revoke config tokens error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to revoke tokens',
+    });
+  }
+}
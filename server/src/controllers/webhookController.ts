@@ -1,9 +1,42 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
+import crypto from 'crypto';
+import { Webhook } from '@prisma/client';
 import prisma from '../config/database';
-import axios from 'axios';
+import {
+  EVENTSUB_TYPES,
+  getEventSubType,
+  getMissingEventSubScopes,
+  validateEventSubCondition,
+} from '../config/eventSubTypes';
+import { encrypt, decrypt } from '../utils/encryption';
+import {
+  TWITCH_EVENTSUB_URL,
+  EVENTSUB_MAX_PAGES,
+  EventSubTransport,
+  generateEventSubSecret,
+  getHubCallbackUrl,
+  getLocalCallbackUrl,
+  createEventSubSubscription,
+  deleteEventSubSubscription,
+} from '../services/eventSubService';
+import { twitchRequestAllPages } from '../services/twitchClient';
+import { withTokenRefreshRetry } from '../services/tokenRefreshService';
+import {
+  ensureEventSubSession,
+  disconnectEventSubSession,
+  getEventSubSessions,
+} from '../services/eventSubWebSocketService';
+import { sendMockEventSubMessage } from '../services/eventSubMockService';
 
-const TWITCH_EVENTSUB_URL = 'https://api.twitch.tv/helix/eventsub/subscriptions';
+/**
+ * API representation of a webhook: the secret is replaced by whether the hub has one
+ * (only subscriptions created by the hub do, and only those can receive test events)
+ */
+function formatWebhook(webhook: Webhook) {
+  const { secret, ...fields } = webhook;
+  return { ...fields, hasSecret: secret !== null };
+}
 
 /**
  * Get all EventSub subscriptions for the authenticated user
@@ -17,7 +50,7 @@ export async function getAllWebhooks(req: Request, res: Response): Promise<void>
       orderBy: { createdAt: 'desc' },
     });
 
-    res.json({ webhooks });
+    res.json({ webhooks: webhooks.map(formatWebhook) });
   } catch (error: any) {
     console.error('Get webhooks error:', error);
     res.status(500).json({
@@ -39,7 +72,7 @@ export async function createWebhook(req: Request, res: Response): Promise<void>
     }
 
     const userId = req.user!.userId;
-    const { tokenId, type, condition, callbackUrl } = req.body;
+    const { tokenId, type, condition, callbackUrl, transport = 'webhook' } = req.body;
 
     // Get the token to use for authentication
     const token = await prisma.savedToken.findUnique({
@@ -63,48 +96,146 @@ export async function createWebhook(req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Decrypt token
-    const { decrypt } = await import('../utils/encryption');
-    const accessToken = decrypt(token.accessToken);
+    // The route only accepts types from the catalog
+    const definition = getEventSubType(type)!;
+    const isWebSocket = transport === 'websocket';
 
-    // Create EventSub subscription with Twitch
-    const subscriptionData = {
-      type,
-      version: '1',
-      condition,
-      transport: {
-        method: 'webhook',
-        callback: callbackUrl,
-        secret: generateSecret(), // Generate a random secret
-      },
-    };
+    if (!definition.transports.includes(transport)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: `${type} does not support the ${transport} transport`,
+      });
+      return;
+    }
 
-    const response = await axios.post(TWITCH_EVENTSUB_URL, subscriptionData, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Client-Id': token.twitchConfig.clientId,
-        'Content-Type': 'application/json',
+    // Twitch requires app tokens for webhooks and user tokens for WebSockets
+    const requiredTokenType = isWebSocket ? 'user' : 'app';
+    if (token.tokenType !== requiredTokenType) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: isWebSocket
+          ? 'WebSocket subscriptions require a user access token'
+          : 'Webhook subscriptions require an app access token',
+      });
+      return;
+    }
+
+    const conditionErrors = validateEventSubCondition(definition, condition);
+    if (conditionErrors.length > 0) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: conditionErrors.join('. '),
+      });
+      return;
+    }
+
+    // App tokens carry no scopes; the user in the condition must have authorized the app instead
+    if (token.tokenType === 'user') {
+      const missingScopes = getMissingEventSubScopes(definition, token.scopes);
+      if (missingScopes.length > 0) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: `Token is missing required scopes: ${missingScopes.join(', ')}`,
+          missingScopes,
+        });
+        return;
+      }
+    }
+
+    // Optional fields left empty are not sent to Twitch
+    const subscriptionCondition = Object.fromEntries(
+      Object.entries(condition as Record<string, string>).filter(([, value]) => value !== '')
+    );
+
+    // Pre-generate the local ID so the hub's own callback URL can reference it
+    const webhookId = crypto.randomUUID();
+    let subscriptionTransport: EventSubTransport;
+
+    if (isWebSocket) {
+      let session;
+      try {
+        session = await ensureEventSubSession(token.id, userId);
+      } catch (error: any) {
+        res.status(502).json({
+          error: 'EventSub WebSocket error',
+          message: error.message,
+        });
+        return;
+      }
+
+      subscriptionTransport = { method: 'websocket', session_id: session.sessionId! };
+    } else {
+      const callback = callbackUrl || getHubCallbackUrl(webhookId);
+
+      if (!callback) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Provide a callback URL or set PUBLIC_API_URL to use the built-in EventSub receiver',
+        });
+        return;
+      }
+
+      subscriptionTransport = { method: 'webhook', callback, secret: generateEventSubSecret() };
+    }
+
+    const pendingStatus = isWebSocket ? 'pending' : 'webhook_callback_verification_pending';
+
+    // Save first so the verification challenge can be answered as soon as Twitch sends it
+    await prisma.webhook.create({
+      data: {
+        id: webhookId,
+        userId,
+        tokenId: token.id,
+        subscriptionId: webhookId, // Replaced with the Twitch subscription ID below
+        type,
+        condition: subscriptionCondition,
+        transportMethod: subscriptionTransport.method,
+        callbackUrl: subscriptionTransport.method === 'webhook' ? subscriptionTransport.callback : null,
+        sessionId: subscriptionTransport.method === 'websocket' ? subscriptionTransport.session_id : null,
+        secret: subscriptionTransport.method === 'webhook' ? encrypt(subscriptionTransport.secret) : null,
+        status: pendingStatus,
       },
     });
 
-    const subscription = response.data.data[0];
+    // Create EventSub subscription with Twitch (refreshing an expired user token once)
+    let subscription;
+    try {
+      ({ result: subscription } = await withTokenRefreshRetry(token, (accessToken) => createEventSubSubscription(
+        token.twitchConfig.clientId,
+        accessToken,
+        type,
+        definition.version,
+        subscriptionCondition,
+        subscriptionTransport,
+        { userId, tokenId: token.id, source: 'eventsub' }
+      )));
+    } catch (error) {
+      await prisma.webhook.delete({ where: { id: webhookId } });
+      throw error;
+    }
 
-    // Save to database
-    const webhook = await prisma.webhook.create({
+    await prisma.webhook.update({
+      where: { id: webhookId },
       data: {
-        userId,
         subscriptionId: subscription.id,
-        type: subscription.type,
         condition: subscription.condition,
-        callbackUrl,
-        status: subscription.status,
         cost: subscription.cost || 0,
       },
     });
 
+    // Don't overwrite the status if the verification challenge was already answered
+    await prisma.webhook.updateMany({
+      where: { id: webhookId, status: pendingStatus },
+      data: { status: subscription.status },
+    });
+
+    const webhook = await prisma.webhook.findUniqueOrThrow({
+      where: { id: webhookId },
+    });
+
     res.status(201).json({
       message: 'EventSub subscription created successfully',
-      webhook,
+      webhook: formatWebhook(webhook),
     });
   } catch (error: any) {
     console.error('Create webhook error:', error);
@@ -153,25 +284,28 @@ export async function deleteWebhook(req: Request, res: Response): Promise<void>
       return;
     }
 
-    // We need a token to call Twitch API to delete the subscription
-    // Get any user token from this user
-    const token = await prisma.savedToken.findFirst({
-      where: { userId, tokenType: 'user' },
-      include: { twitchConfig: true },
-    });
+    // We need a token to call Twitch API to delete the subscription.
+    // Prefer the token that created it (required for WebSocket subscriptions),
+    // otherwise use any user token from this user
+    const token = webhook.tokenId
+      ? await prisma.savedToken.findUnique({
+        where: { id: webhook.tokenId },
+        include: { twitchConfig: true },
+      })
+      : await prisma.savedToken.findFirst({
+        where: { userId, tokenType: 'user' },
+        include: { twitchConfig: true },
+      });
 
     if (token) {
       try {
-        const { decrypt } = await import('../utils/encryption');
-        const accessToken = decrypt(token.accessToken);
-
         // Delete from Twitch EventSub
-        await axios.delete(`${TWITCH_EVENTSUB_URL}?id=${webhook.subscriptionId}`, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Client-Id': token.twitchConfig.clientId,
-          },
-        });
+        await withTokenRefreshRetry(token, (accessToken) => deleteEventSubSubscription(
+          token.twitchConfig.clientId,
+          accessToken,
+          webhook.subscriptionId,
+          { userId, tokenId: token.id, source: 'eventsub' }
+        ));
       } catch (error: any) {
         console.error('Failed to delete from Twitch:', error.response?.data || error.message);
         // Continue anyway to delete from our database
@@ -195,75 +329,182 @@ export async function deleteWebhook(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Get the events received for a webhook (paged, newest first)
+ */
+export async function getWebhookEvents(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const {
+      limit = '50',
+      offset = '0',
+      messageType,
+      subscriptionType,
+      from,
+      to,
+    } = req.query;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Webhook not found',
+      });
+      return;
+    }
+
+    if (webhook.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to access this webhook',
+      });
+      return;
+    }
+
+    const where = {
+      webhookId: id,
+      ...(messageType && { messageType: messageType as string }),
+      ...(subscriptionType && { subscriptionType: subscriptionType as string }),
+      ...((from || to) && {
+        messageTimestamp: {
+          ...(from && { gte: new Date(from as string) }),
+          ...(to && { lte: new Date(to as string) }),
+        },
+      }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.eventSubEvent.findMany({
+        where,
+        orderBy: { messageTimestamp: 'desc' },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.eventSubEvent.count({ where }),
+    ]);
+
+    const formattedEvents = events.map((event) => ({
+      id: event.id,
+      webhookId: event.webhookId,
+      messageId: event.messageId,
+      messageType: event.messageType,
+      subscriptionType: event.subscriptionType,
+      subscriptionVersion: event.subscriptionVersion,
+      payload: event.payload,
+      messageTimestamp: event.messageTimestamp.toISOString(),
+      isMock: event.isMock,
+      createdAt: event.createdAt.toISOString(),
+    }));
+
+    res.json({
+      events: formattedEvents,
+      total,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+  } catch (error: any) {
+    console.error('Get webhook events error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve webhook events',
+    });
+  }
+}
+
 /**
  * Get all available EventSub subscription types
  */
 export async function getEventSubTypes(req: Request, res: Response): Promise<void> {
-  // Return common EventSub types
-  const types = [
-    {
-      type: 'stream.online',
-      version: '1',
-      description: 'A broadcaster starts a stream',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'stream.offline',
-      version: '1',
-      description: 'A broadcaster stops a stream',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.update',
-      version: '2',
-      description: 'A broadcaster updates their channel properties',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.follow',
-      version: '2',
-      description: 'A user follows a broadcaster',
-      condition: { broadcaster_user_id: 'required', moderator_user_id: 'required' },
-    },
-    {
-      type: 'channel.subscribe',
-      version: '1',
-      description: 'A user subscribes to a broadcaster',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.subscription.gift',
-      version: '1',
-      description: 'A user gifts subscriptions',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.cheer',
-      version: '1',
-      description: 'A user cheers bits',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.raid',
-      version: '1',
-      description: 'A broadcaster raids another broadcaster',
-      condition: { to_broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.ban',
-      version: '1',
-      description: 'A user is banned from a broadcaster\'s chat',
-      condition: { broadcaster_user_id: 'required' },
-    },
-    {
-      type: 'channel.moderator.add',
-      version: '1',
-      description: 'A user is added as a moderator',
-      condition: { broadcaster_user_id: 'required' },
-    },
-  ];
-
-  res.json({ types });
+  res.json({ types: EVENTSUB_TYPES });
+}
+
+/**
+ * Send a signed test EventSub message to a webhook's callback (built-in receiver or its own) or to any callback URL
+ */
+export async function triggerTestEvent(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { webhookId, messageType, callbackUrl, secret, type, condition = {} } = req.body;
+
+    let options;
+
+    if (webhookId) {
+      const webhook = await prisma.webhook.findUnique({
+        where: { id: webhookId },
+      });
+
+      if (!webhook) {
+        res.status(404).json({
+          error: 'Not found',
+          message: 'Webhook not found',
+        });
+        return;
+      }
+
+      if (webhook.userId !== userId) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to access this webhook',
+        });
+        return;
+      }
+
+      if (!webhook.secret || !webhook.callbackUrl) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Test events can only be sent to webhook subscriptions created by the hub',
+        });
+        return;
+      }
+
+      // The built-in receiver is reached locally, other callbacks get the same address checks as custom URLs
+      const isHubReceiver = webhook.callbackUrl === getHubCallbackUrl(webhook.id);
+
+      options = {
+        callbackUrl: isHubReceiver ? getLocalCallbackUrl(webhook.id) : webhook.callbackUrl,
+        secret: decrypt(webhook.secret),
+        type: webhook.type,
+        version: getEventSubType(webhook.type)?.version || '1',
+        condition: webhook.condition as Record<string, string>,
+        subscriptionId: webhook.subscriptionId,
+        allowPrivateAddresses: isHubReceiver,
+      };
+    } else {
+      options = {
+        callbackUrl,
+        secret,
+        type,
+        version: getEventSubType(type)!.version,
+        condition,
+      };
+    }
+
+    const result = await sendMockEventSubMessage({ ...options, messageType });
+
+    res.json({ result });
+  } catch (error: any) {
+    console.error('Trigger test event error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to send test event',
+    });
+  }
 }
 
 /**
@@ -287,22 +528,24 @@ export async function getRemoteWebhooks(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const { decrypt } = await import('../utils/encryption');
     const accessToken = decrypt(token.accessToken);
 
-    // Fetch subscriptions from Twitch
-    const response = await axios.get(TWITCH_EVENTSUB_URL, {
+    // Fetch every page of subscriptions from Twitch
+    const { data, cursor, response } = await twitchRequestAllPages({
+      method: 'GET',
+      url: TWITCH_EVENTSUB_URL,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Client-Id': token.twitchConfig.clientId,
       },
-    });
+    }, { userId, tokenId: token.id, source: 'eventsub' }, EVENTSUB_MAX_PAGES);
 
     res.json({
-      subscriptions: response.data.data,
+      subscriptions: data,
       total: response.data.total,
       max_total_cost: response.data.max_total_cost,
       total_cost: response.data.total_cost,
+      truncated: cursor !== null,
     });
   } catch (error: any) {
     console.error('Get remote webhooks error:', error);
@@ -351,8 +594,6 @@ export async function syncWebhooks(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const { decrypt } = await import('../utils/encryption');
-
     let totalImported = 0;
     let totalUpdated = 0;
     let totalRemoved = 0;
@@ -364,21 +605,23 @@ export async function syncWebhooks(req: Request, res: Response): Promise<void> {
       try {
         const accessToken = decrypt(token.accessToken);
 
-        // Fetch subscriptions from Twitch for this config
-        const response = await axios.get(TWITCH_EVENTSUB_URL, {
+        // Fetch every page of subscriptions from Twitch for this config
+        const { data: remoteSubscriptions, cursor } = await twitchRequestAllPages({
+          method: 'GET',
+          url: TWITCH_EVENTSUB_URL,
           headers: {
             'Authorization': `Bearer ${accessToken}`,
             'Client-Id': token.twitchConfig.clientId,
           },
-        });
+        }, { userId, tokenId: token.id, source: 'eventsub' }, EVENTSUB_MAX_PAGES);
 
-        const remoteSubscriptions = response.data.data;
         totalSubscriptions += remoteSubscriptions.length;
         configsSynced.push(token.twitchConfig.name || token.twitchConfig.clientId);
 
-        // Get existing local webhooks for this user
+        // Get existing local webhooks for this user.
+        // WebSocket subscriptions are only visible to user tokens, so leave them out
         const localWebhooks = await prisma.webhook.findMany({
-          where: { userId },
+          where: { userId, transportMethod: 'webhook' },
         });
 
         const localSubscriptionIds = new Set(localWebhooks.map(w => w.subscriptionId));
@@ -393,7 +636,9 @@ export async function syncWebhooks(req: Request, res: Response): Promise<void> {
                 subscriptionId: sub.id,
                 type: sub.type,
                 condition: sub.condition,
-                callbackUrl: sub.transport.callback,
+                transportMethod: sub.transport.method,
+                callbackUrl: sub.transport.callback ?? null,
+                sessionId: sub.transport.session_id ?? null,
                 status: sub.status,
                 cost: sub.cost || 0,
               },
@@ -416,6 +661,12 @@ export async function syncWebhooks(req: Request, res: Response): Promise<void> {
           }
         }
 
+        // Without the full list we can't tell which subscriptions are gone
+        if (cursor) {
+          console.warn(`Subscriptions of config ${token.twitchConfig.name} exceed ${EVENTSUB_MAX_PAGES} pages, skipping removal`);
+          continue;
+        }
+
         // Find and remove webhooks that no longer exist on Twitch
         const remoteSubscriptionIds = new Set(remoteSubscriptions.map((s: any) => s.id));
 
@@ -461,13 +712,126 @@ export async function syncWebhooks(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Generate a random secret for EventSub webhook verification
+ * Get the EventSub WebSocket sessions of the authenticated user
+ */
+export async function getWebSocketSessions(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const sessions = getEventSubSessions(userId);
+
+    const tokens = await prisma.savedToken.findMany({
+      where: { userId, id: { in: sessions.map((session) => session.tokenId) } },
+      select: { id: true, name: true, channelLogin: true },
+    });
+
+    const tokensById = new Map(tokens.map((token) => [token.id, token]));
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        tokenName: tokensById.get(session.tokenId)?.name || null,
+        channelLogin: tokensById.get(session.tokenId)?.channelLogin || null,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get WebSocket sessions error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to retrieve WebSocket sessions',
+    });
+  }
+}
+
+/**
+ * Open (or return the existing) EventSub WebSocket session for a user token
+ */
+export async function connectWebSocketSession(req: Request, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.userId;
+    const { tokenId } = req.body;
+
+    const token = await prisma.savedToken.findUnique({
+      where: { id: tokenId },
+    });
+
+    if (!token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Token not found',
+      });
+      return;
+    }
+
+    if (token.userId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to use this token',
+      });
+      return;
+    }
+
+    if (token.tokenType !== 'user') {
+      res.status(400).json({
+        error: 'Bad request',
+        message: 'WebSocket sessions require a user access token',
+      });
+      return;
+    }
+
+    const session = await ensureEventSubSession(token.id, userId);
+
+    res.json({
+      message: 'EventSub WebSocket session connected',
+      session: {
+        ...session,
+        tokenName: token.name,
+        channelLogin: token.channelLogin,
+      },
+    });
+  } catch (error: any) {
+    console.error('Connect WebSocket session error:', error);
+    res.status(502).json({
+      error: 'EventSub WebSocket error',
+      message: error.message || 'Failed to connect EventSub WebSocket session',
+    });
+  }
+}
+
+/**
+ * Close the EventSub WebSocket session of a token
  */
-function generateSecret(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let secret = '';
-  for (let i = 0; i < 32; i++) {
-    secret += chars.charAt(Math.floor(Math.random() * chars.length));
+export async function disconnectWebSocketSession(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { tokenId } = req.params;
+
+    const session = getEventSubSessions(userId).find((s) => s.tokenId === tokenId);
+
+    if (!session) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'WebSocket session not found',
+      });
+      return;
+    }
+
+    await disconnectEventSubSession(session.tokenId);
+
+    res.json({
+      message: 'EventSub WebSocket session disconnected',
+    });
+  } catch (error: any) {
+    console.error('Disconnect WebSocket session error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Failed to disconnect WebSocket session',
+    });
   }
-  return secret;
 }
@@ -8,6 +8,14 @@ import twitchConfigRoutes from './routes/twitchConfigRoutes';
 import tokenRoutes from './routes/tokenRoutes';
 import apiLogRoutes from './routes/apiLogRoutes';
 import webhookRoutes from './routes/webhookRoutes';
+import helixRoutes from './routes/helixRoutes';
+import collectionRoutes from './routes/collectionRoutes';
+import environmentRoutes from './routes/environmentRoutes';
+import eventSubRoutes from './routes/eventSubRoutes';
+import { restoreEventSubSessions } from './services/eventSubWebSocketService';
+import { startTokenRefreshJob } from './jobs/tokenRefreshJob';
+import { startLogRetentionJob } from './jobs/logRetentionJob';
+import { startTokenHealthJob } from './jobs/tokenHealthJob';
 
 // Load environment variables
 dotenv.config();
@@ -22,6 +30,10 @@ app.use(cors({
   credentials: true
 }));
 app.use(morgan('dev'));
+
+// EventSub callback routes (need the raw body, so they go before the JSON parser)
+app.use('/eventsub', eventSubRoutes);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -43,7 +55,11 @@ app.get('/api', (req, res) => {
       twitchConfigs: '/api/twitch-configs',
       tokens: '/api/tokens',
       logs: '/api/logs',
-      webhooks: '/api/webhooks'
+      webhooks: '/api/webhooks',
+      helix: '/api/helix',
+      collections: '/api/collections',
+      environments: '/api/environments',
+      eventSubCallback: '/eventsub/callback/:webhookId'
     }
   });
 });
@@ -63,6 +79,15 @@ app.use('/api/logs', apiLogRoutes);
 // Webhook routes
 app.use('/api/webhooks', webhookRoutes);
 
+// Helix proxy routes
+app.use('/api/helix', helixRoutes);
+
+// Request collection routes
+app.use('/api/collections', collectionRoutes);
+
+// Environment routes
+app.use('/api/environments', environmentRoutes);
+
 // 404 Handler
 app.use((req, res) => {
   res.status(404).json({
@@ -85,6 +110,16 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📡 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  // Background jobs
+  startTokenRefreshJob();
+  startLogRetentionJob();
+  startTokenHealthJob();
+
+  // Reconnect EventSub WebSocket sessions that have subscriptions
+  restoreEventSubSessions().catch((error) => {
+    console.error('Failed to restore EventSub WebSocket sessions:', error);
+  });
 });
 
 export default app;
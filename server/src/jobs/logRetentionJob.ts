@@ -0,0 +1,53 @@
+import prisma from '../config/database';
+import { pruneApiLogs } from '../services/apiLogService';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let isRunning = false;
+
+/**
+ * Delete the API logs of every user with a retention policy
+ * that are older or beyond the number of rows it keeps
+ */
+export async function pruneExpiredApiLogs(): Promise<void> {
+  // Skip if the previous run is still going
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { logRetentionDays: { not: null } },
+          { logRetentionMaxRows: { not: null } },
+        ],
+      },
+      select: { id: true, logRetentionDays: true, logRetentionMaxRows: true },
+    });
+
+    for (const user of users) {
+      try {
+        const count = await pruneApiLogs(user.id, user);
+        if (count > 0) {
+          console.log(`🧹 Pruned ${count} API logs of user ${user.id}`);
+        }
+      } catch (error: any) {
+        console.error(`Failed to prune API logs of user ${user.id}:`, error.message);
+      }
+    }
+  } catch (error) {
+    console.error('Log retention job error:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start pruning API logs in the background
+ */
+export function startLogRetentionJob(): NodeJS.Timeout {
+  pruneExpiredApiLogs();
+  return setInterval(pruneExpiredApiLogs, CHECK_INTERVAL_MS);
+}
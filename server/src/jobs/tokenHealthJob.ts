@@ -0,0 +1,61 @@
+import prisma from '../config/database';
+import { validateSavedTokenHealth } from '../services/tokenHealthService';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Twitch requires apps to validate their tokens every hour
+ */
+const VALIDATE_EVERY_MS = 60 * 60 * 1000;
+
+let isRunning = false;
+
+/**
+ * Validate every saved token not validated within the last hour, or refreshed since.
+ * Tokens Twitch already rejected are skipped until they are refreshed.
+ */
+export async function validateSavedTokens(): Promise<void> {
+  // Skip if the previous run is still going
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    const tokens = await prisma.savedToken.findMany({
+      where: {
+        revokedAt: null,
+        OR: [
+          { isValid: null },
+          { isValid: true, lastValidatedAt: null },
+          { isValid: true, lastValidatedAt: { lt: new Date(Date.now() - VALIDATE_EVERY_MS) } },
+        ],
+      },
+    });
+
+    for (const token of tokens) {
+      try {
+        // Not logged, an entry per token every hour would bury the user's own calls
+        const { savedToken } = await validateSavedTokenHealth(token, true);
+        if (!savedToken.isValid) {
+          console.log(`⚠️  Token ${token.name || token.channelLogin || token.id} is no longer valid`);
+        }
+      } catch (error: any) {
+        // Not recorded, the token is checked again on the next run
+        console.error(`Failed to validate token ${token.id}:`, error.message);
+      }
+    }
+  } catch (error) {
+    console.error('Token health job error:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start validating saved tokens in the background
+ */
+export function startTokenHealthJob(): NodeJS.Timeout {
+  validateSavedTokens();
+  return setInterval(validateSavedTokens, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,91 @@
+import prisma from '../config/database';
+import { refreshSavedTokenOnce, regenerateSavedAppToken } from '../services/tokenRefreshService';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * User tokens expiring within this window are refreshed
+ */
+const REFRESH_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Keep-alive app tokens (valid for ~60 days) are regenerated within this window
+ */
+const APP_TOKEN_RENEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tokens whose last refresh failed are retried at most this often
+ * (a revoked refresh token keeps failing until the user re-authorizes)
+ */
+const RETRY_AFTER_FAILURE_MS = 60 * 60 * 1000;
+
+let isRunning = false;
+
+/**
+ * Refresh every saved user token that is about to expire and
+ * regenerate keep-alive app tokens before they expire
+ */
+export async function refreshExpiringTokens(): Promise<void> {
+  // Skip if the previous run is still going
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    const now = Date.now();
+
+    const tokens = await prisma.savedToken.findMany({
+      where: {
+        OR: [
+          {
+            tokenType: 'user',
+            refreshToken: { not: null },
+            expiresAt: { lte: new Date(now + REFRESH_WINDOW_MS) },
+          },
+          {
+            tokenType: 'app',
+            keepAlive: true,
+            expiresAt: { lte: new Date(now + APP_TOKEN_RENEW_WINDOW_MS) },
+          },
+        ],
+        revokedAt: null,
+        AND: {
+          OR: [
+            { refreshFailedAt: null },
+            { refreshFailedAt: { lt: new Date(now - RETRY_AFTER_FAILURE_MS) } },
+          ],
+        },
+      },
+      include: { twitchConfig: true },
+    });
+
+    for (const token of tokens) {
+      try {
+        if (token.tokenType === 'app') {
+          await regenerateSavedAppToken(token);
+          console.log(`🔄 Regenerated app token ${token.name || token.id}`);
+        } else {
+          // Shared with a refresh already started by a 401 retry on the same token
+          await refreshSavedTokenOnce(token);
+          console.log(`🔄 Refreshed token ${token.name || token.channelLogin || token.id}`);
+        }
+      } catch (error: any) {
+        // Already recorded on the token
+        console.error(`Failed to refresh token ${token.id}:`, error.message);
+      }
+    }
+  } catch (error) {
+    console.error('Token refresh job error:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start refreshing expiring tokens in the background
+ */
+export function startTokenRefreshJob(): NodeJS.Timeout {
+  refreshExpiringTokens();
+  return setInterval(refreshExpiringTokens, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,165 @@
+import { body, query } from 'express-validator';
+import { JSON_PATH, MAX_REDACTION_PATHS } from '../services/logRedactionService';
+
+const LOG_SOURCES = ['client', 'proxy', 'token', 'eventsub'];
+
+/**
+ * Check that a query parameter was sent once. Standard validators accept arrays
+ * (checking each item), which the filters would then ignore.
+ */
+const isSingleValue = (value: unknown) => typeof value === 'string';
+
+/**
+ * Validation for the API log filters (list and bulk delete)
+ */
+export const validateApiLogFilters = [
+  query('method')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('Method must be sent once')
+    .bail()
+    .isIn(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+    .withMessage('Method must be GET, POST, PUT, PATCH or DELETE'),
+
+  query('statusMin')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('statusMin must be sent once')
+    .bail()
+    .isInt({ min: 100, max: 599 })
+    .withMessage('statusMin must be an HTTP status code'),
+
+  query('statusMax')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('statusMax must be sent once')
+    .bail()
+    .isInt({ min: 100, max: 599 })
+    .withMessage('statusMax must be an HTTP status code'),
+
+  query('endpoint')
+    .optional()
+    .custom(isSingleValue)
+    .withMessage('Endpoint must be sent once')
+    .bail()
+    .isLength({ max: 2048 })
+    .withMessage('Endpoint is too long'),
+
+  query('tokenId')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('Token ID must be sent once')
+    .bail()
+    .isUUID()
+    .withMessage('Invalid token ID'),
+
+  query('source')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('Source must be sent once')
+    .bail()
+    .isIn(LOG_SOURCES)
+    .withMessage(`Source must be one of: ${LOG_SOURCES.join(', ')}`),
+
+  query('from')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('from must be sent once')
+    .bail()
+    .isISO8601()
+    .withMessage('from must be an ISO 8601 date'),
+
+  query('to')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('to must be sent once')
+    .bail()
+    .isISO8601()
+    .withMessage('to must be an ISO 8601 date'),
+
+  query('q')
+    .optional()
+    .custom(isSingleValue)
+    .withMessage('Search must be sent once')
+    .bail()
+    .isLength({ max: 500 })
+    .withMessage('Search must be at most 500 characters'),
+];
+
+/**
+ * Validation for listing API logs
+ */
+export const validateListApiLogs = [
+  ...validateApiLogFilters,
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a positive number'),
+];
+
+/**
+ * Validation for exporting API logs
+ */
+export const validateExportApiLogs = [
+  ...validateApiLogFilters,
+
+  query('format')
+    .isIn(['har', 'ndjson', 'csv'])
+    .withMessage('Format must be har, ndjson or csv'),
+];
+
+/**
+ * Validation for the API usage analytics
+ */
+export const validateApiLogAnalytics = [
+  query('days')
+    .optional()
+    .isInt({ min: 1, max: 90 })
+    .withMessage('Days must be between 1 and 90'),
+
+  query('tokenId')
+    .optional({ values: 'falsy' })
+    .custom(isSingleValue)
+    .withMessage('Token ID must be sent once')
+    .bail()
+    .isUUID()
+    .withMessage('Invalid token ID'),
+];
+
+/**
+ * Validation for updating the API log retention policy
+ */
+export const validateUpdateLogRetention = [
+  body('maxAgeDays')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Max age must be between 1 and 3650 days'),
+
+  body('maxRows')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 1000000 })
+    .withMessage('Max rows must be between 1 and 1000000'),
+];
+
+/**
+ * Validation for updating the API log redaction rules
+ */
+export const validateUpdateLogRedaction = [
+  body('paths')
+    .isArray({ max: MAX_REDACTION_PATHS })
+    .withMessage(`Paths must be an array of at most ${MAX_REDACTION_PATHS} JSON paths`),
+
+  body('paths.*')
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Paths must be at most 200 characters')
+    .matches(JSON_PATH)
+    .withMessage('Paths must look like data[*].email (keys separated by dots, [n] or [*] for array items, * for any key)'),
+];
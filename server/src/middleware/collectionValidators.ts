@@ -0,0 +1,175 @@
+import { body, param } from 'express-validator';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Validation for creating a request collection
+ */
+export const validateCreateCollection = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+];
+
+/**
+ * Validation for renaming a request collection
+ */
+export const validateUpdateCollection = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+];
+
+/**
+ * Validation for deleting a request collection
+ */
+export const validateDeleteCollection = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+];
+
+/**
+ * Validation for reordering the collections of the authenticated user
+ */
+export const validateReorderCollections = [
+  body('ids')
+    .isArray()
+    .withMessage('ids must be an array of collection IDs'),
+
+  body('ids.*')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+];
+
+/**
+ * Validation for saving a request in a collection
+ */
+export const validateCreateSavedRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('method')
+    .isIn(HTTP_METHODS)
+    .withMessage(`Method must be one of: ${HTTP_METHODS.join(', ')}`),
+
+  body('path')
+    .trim()
+    .notEmpty()
+    .withMessage('Path is required')
+    .matches(/^\/[^?]*$/)
+    .withMessage('Path must start with / and must not contain a query string'),
+
+  body('query')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Query must be an object'),
+
+  body('body')
+    .optional({ values: 'null' }),
+
+  body('tokenId')
+    .optional({ values: 'null' })
+    .isUUID()
+    .withMessage('Invalid token ID'),
+];
+
+/**
+ * Validation for updating a saved request
+ */
+export const validateUpdateSavedRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+
+  param('requestId')
+    .isUUID()
+    .withMessage('Invalid request ID'),
+
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('method')
+    .optional()
+    .isIn(HTTP_METHODS)
+    .withMessage(`Method must be one of: ${HTTP_METHODS.join(', ')}`),
+
+  body('path')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Path cannot be empty')
+    .matches(/^\/[^?]*$/)
+    .withMessage('Path must start with / and must not contain a query string'),
+
+  body('query')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Query must be an object'),
+
+  body('body')
+    .optional({ values: 'null' }),
+
+  body('tokenId')
+    .optional({ values: 'null' })
+    .isUUID()
+    .withMessage('Invalid token ID'),
+
+  body('collectionId')
+    .optional()
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+];
+
+/**
+ * Validation for deleting a saved request
+ */
+export const validateDeleteSavedRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+
+  param('requestId')
+    .isUUID()
+    .withMessage('Invalid request ID'),
+];
+
+/**
+ * Validation for reordering the requests of a collection
+ */
+export const validateReorderSavedRequests = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid collection ID'),
+
+  body('ids')
+    .isArray()
+    .withMessage('ids must be an array of request IDs'),
+
+  body('ids.*')
+    .isUUID()
+    .withMessage('Invalid request ID'),
+];
@@ -0,0 +1,66 @@
+import { body, param } from 'express-validator';
+
+// Variable names usable as {{name}}; the token. prefix is reserved for built-in variables
+const VARIABLE_NAME = /^(?!token\.)[A-Za-z_][A-Za-z0-9_.-]*$/;
+const MAX_VARIABLES = 100;
+
+/**
+ * Check that variables is an object of named string values
+ */
+const isVariableMap = (variables: Record<string, unknown>) =>
+  Object.keys(variables).length <= MAX_VARIABLES &&
+  Object.entries(variables).every(([name, value]) =>
+    VARIABLE_NAME.test(name) && typeof value === 'string' && value.length <= 1000
+  );
+
+/**
+ * Validation for creating an environment
+ */
+export const validateCreateEnvironment = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('variables')
+    .optional()
+    .isObject()
+    .withMessage('Variables must be an object')
+    .custom(isVariableMap)
+    .withMessage(`Variables must be at most ${MAX_VARIABLES} string values named with letters, numbers, _, . or - (token. is reserved)`),
+];
+
+/**
+ * Validation for updating an environment
+ */
+export const validateUpdateEnvironment = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid environment ID'),
+
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('variables')
+    .optional()
+    .isObject()
+    .withMessage('Variables must be an object')
+    .custom(isVariableMap)
+    .withMessage(`Variables must be at most ${MAX_VARIABLES} string values named with letters, numbers, _, . or - (token. is reserved)`),
+];
+
+/**
+ * Validation for deleting an environment
+ */
+export const validateDeleteEnvironment = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid environment ID'),
+];
@@ -0,0 +1,48 @@
+import { body } from 'express-validator';
+
+/**
+ * Validation for proxying a Helix request
+ */
+export const validateHelixProxy = [
+  body('tokenId')
+    .isUUID()
+    .withMessage('Invalid token ID'),
+
+  body('method')
+    .isIn(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+    .withMessage('Method must be GET, POST, PUT, PATCH or DELETE'),
+
+  body('path')
+    .isString()
+    .trim()
+    .matches(/^\//)
+    .withMessage('Path must start with /')
+    .isLength({ max: 2048 })
+    .withMessage('Path is too long'),
+
+  body('query')
+    .optional()
+    .isObject()
+    .withMessage('Query must be an object')
+    .custom((query: Record<string, unknown>) =>
+      Object.values(query).every((value) =>
+        typeof value === 'string' ||
+        (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+      )
+    )
+    .withMessage('Query values must be strings or arrays of strings'),
+
+  body('body')
+    .optional(),
+
+  body('allPages')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('allPages must be a boolean'),
+
+  body('maxPages')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('maxPages must be between 1 and 50')
+    .toInt(),
+];
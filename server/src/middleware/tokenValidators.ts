@@ -1,4 +1,4 @@
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 
 /**
  * Validation for generating an app access token
@@ -16,6 +16,11 @@ export const validateGenerateAppToken = [
     .trim()
     .isLength({ min: 1, max: 100 })
     .withMessage('Name must be between 1 and 100 characters'),
+
+  body('keepAlive')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('keepAlive must be a boolean'),
 ];
 
 /**
@@ -76,6 +81,11 @@ export const validateDeleteToken = [
   param('id')
     .isUUID()
     .withMessage('Invalid token ID'),
+
+  query('revoke')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('revoke must be true or false'),
 ];
 
 /**
@@ -146,4 +156,46 @@ export const validateRefreshToken = [
   param('id')
     .isUUID()
     .withMessage('Invalid token ID'),
+
+  query('revokePrevious')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('revokePrevious must be true or false'),
+];
+
+/**
+ * Validation for toggling keep alive on an app token
+ */
+export const validateUpdateKeepAlive = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid token ID'),
+
+  body('keepAlive')
+    .isBoolean({ strict: true })
+    .withMessage('keepAlive must be a boolean'),
+];
+
+/**
+ * Validation for revoking a token
+ */
+export const validateRevokeToken = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid token ID'),
+];
+
+/**
+ * Validation for matching imported credentials to a saved token
+ */
+export const validateMatchToken = [
+  body('accessToken')
+    .optional()
+    .isString()
+    .withMessage('Access token must be a string'),
+
+  body('clientId')
+    .optional()
+    .isString()
+    .withMessage('Client ID must be a string'),
 ];
@@ -81,3 +81,12 @@ export const validateGetConfig = [
     .isUUID()
     .withMessage('Invalid config ID'),
 ];
+
+/**
+ * Validation for revoking all tokens of a Twitch config
+ */
+export const validateRevokeConfigTokens = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid config ID'),
+];
@@ -7,7 +7,22 @@ import {
   getApiLog,
   deleteApiLog,
   deleteAllApiLogs,
+  replayApiLog,
+  getLogRetention,
+  updateLogRetention,
+  exportApiLogs,
+  getAnalytics,
+  getLogRedaction,
+  updateLogRedaction,
 } from '../controllers/apiLogController';
+import {
+  validateApiLogFilters,
+  validateListApiLogs,
+  validateExportApiLogs,
+  validateApiLogAnalytics,
+  validateUpdateLogRetention,
+  validateUpdateLogRedaction,
+} from '../middleware/apiLogValidators';
 
 const router = Router();
 
@@ -15,8 +30,26 @@ const router = Router();
  * All routes require authentication
  */
 
-// GET /api/logs - Get all API logs for authenticated user
-router.get('/', authMiddleware, getAllApiLogs);
+// GET /api/logs - Get API logs for authenticated user (filters: method, statusMin, statusMax, endpoint, tokenId, source, from, to, q)
+router.get('/', authMiddleware, validateListApiLogs, getAllApiLogs);
+
+// GET /api/logs/export - Download API logs as HAR, NDJSON or CSV (same filters as the list)
+router.get('/export', authMiddleware, validateExportApiLogs, exportApiLogs);
+
+// GET /api/logs/analytics - Get usage analytics (calls by day, endpoint, token and status class)
+router.get('/analytics', authMiddleware, validateApiLogAnalytics, getAnalytics);
+
+// GET /api/logs/retention - Get the log retention policy
+router.get('/retention', authMiddleware, getLogRetention);
+
+// PUT /api/logs/retention - Update the log retention policy
+router.put('/retention', authMiddleware, validateUpdateLogRetention, updateLogRetention);
+
+// GET /api/logs/redaction - Get the redaction rules applied before logs are written
+router.get('/redaction', authMiddleware, getLogRedaction);
+
+// PUT /api/logs/redaction - Update the JSON paths redacted from the logs
+router.put('/redaction', authMiddleware, validateUpdateLogRedaction, updateLogRedaction);
 
 // GET /api/logs/:id - Get a specific API log
 router.get(
@@ -42,6 +75,17 @@ router.post(
   createApiLog
 );
 
+// POST /api/logs/:id/replay - Send a logged Helix call again (optionally with another token)
+router.post(
+  '/:id/replay',
+  authMiddleware,
+  [
+    param('id').isUUID(),
+    body('tokenId').optional().isUUID(),
+  ],
+  replayApiLog
+);
+
 // DELETE /api/logs/:id - Delete a specific API log
 router.delete(
   '/:id',
@@ -50,7 +94,7 @@ router.delete(
   deleteApiLog
 );
 
-// DELETE /api/logs - Delete all API logs for authenticated user
-router.delete('/', authMiddleware, deleteAllApiLogs);
+// DELETE /api/logs - Delete API logs for authenticated user (all, or those matching the filters)
+router.delete('/', authMiddleware, validateApiLogFilters, deleteAllApiLogs);
 
 export default router;
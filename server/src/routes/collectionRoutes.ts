@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/authMiddleware';
+import {
+  validateCreateCollection,
+  validateUpdateCollection,
+  validateDeleteCollection,
+  validateReorderCollections,
+  validateCreateSavedRequest,
+  validateUpdateSavedRequest,
+  validateDeleteSavedRequest,
+  validateReorderSavedRequests,
+} from '../middleware/collectionValidators';
+import {
+  getAllCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  createSavedRequest,
+  updateSavedRequest,
+  deleteSavedRequest,
+  reorderSavedRequests,
+} from '../controllers/collectionController';
+
+const router = Router();
+
+/**
+ * All routes require authentication
+ */
+
+// GET /api/collections - Get all collections with their saved requests
+router.get('/', authMiddleware, getAllCollections);
+
+// POST /api/collections - Create a new collection
+router.post('/', authMiddleware, validateCreateCollection, createCollection);
+
+// PUT /api/collections/order - Reorder collections
+router.put('/order', authMiddleware, validateReorderCollections, reorderCollections);
+
+// PUT /api/collections/:id - Rename a collection
+router.put('/:id', authMiddleware, validateUpdateCollection, updateCollection);
+
+// DELETE /api/collections/:id - Delete a collection and its requests
+router.delete('/:id', authMiddleware, validateDeleteCollection, deleteCollection);
+
+// POST /api/collections/:id/requests - Save a request in a collection
+router.post('/:id/requests', authMiddleware, validateCreateSavedRequest, createSavedRequest);
+
+// PUT /api/collections/:id/requests/order - Reorder the requests of a collection
+router.put('/:id/requests/order', authMiddleware, validateReorderSavedRequests, reorderSavedRequests);
+
+// PUT /api/collections/:id/requests/:requestId - Update or move a saved request
+router.put('/:id/requests/:requestId', authMiddleware, validateUpdateSavedRequest, updateSavedRequest);
+
+// DELETE /api/collections/:id/requests/:requestId - Delete a saved request
+router.delete('/:id/requests/:requestId', authMiddleware, validateDeleteSavedRequest, deleteSavedRequest);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/authMiddleware';
+import {
+  validateCreateEnvironment,
+  validateUpdateEnvironment,
+  validateDeleteEnvironment,
+} from '../middleware/environmentValidators';
+import {
+  getAllEnvironments,
+  createEnvironment,
+  updateEnvironment,
+  deleteEnvironment,
+} from '../controllers/environmentController';
+
+const router = Router();
+
+/**
+ * All routes require authentication
+ */
+
+// GET /api/environments - Get all environments for authenticated user
+router.get('/', authMiddleware, getAllEnvironments);
+
+// POST /api/environments - Create a new environment
+router.post('/', authMiddleware, validateCreateEnvironment, createEnvironment);
+
+// PUT /api/environments/:id - Update an environment
+router.put('/:id', authMiddleware, validateUpdateEnvironment, updateEnvironment);
+
+// DELETE /api/environments/:id - Delete an environment
+router.delete('/:id', authMiddleware, validateDeleteEnvironment, deleteEnvironment);
+
+export default router;
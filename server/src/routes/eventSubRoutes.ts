@@ -0,0 +1,21 @@
+import express, { Router } from 'express';
+import { param } from 'express-validator';
+import { handleEventSubCallback } from '../controllers/eventSubController';
+
+const router = Router();
+
+/**
+ * Public routes called by Twitch - authenticated by the EventSub HMAC signature.
+ * The raw body is required to verify the signature, so these routes must be
+ * mounted before the global JSON body parser.
+ */
+
+// POST /eventsub/callback/:webhookId - Receive EventSub webhook messages
+router.post(
+  '/callback/:webhookId',
+  express.raw({ type: 'application/json' }),
+  param('webhookId').isUUID(),
+  handleEventSubCallback
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { validateHelixProxy } from '../middleware/helixValidators';
+import { proxyHelixRequest, getRateLimits, getHelixEndpoints } from '../controllers/helixController';
+
+const router = Router();
+
+/**
+ * All routes require authentication
+ */
+
+// GET /api/helix/endpoints - Get the catalog of Helix endpoints
+router.get('/endpoints', authMiddleware, getHelixEndpoints);
+
+// POST /api/helix/proxy - Send a Helix request with a saved token (logged automatically)
+router.post('/proxy', authMiddleware, validateHelixProxy, proxyHelixRequest);
+
+// GET /api/helix/rate-limits - Get the current rate-limit bucket of each token
+router.get('/rate-limits', authMiddleware, getRateLimits);
+
+export default router;
@@ -9,6 +9,9 @@ import {
   validateStartAuthorizationFlow,
   validateAuthorizationCallback,
   validateRefreshToken,
+  validateUpdateKeepAlive,
+  validateRevokeToken,
+  validateMatchToken,
 } from '../middleware/tokenValidators';
 import {
   getAllTokens,
@@ -21,6 +24,9 @@ import {
   handleAuthorizationCallback,
   refreshToken,
   validateSavedToken,
+  updateKeepAlive,
+  revokeToken,
+  matchToken,
 } from '../controllers/tokenController';
 
 const router = Router();
@@ -50,13 +56,22 @@ router.post('/user/authorize', authMiddleware, validateStartAuthorizationFlow, s
 // POST /api/tokens/user/callback - Handle OAuth callback (exchange code for token)
 router.post('/user/callback', authMiddleware, validateAuthorizationCallback, handleAuthorizationCallback);
 
-// POST /api/tokens/:id/refresh - Refresh an existing token
+// POST /api/tokens/match - Find the saved token matching an access token or Client ID
+router.post('/match', authMiddleware, validateMatchToken, matchToken);
+
+// POST /api/tokens/:id/refresh - Refresh a user token (or regenerate an app token in place)
 router.post('/:id/refresh', authMiddleware, validateRefreshToken, refreshToken);
 
+// PATCH /api/tokens/:id/keep-alive - Enable/disable automatic regeneration of an app token
+router.patch('/:id/keep-alive', authMiddleware, validateUpdateKeepAlive, updateKeepAlive);
+
 // GET /api/tokens/:id/validate - Validate a saved token with Twitch API
 router.get('/:id/validate', authMiddleware, validateGetToken, validateSavedToken);
 
-// DELETE /api/tokens/:id - Delete a saved token
+// POST /api/tokens/:id/revoke - Revoke a token at Twitch (kept and marked as revoked)
+router.post('/:id/revoke', authMiddleware, validateRevokeToken, revokeToken);
+
+// DELETE /api/tokens/:id - Delete a saved token (?revoke=true revokes it at Twitch first)
 router.delete('/:id', authMiddleware, validateDeleteToken, deleteToken);
 
 export default router;
@@ -5,6 +5,7 @@ import {
   validateUpdateConfig,
   validateDeleteConfig,
   validateGetConfig,
+  validateRevokeConfigTokens,
 } from '../middleware/twitchConfigValidators';
 import {
   getAllConfigs,
@@ -13,6 +14,7 @@ import {
   updateConfig,
   deleteConfig,
   validateConfig,
+  revokeConfigTokens,
 } from '../controllers/twitchConfigController';
 
 const router = Router();
@@ -36,6 +38,9 @@ router.post('/validate', authMiddleware, validateCreateConfig, validateConfig);
 // PUT /api/twitch-configs/:id - Update a config
 router.put('/:id', authMiddleware, validateUpdateConfig, updateConfig);
 
+// POST /api/twitch-configs/:id/revoke-tokens - Revoke all tokens of a config at Twitch
+router.post('/:id/revoke-tokens', authMiddleware, validateRevokeConfigTokens, revokeConfigTokens);
+
 // DELETE /api/twitch-configs/:id - Delete a config
 router.delete('/:id', authMiddleware, validateDeleteConfig, deleteConfig);
 
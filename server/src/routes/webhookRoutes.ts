@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/authMiddleware';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import {
   getAllWebhooks,
   createWebhook,
@@ -8,7 +8,13 @@ import {
   getEventSubTypes,
   getRemoteWebhooks,
   syncWebhooks,
+  getWebhookEvents,
+  getWebSocketSessions,
+  connectWebSocketSession,
+  disconnectWebSocketSession,
+  triggerTestEvent,
 } from '../controllers/webhookController';
+import { EVENTSUB_TYPES } from '../config/eventSubTypes';
 
 const router = Router();
 
@@ -28,19 +34,81 @@ router.get('/remote', authMiddleware, getRemoteWebhooks);
 // POST /api/webhooks/sync - Sync EventSub subscriptions from Twitch to database
 router.post('/sync', authMiddleware, syncWebhooks);
 
-// POST /api/webhooks - Create a new EventSub subscription
+// POST /api/webhooks/test-event - Send a signed mock EventSub message (to a webhook or any callback URL)
+router.post(
+  '/test-event',
+  authMiddleware,
+  [
+    body('messageType')
+      .isIn(['webhook_callback_verification', 'notification', 'revocation'])
+      .withMessage('Message type must be webhook_callback_verification, notification or revocation'),
+    body('webhookId').optional().isUUID().withMessage('Webhook ID must be a valid UUID'),
+    body('callbackUrl')
+      .if(body('webhookId').not().exists())
+      .isURL({ require_tld: false })
+      .withMessage('Callback URL is required when no webhook is selected'),
+    body('secret')
+      .if(body('webhookId').not().exists())
+      .isLength({ min: 10, max: 100 })
+      .withMessage('Secret must be between 10 and 100 characters'),
+    body('type')
+      .if(body('webhookId').not().exists())
+      .isIn(EVENTSUB_TYPES.map((t) => t.type))
+      .withMessage('Unknown EventSub type'),
+    body('condition').optional().isObject().withMessage('Condition must be an object'),
+  ],
+  triggerTestEvent
+);
+
+// GET /api/webhooks/websocket/sessions - Get EventSub WebSocket sessions
+router.get('/websocket/sessions', authMiddleware, getWebSocketSessions);
+
+// POST /api/webhooks/websocket/sessions - Connect an EventSub WebSocket session for a user token
+router.post(
+  '/websocket/sessions',
+  authMiddleware,
+  body('tokenId').isUUID().withMessage('Token ID must be a valid UUID'),
+  connectWebSocketSession
+);
+
+// DELETE /api/webhooks/websocket/sessions/:tokenId - Disconnect an EventSub WebSocket session
+router.delete(
+  '/websocket/sessions/:tokenId',
+  authMiddleware,
+  param('tokenId').isUUID(),
+  disconnectWebSocketSession
+);
+
+// POST /api/webhooks - Create a new EventSub subscription (omit callbackUrl to use the built-in receiver)
 router.post(
   '/',
   authMiddleware,
   [
     body('tokenId').isUUID().withMessage('Token ID must be a valid UUID'),
-    body('type').isString().notEmpty().withMessage('Type is required'),
+    body('type').isIn(EVENTSUB_TYPES.map((t) => t.type)).withMessage('Unknown EventSub type'),
     body('condition').isObject().withMessage('Condition must be an object'),
-    body('callbackUrl').isURL().withMessage('Callback URL must be a valid URL'),
+    body('transport').optional().isIn(['webhook', 'websocket']).withMessage('Transport must be webhook or websocket'),
+    body('callbackUrl').optional().isURL().withMessage('Callback URL must be a valid URL'),
   ],
   createWebhook
 );
 
+// GET /api/webhooks/:id/events - Get events received for a webhook
+router.get(
+  '/:id/events',
+  authMiddleware,
+  [
+    param('id').isUUID(),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('offset').optional().isInt({ min: 0 }),
+    query('messageType').optional().isIn(['notification', 'revocation']),
+    query('subscriptionType').optional().isString(),
+    query('from').optional().isISO8601(),
+    query('to').optional().isISO8601(),
+  ],
+  getWebhookEvents
+);
+
 // DELETE /api/webhooks/:id - Delete a webhook
 router.delete(
   '/:id',
@@ -0,0 +1,140 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Busiest endpoints returned
+const TOP_ENDPOINTS = 10;
+
+/**
+ * Call counts and latency of a group of logs.
+ * Successes are 2xx/3xx responses, errors are 4xx/5xx responses and calls that got no response.
+ */
+export interface ApiLogStats {
+  total: number;
+  successes: number;
+  errors: number;
+  successRate: number | null; // 0-1, null without calls
+  errorRate: number | null;
+  p50: number | null; // Latency in ms, null until durations are recorded
+  p95: number | null;
+}
+
+export interface ApiLogAnalytics {
+  from: string;
+  to: string;
+  days: number;
+  summary: ApiLogStats;
+  byDay: (ApiLogStats & { date: string })[]; // UTC days, oldest first, days without calls included
+  byEndpoint: (ApiLogStats & { method: string; endpoint: string })[];
+  byToken: (ApiLogStats & { tokenId: string | null; tokenName: string | null; tokenType: string | null })[];
+  byStatusClass: { statusClass: string; total: number }[]; // 2xx, 3xx, 4xx, 5xx or network
+}
+
+type StatsRow = {
+  total: number;
+  successes: number;
+  errors: number;
+  p50: number | null;
+  p95: number | null;
+};
+
+const STATS_COLUMNS = Prisma.sql`
+  COUNT(*)::int AS "total",
+  COUNT(*) FILTER (WHERE l."status" BETWEEN 200 AND 399)::int AS "successes",
+  COUNT(*) FILTER (WHERE l."status" IS NULL OR l."status" >= 400)::int AS "errors",
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY l."durationMs") AS "p50",
+  percentile_cont(0.95) WITHIN GROUP (ORDER BY l."durationMs") AS "p95"
+`;
+
+/**
+ * Stats of a row of the aggregate queries, with the rates computed
+ */
+const toStats = (row: StatsRow | undefined): ApiLogStats => {
+  const total = row?.total ?? 0;
+  const successes = row?.successes ?? 0;
+  const errors = row?.errors ?? 0;
+
+  return {
+    total,
+    successes,
+    errors,
+    successRate: total > 0 ? successes / total : null,
+    errorRate: total > 0 ? errors / total : null,
+    p50: row?.p50 !== null && row?.p50 !== undefined ? Math.round(row.p50) : null,
+    p95: row?.p95 !== null && row?.p95 !== undefined ? Math.round(row.p95) : null,
+  };
+};
+
+/**
+ * Aggregate the API logs of a user over the last days
+ * @param days - Number of UTC days, today included
+ * @param tokenId - Only count the calls made with this token
+ */
+export async function getApiLogAnalytics(userId: string, days: number, tokenId?: string): Promise<ApiLogAnalytics> {
+  const to = new Date();
+  const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()) - (days - 1) * DAY_MS);
+
+  const where = Prisma.sql`
+    WHERE l."userId" = ${userId}
+      AND l."createdAt" >= ${from}
+      ${tokenId ? Prisma.sql`AND l."tokenId" = ${tokenId}` : Prisma.empty}
+  `;
+
+  const [summary, byDay, byEndpoint, byToken, byStatusClass] = await Promise.all([
+    prisma.$queryRaw<StatsRow[]>`
+      SELECT ${STATS_COLUMNS} FROM "api_logs" l ${where}
+    `,
+    prisma.$queryRaw<(StatsRow & { date: string })[]>`
+      SELECT to_char(date_trunc('day', l."createdAt"), 'YYYY-MM-DD') AS "date", ${STATS_COLUMNS}
+      FROM "api_logs" l ${where}
+      GROUP BY 1
+    `,
+    // Endpoints are grouped without their query string
+    prisma.$queryRaw<(StatsRow & { method: string; endpoint: string })[]>`
+      SELECT l."method", split_part(l."endpoint", '?', 1) AS "endpoint", ${STATS_COLUMNS}
+      FROM "api_logs" l ${where}
+      GROUP BY 1, 2
+      ORDER BY "total" DESC
+      LIMIT ${TOP_ENDPOINTS}
+    `,
+    prisma.$queryRaw<(StatsRow & { tokenId: string | null; tokenName: string | null; tokenType: string | null })[]>`
+      SELECT l."tokenId", t."name" AS "tokenName", t."tokenType", ${STATS_COLUMNS}
+      FROM "api_logs" l
+      LEFT JOIN "saved_tokens" t ON t."id" = l."tokenId"
+      ${where}
+      GROUP BY 1, 2, 3
+      ORDER BY "total" DESC
+    `,
+    prisma.$queryRaw<{ statusClass: string; total: number }[]>`
+      SELECT
+        CASE WHEN l."status" IS NULL THEN 'network' ELSE (l."status" / 100)::text || 'xx' END AS "statusClass",
+        COUNT(*)::int AS "total"
+      FROM "api_logs" l ${where}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+  ]);
+
+  // One entry per day, even without calls, so charts keep their scale
+  const dayRows = new Map(byDay.map((row) => [row.date, row]));
+  const dates = Array.from({ length: days }, (_, index) =>
+    new Date(from.getTime() + index * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    days,
+    summary: toStats(summary[0]),
+    byDay: dates.map((date) => ({ date, ...toStats(dayRows.get(date)) })),
+    byEndpoint: byEndpoint.map((row) => ({ method: row.method, endpoint: row.endpoint, ...toStats(row) })),
+    byToken: byToken.map((row) => ({
+      tokenId: row.tokenId,
+      tokenName: row.tokenName,
+      tokenType: row.tokenType,
+      ...toStats(row),
+    })),
+    byStatusClass,
+  };
+}
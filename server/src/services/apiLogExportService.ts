@@ -0,0 +1,155 @@
+import { STATUS_CODES } from 'http';
+import { TWITCH_HELIX_URL } from './helixService';
+import { ApiLogWithToken, formatApiLog } from './apiLogService';
+
+export type ApiLogExportFormat = 'har' | 'ndjson' | 'csv';
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Content type and file extension of each export format
+ */
+export const EXPORT_FORMATS: Record<ApiLogExportFormat, { contentType: string; extension: string }> = {
+  har: { contentType: 'application/json; charset=utf-8', extension: 'har' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+};
+
+const CSV_COLUMNS = [
+  'id', 'createdAt', 'method', 'endpoint', 'status', 'source', 'tokenName',
+  'durationMs', 'rateLimitRemaining', 'error', 'requestBody', 'responseBody',
+];
+
+const parseHeaders = (headers: string | null): HarNameValue[] =>
+  headers
+    ? Object.entries(JSON.parse(headers) as Record<string, string>).map(([name, value]) => ({ name, value: String(value) }))
+    : [];
+
+/**
+ * Absolute URL of a logged call, endpoints of Helix calls are relative to the Helix base URL
+ */
+const toUrl = (endpoint: string): string =>
+  endpoint.startsWith('/') ? `${TWITCH_HELIX_URL}${endpoint}` : endpoint;
+
+/**
+ * HAR 1.2 entry of a log. Calls that got no response have status 0, like in browser HARs.
+ */
+export function toHarEntry(log: ApiLogWithToken) {
+  const url = toUrl(log.endpoint);
+  const requestHeaders = parseHeaders(log.requestHeaders);
+  const responseHeaders = parseHeaders(log.responseHeaders);
+  const responseType = responseHeaders.find(({ name }) => name.toLowerCase() === 'content-type')?.value;
+  const durationMs = log.durationMs ?? 0;
+
+  return {
+    startedDateTime: log.createdAt.toISOString(),
+    time: durationMs,
+    request: {
+      method: log.method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: requestHeaders,
+      queryString: URL.canParse(url)
+        ? [...new URL(url).searchParams].map(([name, value]) => ({ name, value }))
+        : [],
+      ...(log.requestBody && {
+        postData: {
+          mimeType: 'application/json',
+          text: log.requestBody,
+        },
+      }),
+      headersSize: -1,
+      bodySize: log.requestBody ? Buffer.byteLength(log.requestBody) : 0,
+    },
+    response: {
+      status: log.status ?? 0,
+      statusText: (log.status && STATUS_CODES[log.status]) || '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: log.responseBody ? Buffer.byteLength(log.responseBody) : 0,
+        mimeType: responseType || 'application/json',
+        ...(log.responseBody && { text: log.responseBody }),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    // Only the round trip is measured
+    timings: {
+      send: 0,
+      wait: durationMs,
+      receive: 0,
+    },
+    ...(log.error && { _error: log.error }),
+    _source: log.source,
+  };
+}
+
+/**
+ * Quote a CSV value when needed. Values that spreadsheets would run as formulas are prefixed with '.
+ */
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'string' ? value : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Beginning of an export, before the first log
+ */
+export function getExportHeader(format: ApiLogExportFormat): string {
+  if (format === 'har') {
+    return `{"log":{"version":"1.2","creator":{"name":"twitch-developer-hub","version":"1.0.0"},"entries":[`;
+  }
+  if (format === 'csv') {
+    return `${CSV_COLUMNS.join(',')}\r\n`;
+  }
+  return '';
+}
+
+/**
+ * One log in an export
+ * @param isFirst - HAR entries after the first one are separated by a comma
+ */
+export function formatExportedLog(format: ApiLogExportFormat, log: ApiLogWithToken, isFirst: boolean): string {
+  if (format === 'har') {
+    return `${isFirst ? '' : ','}\n${JSON.stringify(toHarEntry(log))}`;
+  }
+  if (format === 'csv') {
+    return `${[
+      log.id,
+      log.createdAt.toISOString(),
+      log.method,
+      log.endpoint,
+      log.status,
+      log.source,
+      log.token?.name,
+      log.durationMs,
+      log.rateLimitRemaining,
+      log.error,
+      log.requestBody,
+      log.responseBody,
+    ].map(toCsvValue).join(',')}\r\n`;
+  }
+  return `${JSON.stringify(formatApiLog(log))}\n`;
+}
+
+/**
+ * End of an export, after the last log
+ */
+export function getExportFooter(format: ApiLogExportFormat): string {
+  return format === 'har' ? '\n]}}\n' : '';
+}
@@ -0,0 +1,234 @@
+import { Prisma, User } from '@prisma/client';
+import { Request } from 'express';
+import prisma from '../config/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Logs read per query when going through all the logs of a user
+const BATCH_SIZE = 500;
+
+/**
+ * Token fields returned with a log
+ */
+export const API_LOG_INCLUDE = {
+  token: {
+    select: {
+      id: true,
+      name: true,
+      tokenType: true,
+    },
+  },
+} satisfies Prisma.ApiLogInclude;
+
+export type ApiLogWithToken = Prisma.ApiLogGetPayload<{ include: typeof API_LOG_INCLUDE }>;
+
+/**
+ * Filters of the API log list, all optional
+ */
+export interface ApiLogFilters {
+  method?: string;
+  statusMin?: number;
+  statusMax?: number;
+  endpoint?: string; // Substring of the endpoint
+  tokenId?: string;
+  source?: string;
+  from?: Date;
+  to?: Date;
+  search?: string; // Free text searched in the endpoint, bodies and error
+}
+
+export type LogRetentionPolicy = Pick<User, 'logRetentionDays' | 'logRetentionMaxRows'>;
+
+/**
+ * Read the log filters from query parameters (validated by validateApiLogFilters)
+ */
+export function parseApiLogFilters(query: Request['query']): ApiLogFilters {
+  const text = (name: string): string | undefined => {
+    const value = query[name];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+
+  const statusMin = text('statusMin');
+  const statusMax = text('statusMax');
+  const from = text('from');
+  const to = text('to');
+
+  return {
+    method: text('method'),
+    statusMin: statusMin !== undefined ? parseInt(statusMin) : undefined,
+    statusMax: statusMax !== undefined ? parseInt(statusMax) : undefined,
+    endpoint: text('endpoint'),
+    tokenId: text('tokenId'),
+    source: text('source'),
+    from: from !== undefined ? new Date(from) : undefined,
+    to: to !== undefined ? new Date(to) : undefined,
+    search: text('q'),
+  };
+}
+
+/**
+ * Query parameter read for each filter
+ */
+const FILTER_PARAMS: Record<keyof ApiLogFilters, string> = {
+  method: 'method',
+  statusMin: 'statusMin',
+  statusMax: 'statusMax',
+  endpoint: 'endpoint',
+  tokenId: 'tokenId',
+  source: 'source',
+  from: 'from',
+  to: 'to',
+  search: 'q',
+};
+
+/**
+ * Filter query parameters that were sent but are missing from the parsed filters
+ * (e.g. repeated, so not a single string). Matching without them would select more logs.
+ */
+export function getUnparsedApiLogFilters(query: Request['query'], filters: ApiLogFilters): string[] {
+  return (Object.keys(FILTER_PARAMS) as (keyof ApiLogFilters)[])
+    .filter((key) => {
+      const value = query[FILTER_PARAMS[key]];
+      if (value === undefined || value === '') {
+        return false;
+      }
+
+      const parsed = filters[key];
+      return parsed === undefined ||
+        (typeof parsed === 'number' && isNaN(parsed)) ||
+        (parsed instanceof Date && isNaN(parsed.getTime()));
+    })
+    .map((key) => FILTER_PARAMS[key]);
+}
+
+/**
+ * Prisma condition matching the logs of a user with the given filters
+ */
+export function buildApiLogWhere(userId: string, filters: ApiLogFilters): Prisma.ApiLogWhereInput {
+  const where: Prisma.ApiLogWhereInput = { userId };
+
+  if (filters.method) {
+    where.method = filters.method;
+  }
+  if (filters.statusMin !== undefined || filters.statusMax !== undefined) {
+    where.status = {
+      ...(filters.statusMin !== undefined && { gte: filters.statusMin }),
+      ...(filters.statusMax !== undefined && { lte: filters.statusMax }),
+    };
+  }
+  if (filters.endpoint) {
+    where.endpoint = { contains: filters.endpoint, mode: 'insensitive' };
+  }
+  if (filters.tokenId) {
+    where.tokenId = filters.tokenId;
+  }
+  if (filters.source) {
+    where.source = filters.source;
+  }
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+  if (filters.search) {
+    // Bodies are stored as JSON strings, so this also matches keys and values
+    where.OR = ['endpoint', 'requestBody', 'responseBody', 'error'].map((field) => ({
+      [field]: { contains: filters.search, mode: 'insensitive' },
+    }));
+  }
+
+  return where;
+}
+
+/**
+ * API representation of a log, with its JSON columns parsed
+ */
+export function formatApiLog(log: ApiLogWithToken) {
+  return {
+    id: log.id,
+    tokenId: log.tokenId,
+    tokenName: log.token?.name || null,
+    tokenType: log.token?.tokenType || null,
+    method: log.method,
+    endpoint: log.endpoint,
+    status: log.status,
+    source: log.source,
+    requestHeaders: log.requestHeaders ? JSON.parse(log.requestHeaders) : null,
+    requestBody: log.requestBody ? JSON.parse(log.requestBody) : null,
+    responseHeaders: log.responseHeaders ? JSON.parse(log.responseHeaders) : null,
+    responseBody: log.responseBody ? JSON.parse(log.responseBody) : null,
+    durationMs: log.durationMs,
+    rateLimit: log.rateLimitLimit !== null ? {
+      limit: log.rateLimitLimit,
+      remaining: log.rateLimitRemaining,
+      reset: log.rateLimitReset?.toISOString() || null,
+    } : null,
+    error: log.error,
+    redactedFields: log.redactedFields,
+    createdAt: log.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Go through the logs matching a condition, newest first, a batch at a time
+ * so that large exports are never loaded in memory at once
+ */
+export async function* iterateApiLogs(where: Prisma.ApiLogWhereInput): AsyncGenerator<ApiLogWithToken> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const logs = await prisma.apiLog.findMany({
+      where,
+      include: API_LOG_INCLUDE,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    yield* logs;
+
+    const last = logs[logs.length - 1];
+    if (logs.length < BATCH_SIZE || !last) {
+      return;
+    }
+    cursor = last.id;
+  }
+}
+
+/**
+ * Delete the logs of a user that fall outside their retention policy
+ * @returns Number of deleted logs
+ */
+export async function pruneApiLogs(userId: string, policy: LogRetentionPolicy): Promise<number> {
+  let count = 0;
+
+  if (policy.logRetentionDays) {
+    const result = await prisma.apiLog.deleteMany({
+      where: {
+        userId,
+        createdAt: { lt: new Date(Date.now() - policy.logRetentionDays * DAY_MS) },
+      },
+    });
+    count += result.count;
+  }
+
+  if (policy.logRetentionMaxRows) {
+    // Oldest log that is kept, everything before it goes
+    const oldestKept = await prisma.apiLog.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: policy.logRetentionMaxRows - 1,
+      select: { createdAt: true },
+    });
+
+    if (oldestKept) {
+      const result = await prisma.apiLog.deleteMany({
+        where: { userId, createdAt: { lt: oldestKept.createdAt } },
+      });
+      count += result.count;
+    }
+  }
+
+  return count;
+}
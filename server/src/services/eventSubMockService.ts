@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios, { LookupAddressEntry } from 'axios';
+import { EVENTSUB_HEADERS, MOCK_EVENTSUB_HEADER, computeEventSubSignature } from './eventSubService';
+
+export type MockEventSubMessageType = 'webhook_callback_verification' | 'notification' | 'revocation';
+
+/**
+ * Options for sending a mock EventSub message
+ */
+export interface MockEventSubOptions {
+  callbackUrl: string;
+  secret: string;
+  messageType: MockEventSubMessageType;
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+  subscriptionId?: string;
+  allowPrivateAddresses?: boolean; // Only for the hub's own receiver
+}
+
+/**
+ * Result of delivering a mock EventSub message
+ */
+export interface MockEventSubResult {
+  messageId: string;
+  messageType: MockEventSubMessageType;
+  callbackUrl: string;
+  request: {
+    headers: Record<string, string>;
+    body: any;
+  };
+  response: {
+    status: number | null;
+    body: string | null;
+    durationMs: number;
+  };
+  error: string | null;
+  challengeVerified?: boolean; // Only for webhook_callback_verification
+}
+
+/**
+ * Loopback, private, link-local and other non-public ranges. Callback URLs given by users
+ * may not resolve to them, so test events cannot be used to probe the hub's own network,
+ * unless EVENTSUB_MOCK_ALLOW_PRIVATE_ADDRESSES is set (e.g. to test a bot on localhost or the LAN).
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a non-public range (IPv4-mapped IPv6 addresses included)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped?.[1]) {
+    return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup for outgoing test events that refuses private addresses. It runs when the
+ * connection is made, so a host cannot resolve to a public address first and a private one later.
+ */
+function publicLookup(
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: LookupAddressEntry[]) => void
+): void {
+  dns.lookup(hostname, { all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(`${hostname} resolves to a private address`), []);
+      return;
+    }
+    // axios derives the family from the address
+    callback(null, addresses.map(({ address }) => ({ address })));
+  });
+}
+
+const DEFAULT_BROADCASTER_ID = '12345678';
+const MOCK_USER_ID = '87654321';
+
+/**
+ * Build the id/login/name fields Twitch uses for users in event payloads
+ * @param prefix - Field prefix (e.g. broadcaster_user, user, moderator_user)
+ * @param id - User ID
+ * @param login - User login
+ */
+function mockUser(prefix: string, id: string, login: string): Record<string, string> {
+  return {
+    [`${prefix}_id`]: id,
+    [`${prefix}_login`]: login,
+    [`${prefix}_name`]: login.charAt(0).toUpperCase() + login.slice(1),
+  };
+}
+
+/**
+ * Build a sample event for a subscription type, similar to Twitch CLI `event trigger`
+ * @param type - Subscription type
+ * @param condition - Subscription condition, used for the IDs in the event
+ * @returns Sample event payload
+ */
+export function buildMockEvent(type: string, condition: Record<string, string>): Record<string, any> {
+  const now = new Date().toISOString();
+  const broadcaster = mockUser(
+    'broadcaster_user',
+    condition.broadcaster_user_id || condition.to_broadcaster_user_id || DEFAULT_BROADCASTER_ID,
+    'testbroadcaster'
+  );
+  const user = mockUser('user', MOCK_USER_ID, 'testuser');
+
+  switch (type) {
+    case 'stream.online':
+      return {
+        id: crypto.randomInt(1_000_000_000).toString(),
+        ...broadcaster,
+        type: 'live',
+        started_at: now,
+      };
+
+    case 'stream.offline':
+      return { ...broadcaster };
+
+    case 'channel.update':
+      return {
+        ...broadcaster,
+        title: 'Test stream title',
+        language: 'en',
+        category_id: '509658',
+        category_name: 'Just Chatting',
+        content_classification_labels: [],
+      };
+
+    case 'channel.follow':
+      return { ...user, ...broadcaster, followed_at: now };
+
+    case 'channel.subscribe':
+      return { ...user, ...broadcaster, tier: '1000', is_gift: false };
+
+    case 'channel.subscription.gift':
+      return { ...user, ...broadcaster, total: 5, tier: '1000', cumulative_total: 25, is_anonymous: false };
+
+    case 'channel.cheer':
+      return { is_anonymous: false, ...user, ...broadcaster, message: 'Cheer100 test cheer', bits: 100 };
+
+    case 'channel.raid':
+      return {
+        ...mockUser('from_broadcaster_user', condition.from_broadcaster_user_id || MOCK_USER_ID, 'testraider'),
+        ...mockUser('to_broadcaster_user', condition.to_broadcaster_user_id || DEFAULT_BROADCASTER_ID, 'testbroadcaster'),
+        viewers: 42,
+      };
+
+    case 'channel.ban':
+      return {
+        ...user,
+        ...broadcaster,
+        ...mockUser('moderator_user', condition.moderator_user_id || DEFAULT_BROADCASTER_ID, 'testmoderator'),
+        reason: 'Test ban',
+        banned_at: now,
+        ends_at: null,
+        is_permanent: true,
+      };
+
+    case 'channel.moderator.add':
+      return { ...broadcaster, ...user };
+
+    default: {
+      // Unknown types get the user fields of every *_user_id in the condition
+      const event: Record<string, any> = {};
+      for (const [key, value] of Object.entries(condition)) {
+        if (key.endsWith('_user_id')) {
+          Object.assign(event, mockUser(key.slice(0, -3), value, 'testuser'));
+        } else {
+          event[key] = value;
+        }
+      }
+      return event;
+    }
+  }
+}
+
+/**
+ * Send a correctly signed EventSub message to a callback URL, the way Twitch would
+ * @param options - Target, secret and subscription to simulate
+ * @returns Request sent and response received
+ */
+export async function sendMockEventSubMessage(options: MockEventSubOptions): Promise<MockEventSubResult> {
+  const { callbackUrl, secret, messageType, type, version, condition } = options;
+  const allowPrivateAddresses = options.allowPrivateAddresses ||
+    process.env.EVENTSUB_MOCK_ALLOW_PRIVATE_ADDRESSES === 'true';
+  const messageId = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+
+  const subscription = {
+    id: options.subscriptionId || crypto.randomUUID(),
+    status: messageType === 'webhook_callback_verification'
+      ? 'webhook_callback_verification_pending'
+      : messageType === 'revocation'
+      ? 'authorization_revoked'
+      : 'enabled',
+    type,
+    version,
+    cost: 0,
+    condition,
+    transport: {
+      method: 'webhook',
+      callback: callbackUrl,
+    },
+    created_at: timestamp,
+  };
+
+  const challenge = crypto.randomBytes(16).toString('hex');
+  const body = messageType === 'webhook_callback_verification'
+    ? { challenge, subscription }
+    : messageType === 'revocation'
+    ? { subscription }
+    : { subscription, event: buildMockEvent(type, condition) };
+
+  // Sign the exact bytes that are sent
+  const rawBody = JSON.stringify(body);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [EVENTSUB_HEADERS.messageId]: messageId,
+    [EVENTSUB_HEADERS.messageRetry]: '0',
+    [EVENTSUB_HEADERS.messageType]: messageType,
+    [EVENTSUB_HEADERS.messageSignature]: computeEventSubSignature(secret, messageId, timestamp, rawBody),
+    [EVENTSUB_HEADERS.messageTimestamp]: timestamp,
+    [EVENTSUB_HEADERS.subscriptionType]: type,
+    [EVENTSUB_HEADERS.subscriptionVersion]: version,
+    [MOCK_EVENTSUB_HEADER]: 'true',
+  };
+
+  const result: MockEventSubResult = {
+    messageId,
+    messageType,
+    callbackUrl,
+    request: { headers, body },
+    response: { status: null, body: null, durationMs: 0 },
+    error: null,
+  };
+
+  const startedAt = Date.now();
+  try {
+    // IP literals are connected to without a lookup
+    const hostname = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, '');
+    if (!allowPrivateAddresses && net.isIP(hostname) && isPrivateAddress(hostname)) {
+      throw new Error(`${hostname} is a private address`);
+    }
+
+    const response = await axios.post(callbackUrl, rawBody, {
+      headers,
+      timeout: 10000,
+      ...(!allowPrivateAddresses && {
+        lookup: publicLookup,
+        maxRedirects: 0, // A redirect could point anywhere
+      }),
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true, // Report every status instead of throwing
+    });
+
+    result.response = {
+      status: response.status,
+      body: response.data || null,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error: any) {
+    result.response.durationMs = Date.now() - startedAt;
+    result.error = error.message;
+  }
+
+  if (messageType === 'webhook_callback_verification') {
+    result.challengeVerified = result.response.status === 200 && result.response.body === challenge;
+  }
+
+  return result;
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { twitchRequest, TwitchLogContext } from './twitchClient';
+
+export const TWITCH_EVENTSUB_URL = 'https://api.twitch.tv/helix/eventsub/subscriptions';
+
+// Pages of subscriptions followed when listing them (100 subscriptions per page)
+export const EVENTSUB_MAX_PAGES = 100;
+
+/**
+ * Headers sent by Twitch with every EventSub webhook message
+ */
+export const EVENTSUB_HEADERS = {
+  messageId: 'twitch-eventsub-message-id',
+  messageRetry: 'twitch-eventsub-message-retry',
+  messageType: 'twitch-eventsub-message-type',
+  messageSignature: 'twitch-eventsub-message-signature',
+  messageTimestamp: 'twitch-eventsub-message-timestamp',
+  subscriptionType: 'twitch-eventsub-subscription-type',
+  subscriptionVersion: 'twitch-eventsub-subscription-version',
+} as const;
+
+/**
+ * Header added to the test messages sent by the hub, so that its own receiver
+ * answers them without touching the webhook status or the event inbox
+ */
+export const MOCK_EVENTSUB_HEADER = 'x-eventsub-mock';
+
+/**
+ * Transport used when creating an EventSub subscription
+ */
+export type EventSubTransport =
+  | { method: 'webhook'; callback: string; secret: string }
+  | { method: 'websocket'; session_id: string };
+
+/**
+ * Messages older than this are rejected to prevent replay attacks
+ */
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Generate a random secret for EventSub webhook verification
+ * @returns A 64 character hex string (Twitch accepts 10-100 characters)
+ */
+export function generateEventSubSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Build the public callback URL for a webhook hosted by this server
+ * @param webhookId - Local webhook ID
+ * @returns Callback URL, or null if PUBLIC_API_URL is not configured
+ */
+export function getHubCallbackUrl(webhookId: string): string | null {
+  const publicUrl = process.env.PUBLIC_API_URL;
+  if (!publicUrl) {
+    return null;
+  }
+
+  return `${publicUrl.replace(/\/+$/, '')}/eventsub/callback/${webhookId}`;
+}
+
+/**
+ * Build the callback URL of the built-in receiver as reachable from this server
+ * (used to deliver mock events without going through the public URL)
+ * @param webhookId - Local webhook ID
+ */
+export function getLocalCallbackUrl(webhookId: string): string {
+  return `http://localhost:${process.env.PORT || 3000}/eventsub/callback/${webhookId}`;
+}
+
+/**
+ * Compute the signature Twitch sends in Twitch-Eventsub-Message-Signature
+ * @param secret - Transport secret used when creating the subscription
+ * @param messageId - Value of Twitch-Eventsub-Message-Id
+ * @param timestamp - Value of Twitch-Eventsub-Message-Timestamp
+ * @param rawBody - Raw request body, exactly as received
+ * @returns Signature in the form "sha256=<hex>"
+ */
+export function computeEventSubSignature(
+  secret: string,
+  messageId: string,
+  timestamp: string,
+  rawBody: Buffer | string
+): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(messageId + timestamp);
+  hmac.update(rawBody);
+
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Verify the HMAC-SHA256 signature of an EventSub webhook message
+ * @returns true if the signature matches
+ */
+export function verifyEventSubSignature(
+  secret: string,
+  messageId: string,
+  timestamp: string,
+  rawBody: Buffer,
+  signature: string
+): boolean {
+  const expected = Buffer.from(computeEventSubSignature(secret, messageId, timestamp, rawBody));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Check whether a message timestamp is too old (or invalid)
+ */
+export function isStaleEventSubMessage(timestamp: string): boolean {
+  const sentAt = Date.parse(timestamp);
+  if (Number.isNaN(sentAt)) {
+    return true;
+  }
+
+  return Date.now() - sentAt > MAX_MESSAGE_AGE_MS;
+}
+
+/**
+ * Persist an EventSub message in the event inbox
+ * @param webhookId - Local webhook the message was delivered to
+ * @param messageId - Twitch-Eventsub-Message-Id
+ * @param messageType - notification or revocation
+ * @param timestamp - Twitch-Eventsub-Message-Timestamp
+ * @param payload - Parsed message body
+ * @param isMock - Test event sent from the hub
+ * @returns false if the message was already recorded (Twitch retry), true otherwise
+ */
+export async function recordEventSubEvent(
+  webhookId: string,
+  messageId: string,
+  messageType: string,
+  timestamp: string,
+  payload: any,
+  isMock = false
+): Promise<boolean> {
+  // Twitch may deliver the same message concurrently, so duplicates are skipped
+  // by the unique messageId in a single insert instead of a lookup first
+  const { count } = await prisma.eventSubEvent.createMany({
+    data: {
+      webhookId,
+      messageId,
+      messageType,
+      subscriptionType: payload.subscription?.type || 'unknown',
+      subscriptionVersion: payload.subscription?.version || '1',
+      payload,
+      messageTimestamp: new Date(timestamp),
+      isMock,
+    },
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+/**
+ * Create an EventSub subscription with Twitch.
+ * Axios errors are not wrapped so callers can relay Twitch's error response.
+ * @param clientId - Client ID of the token's Twitch application
+ * @param accessToken - Decrypted access token
+ * @param type - Subscription type (e.g. stream.online)
+ * @param version - Subscription type version
+ * @param condition - Subscription condition
+ * @param transport - Webhook or WebSocket transport
+ * @param context - User (and token) the call is logged for
+ * @returns The subscription object returned by Twitch
+ */
+export async function createEventSubSubscription(
+  clientId: string,
+  accessToken: string,
+  type: string,
+  version: string,
+  condition: Record<string, string>,
+  transport: EventSubTransport,
+  context: TwitchLogContext
+): Promise<any> {
+  const response = await twitchRequest({
+    method: 'POST',
+    url: TWITCH_EVENTSUB_URL,
+    data: { type, version, condition, transport },
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Client-Id': clientId,
+      'Content-Type': 'application/json',
+    },
+  }, context);
+
+  return response.data.data[0];
+}
+
+/**
+ * Delete an EventSub subscription from Twitch
+ * @param clientId - Client ID of the token's Twitch application
+ * @param accessToken - Decrypted access token
+ * @param subscriptionId - Twitch subscription ID
+ * @param context - User (and token) the call is logged for
+ */
+export async function deleteEventSubSubscription(
+  clientId: string,
+  accessToken: string,
+  subscriptionId: string,
+  context: TwitchLogContext
+): Promise<void> {
+  await twitchRequest({
+    method: 'DELETE',
+    url: TWITCH_EVENTSUB_URL,
+    params: { id: subscriptionId },
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Client-Id': clientId,
+    },
+  }, context);
+}
@@ -0,0 +1,448 @@
+import WebSocket from 'ws';
+import prisma from '../config/database';
+import { getEventSubType } from '../config/eventSubTypes';
+import { createEventSubSubscription, recordEventSubEvent } from './eventSubService';
+import { withTokenRefreshRetry } from './tokenRefreshService';
+
+const EVENTSUB_WEBSOCKET_URL = 'wss://eventsub.wss.twitch.tv/ws';
+
+/**
+ * How long to wait for the session_welcome message after connecting
+ */
+const WELCOME_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Extra time allowed on top of keepalive_timeout_seconds before the connection is considered dead
+ */
+const KEEPALIVE_GRACE_MS = 5 * 1000;
+
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/**
+ * Twitch closes sessions that don't create a subscription within 10 seconds
+ */
+const CLOSE_CODE_CONNECTION_UNUSED = 4003;
+
+export type EventSubSessionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+interface EventSubSession {
+  tokenId: string;
+  userId: string;
+  status: EventSubSessionStatus;
+  sessionId: string | null;
+  socket: WebSocket | null;
+  reconnectSocket: WebSocket | null; // Socket opened from session_reconnect, until its welcome arrives
+  keepaliveTimeoutSeconds: number | null;
+  connectedAt: Date | null;
+  lastMessageAt: Date | null;
+  error: string | null;
+  reconnectAttempts: number;
+  keepaliveTimer: NodeJS.Timeout | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  welcomeWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Public view of an EventSub WebSocket session
+ */
+export interface EventSubSessionInfo {
+  tokenId: string;
+  status: EventSubSessionStatus;
+  sessionId: string | null;
+  keepaliveTimeoutSeconds: number | null;
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  error: string | null;
+}
+
+// One session per saved token, kept in memory for the lifetime of the process
+const sessions = new Map<string, EventSubSession>();
+
+function toSessionInfo(session: EventSubSession): EventSubSessionInfo {
+  return {
+    tokenId: session.tokenId,
+    status: session.status,
+    sessionId: session.sessionId,
+    keepaliveTimeoutSeconds: session.keepaliveTimeoutSeconds,
+    connectedAt: session.connectedAt?.toISOString() ?? null,
+    lastMessageAt: session.lastMessageAt?.toISOString() ?? null,
+    error: session.error,
+  };
+}
+
+function clearTimers(session: EventSubSession): void {
+  if (session.keepaliveTimer) {
+    clearTimeout(session.keepaliveTimer);
+    session.keepaliveTimer = null;
+  }
+  if (session.reconnectTimer) {
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = null;
+  }
+}
+
+function settleWelcomeWaiters(session: EventSubSession, error?: Error): void {
+  const waiters = session.welcomeWaiters;
+  session.welcomeWaiters = [];
+
+  for (const waiter of waiters) {
+    if (error) {
+      waiter.reject(error);
+    } else {
+      waiter.resolve();
+    }
+  }
+}
+
+/**
+ * Restart the keepalive timer; if no message arrives in time the socket is dropped and reconnected
+ */
+function resetKeepaliveTimer(session: EventSubSession, socket: WebSocket): void {
+  if (session.keepaliveTimer) {
+    clearTimeout(session.keepaliveTimer);
+  }
+
+  if (!session.keepaliveTimeoutSeconds) {
+    return;
+  }
+
+  session.keepaliveTimer = setTimeout(() => {
+    console.warn(`EventSub WebSocket keepalive timeout for token ${session.tokenId}`);
+    session.error = 'Keepalive timeout';
+    socket.terminate();
+  }, session.keepaliveTimeoutSeconds * 1000 + KEEPALIVE_GRACE_MS);
+}
+
+function openSocket(session: EventSubSession, url: string): WebSocket {
+  const socket = new WebSocket(url);
+
+  socket.on('message', (data) => {
+    handleMessage(session, socket, data.toString()).catch((error) => {
+      console.error('EventSub WebSocket message error:', error);
+    });
+  });
+
+  socket.on('close', (code, reason) => {
+    handleClose(session, socket, code, reason.toString()).catch((error) => {
+      console.error('EventSub WebSocket close error:', error);
+    });
+  });
+
+  socket.on('error', (error) => {
+    console.error(`EventSub WebSocket error for token ${session.tokenId}:`, error.message);
+    session.error = error.message;
+  });
+
+  return socket;
+}
+
+async function handleMessage(session: EventSubSession, socket: WebSocket, raw: string): Promise<void> {
+  const message = JSON.parse(raw);
+  const { metadata, payload } = message;
+
+  session.lastMessageAt = new Date();
+
+  switch (metadata.message_type) {
+    case 'session_welcome': {
+      const isReconnect = socket === session.reconnectSocket;
+
+      // The old connection stays open until the new one is welcomed
+      if (isReconnect) {
+        const oldSocket = session.socket;
+        session.socket = socket;
+        session.reconnectSocket = null;
+        oldSocket?.close();
+      }
+
+      session.status = 'connected';
+      session.sessionId = payload.session.id;
+      session.keepaliveTimeoutSeconds = payload.session.keepalive_timeout_seconds;
+      session.connectedAt = new Date(payload.session.connected_at);
+      session.error = null;
+      session.reconnectAttempts = 0;
+      resetKeepaliveTimer(session, socket);
+      settleWelcomeWaiters(session);
+
+      // Subscriptions survive a session_reconnect, but a fresh session starts empty
+      if (isReconnect) {
+        await prisma.webhook.updateMany({
+          where: { tokenId: session.tokenId, transportMethod: 'websocket' },
+          data: { sessionId: session.sessionId },
+        });
+      } else {
+        await resubscribeWebhooks(session);
+      }
+      return;
+    }
+
+    case 'session_keepalive':
+      resetKeepaliveTimer(session, socket);
+      return;
+
+    case 'session_reconnect':
+      session.status = 'reconnecting';
+      session.reconnectSocket = openSocket(session, payload.session.reconnect_url);
+      return;
+
+    case 'notification':
+    case 'revocation': {
+      resetKeepaliveTimer(session, socket);
+
+      const webhook = await prisma.webhook.findFirst({
+        where: { subscriptionId: payload.subscription.id },
+      });
+
+      if (!webhook) {
+        return;
+      }
+
+      const isNew = await recordEventSubEvent(
+        webhook.id,
+        metadata.message_id,
+        metadata.message_type,
+        metadata.message_timestamp,
+        payload
+      );
+
+      if (isNew && metadata.message_type === 'revocation') {
+        await prisma.webhook.update({
+          where: { id: webhook.id },
+          data: { status: payload.subscription.status || 'revoked' },
+        });
+      }
+      return;
+    }
+
+    default:
+      console.warn(`Unknown EventSub WebSocket message type: ${metadata.message_type}`);
+  }
+}
+
+async function handleClose(
+  session: EventSubSession,
+  socket: WebSocket,
+  code: number,
+  reason: string
+): Promise<void> {
+  // A failed reconnect socket or the socket replaced by a reconnect
+  if (socket !== session.socket) {
+    if (socket === session.reconnectSocket) {
+      session.reconnectSocket = null;
+    }
+    return;
+  }
+
+  clearTimers(session);
+  session.socket = null;
+  session.sessionId = null;
+
+  if (reason) {
+    session.error = reason;
+  }
+
+  settleWelcomeWaiters(session, new Error(session.error || 'EventSub WebSocket closed'));
+
+  // Twitch disables every subscription of a session when it closes
+  await prisma.webhook.updateMany({
+    where: { tokenId: session.tokenId, transportMethod: 'websocket' },
+    data: { status: 'websocket_disconnected' },
+  });
+
+  if (sessions.get(session.tokenId) !== session) {
+    return;
+  }
+
+  const subscriptionCount = await prisma.webhook.count({
+    where: { tokenId: session.tokenId, transportMethod: 'websocket' },
+  });
+
+  // Nothing to keep alive
+  if (code === CLOSE_CODE_CONNECTION_UNUSED || subscriptionCount === 0) {
+    session.status = 'disconnected';
+    return;
+  }
+
+  session.status = 'reconnecting';
+  session.reconnectAttempts++;
+
+  const delay = Math.min(1000 * 2 ** session.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+  session.reconnectTimer = setTimeout(() => {
+    session.reconnectTimer = null;
+    session.socket = openSocket(session, EVENTSUB_WEBSOCKET_URL);
+  }, delay);
+}
+
+/**
+ * Recreate the WebSocket subscriptions of a token on a new session
+ */
+async function resubscribeWebhooks(session: EventSubSession): Promise<void> {
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      tokenId: session.tokenId,
+      transportMethod: 'websocket',
+      NOT: { sessionId: session.sessionId },
+    },
+  });
+
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const token = await prisma.savedToken.findUnique({
+    where: { id: session.tokenId },
+    include: { twitchConfig: true },
+  });
+
+  if (!token) {
+    return;
+  }
+
+  for (const webhook of webhooks) {
+    try {
+      const { result: subscription } = await withTokenRefreshRetry(token, (accessToken) => createEventSubSubscription(
+        token.twitchConfig.clientId,
+        accessToken,
+        webhook.type,
+        getEventSubType(webhook.type)?.version || '1',
+        webhook.condition as Record<string, string>,
+        { method: 'websocket', session_id: session.sessionId! },
+        { userId: token.userId, tokenId: token.id, source: 'eventsub' }
+      ));
+
+      await prisma.webhook.update({
+        where: { id: webhook.id },
+        data: {
+          subscriptionId: subscription.id,
+          sessionId: session.sessionId,
+          status: subscription.status,
+          cost: subscription.cost || 0,
+        },
+      });
+    } catch (error: any) {
+      console.error(
+        `Failed to resubscribe ${webhook.type} on EventSub WebSocket:`,
+        error.response?.data || error.message
+      );
+    }
+  }
+}
+
+/**
+ * Get the EventSub WebSocket session of a token, connecting if needed
+ * @param tokenId - Saved user token the session belongs to
+ * @param userId - Owner of the token
+ * @returns Session state once the welcome message has been received
+ */
+export async function ensureEventSubSession(tokenId: string, userId: string): Promise<EventSubSessionInfo> {
+  let session = sessions.get(tokenId);
+
+  if (session?.status === 'connected') {
+    return toSessionInfo(session);
+  }
+
+  if (!session) {
+    session = {
+      tokenId,
+      userId,
+      status: 'connecting',
+      sessionId: null,
+      socket: null,
+      reconnectSocket: null,
+      keepaliveTimeoutSeconds: null,
+      connectedAt: null,
+      lastMessageAt: null,
+      error: null,
+      reconnectAttempts: 0,
+      keepaliveTimer: null,
+      reconnectTimer: null,
+      welcomeWaiters: [],
+    };
+    sessions.set(tokenId, session);
+  }
+
+  // Connect now instead of waiting for a scheduled reconnect
+  if (!session.socket) {
+    clearTimers(session);
+    session.status = 'connecting';
+    session.socket = openSocket(session, EVENTSUB_WEBSOCKET_URL);
+  }
+
+  const current = session;
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      current.welcomeWaiters = current.welcomeWaiters.filter((waiter) => waiter.resolve !== done);
+      reject(new Error('Timed out waiting for EventSub WebSocket welcome message'));
+    }, WELCOME_TIMEOUT_MS);
+
+    const done = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+
+    current.welcomeWaiters.push({
+      resolve: done,
+      reject: (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    });
+  });
+
+  return toSessionInfo(current);
+}
+
+/**
+ * Close the EventSub WebSocket session of a token (its subscriptions are disabled by Twitch)
+ * @param tokenId - Saved token the session belongs to
+ * @returns false if there was no session
+ */
+export async function disconnectEventSubSession(tokenId: string): Promise<boolean> {
+  const session = sessions.get(tokenId);
+  if (!session) {
+    return false;
+  }
+
+  sessions.delete(tokenId);
+  clearTimers(session);
+  settleWelcomeWaiters(session, new Error('EventSub WebSocket session closed'));
+
+  session.reconnectSocket?.close();
+  session.socket?.close();
+  session.status = 'disconnected';
+
+  // Update the rows now rather than waiting for the close handshake
+  await prisma.webhook.updateMany({
+    where: { tokenId, transportMethod: 'websocket' },
+    data: { status: 'websocket_disconnected' },
+  });
+
+  return true;
+}
+
+/**
+ * Get the EventSub WebSocket sessions owned by a user
+ */
+export function getEventSubSessions(userId: string): EventSubSessionInfo[] {
+  return Array.from(sessions.values())
+    .filter((session) => session.userId === userId)
+    .map(toSessionInfo);
+}
+
+/**
+ * Reopen sessions for tokens that have WebSocket subscriptions (called on server start)
+ */
+export async function restoreEventSubSessions(): Promise<void> {
+  const webhooks = await prisma.webhook.findMany({
+    where: { transportMethod: 'websocket', tokenId: { not: null } },
+    select: { tokenId: true, userId: true },
+    distinct: ['tokenId'],
+  });
+
+  for (const webhook of webhooks) {
+    try {
+      await ensureEventSubSession(webhook.tokenId!, webhook.userId);
+    } catch (error: any) {
+      console.error(`Failed to restore EventSub WebSocket session for token ${webhook.tokenId}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { AxiosRequestConfig } from 'axios';
+import { twitchRequest, twitchRequestAllPages, TwitchLogContext } from './twitchClient';
+
+export const TWITCH_HELIX_URL = 'https://api.twitch.tv/helix';
+
+export type HelixMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type HelixQuery = Record<string, string | string[]>;
+
+/**
+ * Options for a Helix request made on behalf of a saved token
+ */
+export interface HelixRequestOptions {
+  userId: string;
+  tokenId: string;
+  clientId: string;
+  accessToken: string;
+  method: HelixMethod;
+  path: string; // e.g. /users or /users?login=twitch
+  query?: HelixQuery;
+  body?: any;
+  allPages?: boolean; // Follow pagination.cursor and merge the `data` of every page
+  maxPages?: number; // Page cap when following the cursor
+}
+
+/**
+ * Result of a Helix request, as returned to the client
+ */
+export interface HelixResponse {
+  status: number | null;
+  headers: Record<string, string>;
+  body: any;
+  durationMs: number;
+  endpoint: string; // Path and query string relative to the Helix base URL
+  error: string | null;
+  logId: string | null;
+  pages: number; // Number of pages fetched
+}
+
+/**
+ * Build the Helix URL for a path, merging the query into any query string in the path.
+ * Repeated parameters (e.g. login=a&login=b) are passed as arrays.
+ * @param path - Path relative to the Helix base URL
+ * @param query - Extra query parameters
+ * @returns Full URL, or null if the path leaves the Helix API
+ */
+export function buildHelixUrl(path: string, query: HelixQuery = {}): URL | null {
+  if (!path.startsWith('/')) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(`${TWITCH_HELIX_URL}${path}`);
+  } catch {
+    return null;
+  }
+
+  // Reject anything that resolves outside of /helix (e.g. /../oauth2)
+  if (url.origin !== new URL(TWITCH_HELIX_URL).origin || !url.pathname.startsWith('/helix/')) {
+    return null;
+  }
+
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) => url.searchParams.append(key, item));
+  });
+
+  return url;
+}
+
+/**
+ * Send a request to the Helix API (recorded in the API logs by the Twitch client).
+ * Twitch errors are returned as a response, only network failures set `error`.
+ * @param options - Request options with the decrypted access token
+ * @returns Status, headers and body of the Twitch response
+ */
+export async function sendHelixRequest(options: HelixRequestOptions): Promise<HelixResponse> {
+  const url = buildHelixUrl(options.path, options.query);
+  if (!url) {
+    throw new Error('Path must be a Helix API path, e.g. /users');
+  }
+
+  const endpoint = `${url.pathname.slice('/helix'.length)}${url.search}`;
+  const hasBody = options.method !== 'GET' && options.body !== undefined && options.body !== null;
+  const result: HelixResponse = {
+    status: null,
+    headers: {},
+    body: null,
+    durationMs: 0,
+    endpoint,
+    error: null,
+    logId: null,
+    pages: 0,
+  };
+
+  const config: AxiosRequestConfig = {
+    url: url.toString(),
+    method: options.method,
+    headers: {
+      'Authorization': `Bearer ${options.accessToken}`,
+      'Client-Id': options.clientId,
+      ...(hasBody && { 'Content-Type': 'application/json' }),
+    },
+    data: hasBody ? options.body : undefined,
+    validateStatus: () => true, // Relay every status instead of throwing
+  };
+  const context: TwitchLogContext = { userId: options.userId, tokenId: options.tokenId, source: 'proxy' };
+
+  const startedAt = Date.now();
+  try {
+    let response;
+    if (options.allPages && options.method === 'GET') {
+      const paged = await twitchRequestAllPages(config, context, options.maxPages);
+      response = paged.response;
+      result.pages = paged.pages;
+
+      // Successful pages are merged into one body; a failed page is returned as is
+      result.body = response.status >= 200 && response.status < 300
+        ? { ...response.data, data: paged.data, pagination: paged.cursor ? { cursor: paged.cursor } : {} }
+        : response.data;
+    } else {
+      response = await twitchRequest(config, context);
+      result.pages = 1;
+      result.body = response.data;
+    }
+
+    result.status = response.status;
+    if (result.body === '') {
+      result.body = null;
+    }
+    result.logId = response.logId;
+    Object.entries(response.headers).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        result.headers[key] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    });
+  } catch (error: any) {
+    // Already logged by the Twitch client
+    result.error = error.message || 'Request to Twitch failed';
+  }
+  result.durationMs = Date.now() - startedAt;
+
+  return result;
+}
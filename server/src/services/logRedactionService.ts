@@ -0,0 +1,131 @@
+import prisma from '../config/database';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Keys whose values are never written to the logs, wherever they appear
+ */
+export const SENSITIVE_KEYS = new Set([
+  'access_token',
+  'refresh_token',
+  'client_secret',
+  'token',
+  'code',
+  'device_code',
+  'secret',
+]);
+
+/**
+ * Field of the responses of a Helix endpoint that is never written to the logs
+ */
+export interface RedactionRule {
+  endpoint: string; // Helix path, without query string
+  path: string; // JSON path of the field
+}
+
+/**
+ * Known sensitive fields of Helix responses
+ */
+export const BUILT_IN_RULES: RedactionRule[] = [
+  { endpoint: '/streams/key', path: 'data[*].stream_key' },
+  { endpoint: '/users', path: 'data[*].email' },
+  { endpoint: '/extensions/jwt/secrets', path: 'data[*].secrets[*].content' },
+];
+
+/**
+ * JSON paths accepted in user-defined rules: keys separated by dots,
+ * array items as [n], and * or [*] for any key or item (e.g. data[*].login)
+ */
+export const JSON_PATH = /^(\[(\*|\d+)\]|\*|[A-Za-z0-9_-]+)(\[(\*|\d+)\]|\.(\*|[A-Za-z0-9_-]+))*$/;
+
+export const MAX_REDACTION_PATHS = 50;
+
+/**
+ * Split a JSON path into segments, array indexes included (data[*].email -> data, *, email)
+ */
+export const parseJsonPath = (path: string): string[] =>
+  path.replace(/\[(\*|\d+)\]/g, '.$1').split('.').filter((segment) => segment !== '');
+
+const matchesPath = (pattern: string[], path: string[]): boolean =>
+  pattern.length === path.length && pattern.every((segment, index) => segment === '*' || segment === path[index]);
+
+/**
+ * Replace the values of sensitive keys and of the fields matching the patterns in a JSON value
+ * @param value - Request or response body
+ * @param patterns - Parsed JSON paths to redact
+ * @param fields - Receives the paths of the redacted fields (e.g. data[0].email)
+ * @returns Copy of the value with the fields redacted
+ */
+export function redactJson(
+  value: any,
+  patterns: string[][],
+  fields: string[],
+  path: string[] = [],
+  label: string = ''
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactJson(item, patterns, fields, [...path, String(index)], `${label}[${index}]`));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const itemPath = [...path, key];
+        const itemLabel = label ? `${label}.${key}` : key;
+
+        // Empty values leak nothing, leave them visible
+        const isSensitive = SENSITIVE_KEYS.has(key) || patterns.some((pattern) => matchesPath(pattern, itemPath));
+        if (isSensitive && item !== null && item !== undefined && item !== '') {
+          fields.push(itemLabel);
+          return [key, REDACTED];
+        }
+
+        return [key, redactJson(item, patterns, fields, itemPath, itemLabel)];
+      })
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Redact the bodies of a call before its log entry is written, with the built-in rules
+ * of its endpoint and the JSON paths configured by the user
+ * @param endpoint - Endpoint as logged (Helix path, or full URL for other Twitch APIs)
+ * @returns Redacted bodies and the redacted fields, prefixed with requestBody. or responseBody.
+ */
+export async function redactApiLogBodies(
+  userId: string,
+  endpoint: string,
+  requestBody: any,
+  responseBody: any
+): Promise<{ requestBody: any; responseBody: any; redactedFields: string[] }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { logRedactionPaths: true },
+  });
+
+  const helixPath = endpoint.startsWith('/') ? endpoint.split('?')[0] : null;
+  const patterns = [
+    ...BUILT_IN_RULES.filter((rule) => rule.endpoint === helixPath).map((rule) => rule.path),
+    ...(user?.logRedactionPaths || []),
+  ].map(parseJsonPath);
+
+  const requestFields: string[] = [];
+  const responseFields: string[] = [];
+  const redactedRequest = requestBody !== null && requestBody !== undefined
+    ? redactJson(requestBody, patterns, requestFields)
+    : null;
+  const redactedResponse = responseBody !== null && responseBody !== undefined
+    ? redactJson(responseBody, patterns, responseFields)
+    : null;
+
+  return {
+    requestBody: redactedRequest,
+    responseBody: redactedResponse,
+    redactedFields: [
+      ...requestFields.map((field) => `requestBody${field.startsWith('[') ? '' : '.'}${field}`),
+      ...responseFields.map((field) => `responseBody${field.startsWith('[') ? '' : '.'}${field}`),
+    ],
+  };
+}
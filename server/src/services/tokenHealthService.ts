@@ -0,0 +1,151 @@
+import { SavedToken } from '@prisma/client';
+import prisma from '../config/database';
+import { decrypt } from '../utils/encryption';
+import { validateToken } from './twitchApiService';
+
+/**
+ * Tokens that cannot be renewed automatically are flagged this long before they expire
+ */
+const EXPIRING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validation results older than this are stale (the hourly job has not checked the token)
+ */
+const STALE_AFTER_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * error: the token does not work, warning: it works but needs attention,
+ * unknown: not validated recently, revoked: revoked on purpose, nothing to do
+ */
+export type TokenHealthStatus = 'healthy' | 'warning' | 'error' | 'unknown' | 'revoked';
+
+export type TokenHealthIssue = 'invalid' | 'expired' | 'refresh_failed' | 'expiring' | 'scope_drift';
+
+const ERROR_ISSUES: TokenHealthIssue[] = ['invalid', 'expired', 'refresh_failed'];
+
+export interface TokenHealth {
+  status: TokenHealthStatus;
+  issues: TokenHealthIssue[];
+  missingScopes: string[]; // Saved scopes that Twitch no longer reports
+  extraScopes: string[]; // Scopes Twitch reports that were not saved
+}
+
+/**
+ * Health of a saved token, from its last validation and refresh
+ */
+export function getTokenHealth(token: SavedToken): TokenHealth {
+  if (token.revokedAt) {
+    return { status: 'revoked', issues: [], missingScopes: [], extraScopes: [] };
+  }
+
+  const now = Date.now();
+  const issues: TokenHealthIssue[] = [];
+
+  // Scopes are only compared with a successful validation
+  const missingScopes = token.isValid
+    ? token.scopes.filter((scope) => !token.validatedScopes.includes(scope))
+    : [];
+  const extraScopes = token.isValid
+    ? token.validatedScopes.filter((scope) => !token.scopes.includes(scope))
+    : [];
+
+  if (token.isValid === false) {
+    issues.push('invalid');
+  }
+  if (token.expiresAt && token.expiresAt.getTime() <= now) {
+    issues.push('expired');
+  }
+  if (token.refreshError) {
+    issues.push('refresh_failed');
+  }
+
+  // User tokens with a refresh token and keep-alive app tokens are renewed by the refresh job
+  const isRenewed = token.tokenType === 'user' ? !!token.refreshToken : token.keepAlive;
+  if (
+    !isRenewed &&
+    token.expiresAt &&
+    token.expiresAt.getTime() > now &&
+    token.expiresAt.getTime() <= now + EXPIRING_WINDOW_MS
+  ) {
+    issues.push('expiring');
+  }
+  if (missingScopes.length > 0 || extraScopes.length > 0) {
+    issues.push('scope_drift');
+  }
+
+  let status: TokenHealthStatus = 'healthy';
+  if (issues.some((issue) => ERROR_ISSUES.includes(issue))) {
+    status = 'error';
+  } else if (issues.length > 0) {
+    status = 'warning';
+  } else if (
+    token.isValid === null ||
+    !token.lastValidatedAt ||
+    token.lastValidatedAt.getTime() < now - STALE_AFTER_MS
+  ) {
+    status = 'unknown';
+  }
+
+  return { status, issues, missingScopes, extraScopes };
+}
+
+/**
+ * Health fields returned with a token
+ */
+export function formatTokenHealth(token: SavedToken) {
+  return {
+    lastValidatedAt: token.lastValidatedAt?.toISOString() || null,
+    isValid: token.isValid,
+    validatedScopes: token.validatedScopes,
+    health: getTokenHealth(token),
+  };
+}
+
+/**
+ * Validate a saved token with Twitch and store the result (validity, actual scopes
+ * and expiration). Errors other than Twitch rejecting the token are rethrown
+ * without touching it, a network failure says nothing about the token.
+ * @param token - Saved token to validate
+ * @param skipLog - Do not write an API log entry (background validations)
+ * @returns Updated token row, and the validation data when the token is valid
+ */
+export async function validateSavedTokenHealth(token: SavedToken, skipLog = false): Promise<{
+  savedToken: SavedToken;
+  validation: Awaited<ReturnType<typeof validateToken>> | null;
+}> {
+  try {
+    const validation = await validateToken(
+      decrypt(token.accessToken),
+      { userId: token.userId, tokenId: token.id, source: 'token', skipLog }
+    );
+
+    const savedToken = await prisma.savedToken.update({
+      where: { id: token.id },
+      data: {
+        lastValidatedAt: new Date(),
+        isValid: true,
+        validatedScopes: validation.scopes,
+        // Tokens that never expire report 0
+        ...(validation.expiresIn > 0 && {
+          expiresAt: new Date(Date.now() + validation.expiresIn * 1000),
+        }),
+      },
+    });
+
+    return { savedToken, validation };
+  } catch (error: any) {
+    if (error.message !== 'Invalid or expired token') {
+      throw error;
+    }
+
+    const savedToken = await prisma.savedToken.update({
+      where: { id: token.id },
+      data: {
+        lastValidatedAt: new Date(),
+        isValid: false,
+      },
+    });
+
+    return { savedToken, validation: null };
+  }
+}
@@ -0,0 +1,209 @@
+import { SavedToken, TwitchConfig } from '@prisma/client';
+import prisma from '../config/database';
+import { encrypt, decrypt } from '../utils/encryption';
+import { refreshAccessToken, generateAppAccessToken, revokeToken } from './twitchApiService';
+
+/**
+ * Refresh a saved user token and store the rotated tokens.
+ * Failures are recorded on the token (refreshError/refreshFailedAt) and rethrown.
+ * @param token - User token with its Twitch config
+ * @returns Updated token row and the new decrypted tokens
+ */
+export async function refreshSavedToken(token: SavedToken & { twitchConfig: TwitchConfig }): Promise<{
+  savedToken: SavedToken;
+  accessToken: string;
+  refreshToken: string;
+}> {
+  if (token.tokenType !== 'user' || !token.refreshToken) {
+    throw new Error('This token cannot be refreshed');
+  }
+
+  let newTokenData;
+  try {
+    newTokenData = await refreshAccessToken(
+      token.twitchConfig.clientId,
+      decrypt(token.twitchConfig.clientSecret),
+      decrypt(token.refreshToken),
+      { userId: token.userId, tokenId: token.id, source: 'token' }
+    );
+  } catch (error: any) {
+    await prisma.savedToken.update({
+      where: { id: token.id },
+      data: {
+        refreshError: error.message,
+        refreshFailedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+
+  const savedToken = await prisma.savedToken.update({
+    where: { id: token.id },
+    data: {
+      accessToken: encrypt(newTokenData.accessToken),
+      // Twitch rotates refresh tokens, so the old one may no longer work
+      refreshToken: encrypt(newTokenData.refreshToken),
+      scopes: newTokenData.scopes,
+      expiresAt: new Date(Date.now() + newTokenData.expiresIn * 1000),
+      lastRefreshedAt: new Date(),
+      refreshError: null,
+      refreshFailedAt: null,
+      // New access token, not validated yet
+      isValid: null,
+    },
+  });
+
+  return {
+    savedToken,
+    accessToken: newTokenData.accessToken,
+    refreshToken: newTokenData.refreshToken,
+  };
+}
+
+/**
+ * Refreshes in progress, so concurrent refreshes of the same token (401 retries, the refresh
+ * job, manual refreshes) share one call (the second would otherwise use an already rotated refresh token)
+ */
+const pendingRefreshes = new Map<string, ReturnType<typeof refreshSavedToken>>();
+
+/**
+ * Refresh a saved user token, or wait for the refresh of the same token already in progress
+ * @param token - User token with its Twitch config
+ * @returns Same as refreshSavedToken
+ */
+export function refreshSavedTokenOnce(token: SavedToken & { twitchConfig: TwitchConfig }): ReturnType<typeof refreshSavedToken> {
+  let refresh = pendingRefreshes.get(token.id);
+  if (!refresh) {
+    refresh = refreshSavedToken(token).finally(() => pendingRefreshes.delete(token.id));
+    pendingRefreshes.set(token.id, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Whether a Twitch call result or error is a 401 (invalid or expired access token)
+ */
+function isUnauthorized(value: any): boolean {
+  return value?.status === 401 || value?.response?.status === 401;
+}
+
+/**
+ * Run a Twitch call with a saved token. If Twitch answers 401 for a user token, the token
+ * is refreshed (rotated tokens are stored) and the call retried once with the new access token.
+ * A failed refresh is recorded on the token and the original 401 is returned or rethrown.
+ * @param token - Token with its Twitch config
+ * @param call - Twitch call, given the decrypted access token
+ * @returns Result of the call, and whether the token was refreshed for it
+ */
+export async function withTokenRefreshRetry<T>(
+  token: SavedToken & { twitchConfig: TwitchConfig },
+  call: (accessToken: string) => Promise<T>
+): Promise<{ result: T; refreshed: boolean }> {
+  let result: T | undefined;
+  let unauthorizedError: unknown = null;
+
+  try {
+    result = await call(decrypt(token.accessToken));
+  } catch (error) {
+    if (!isUnauthorized(error)) {
+      throw error;
+    }
+    unauthorizedError = error;
+  }
+
+  if (!unauthorizedError && !isUnauthorized(result)) {
+    return { result: result as T, refreshed: false };
+  }
+
+  // Only user tokens can be refreshed, app tokens are regenerated by keep alive
+  if (token.tokenType !== 'user' || !token.refreshToken || token.revokedAt) {
+    if (unauthorizedError) {
+      throw unauthorizedError;
+    }
+    return { result: result as T, refreshed: false };
+  }
+
+  let accessToken: string;
+  try {
+    ({ accessToken } = await refreshSavedTokenOnce(token));
+  } catch (error: any) {
+    // Recorded on the token by refreshSavedToken, surface the original 401
+    console.error(`Failed to refresh token ${token.id} after a 401:`, error.message);
+    if (unauthorizedError) {
+      throw unauthorizedError;
+    }
+    return { result: result as T, refreshed: false };
+  }
+
+  return { result: await call(accessToken), refreshed: true };
+}
+
+/**
+ * Regenerate a saved app token in place, keeping its ID so that consumers
+ * referencing it keep working. The previous access token stays valid until it expires,
+ * so bots still using it keep working, unless it is revoked on request.
+ * Failures are recorded on the token (refreshError/refreshFailedAt) and rethrown.
+ * @param token - App token with its Twitch config
+ * @param revokePrevious - Revoke the previous access token at Twitch
+ * @returns Updated token row and the new decrypted access token
+ */
+export async function regenerateSavedAppToken(
+  token: SavedToken & { twitchConfig: TwitchConfig },
+  revokePrevious = false
+): Promise<{
+  savedToken: SavedToken;
+  accessToken: string;
+}> {
+  if (token.tokenType !== 'app') {
+    throw new Error('Only app tokens can be regenerated');
+  }
+
+  let newTokenData;
+  try {
+    newTokenData = await generateAppAccessToken(
+      token.twitchConfig.clientId,
+      decrypt(token.twitchConfig.clientSecret),
+      { userId: token.userId, tokenId: token.id, source: 'token' }
+    );
+  } catch (error: any) {
+    await prisma.savedToken.update({
+      where: { id: token.id },
+      data: {
+        refreshError: error.message,
+        refreshFailedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+
+  const savedToken = await prisma.savedToken.update({
+    where: { id: token.id },
+    data: {
+      accessToken: encrypt(newTokenData.accessToken),
+      expiresAt: new Date(Date.now() + newTokenData.expiresIn * 1000),
+      lastRefreshedAt: new Date(),
+      refreshError: null,
+      refreshFailedAt: null,
+      // New access token, not validated yet
+      isValid: null,
+    },
+  });
+
+  if (revokePrevious) {
+    try {
+      await revokeToken(
+        token.twitchConfig.clientId,
+        decrypt(token.accessToken),
+        { userId: token.userId, tokenId: token.id, source: 'token' }
+      );
+    } catch (error: any) {
+      // The new token is stored, an old one Twitch no longer knows is fine
+      console.error(`Failed to revoke the previous access token of ${token.id}:`, error.message);
+    }
+  }
+
+  return {
+    savedToken,
+    accessToken: newTokenData.accessToken,
+  };
+}
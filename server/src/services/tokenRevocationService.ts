@@ -0,0 +1,62 @@
+import { SavedToken, TwitchConfig } from '@prisma/client';
+import prisma from '../config/database';
+import { decrypt } from '../utils/encryption';
+import { revokeToken } from './twitchApiService';
+import { disconnectEventSubSession } from './eventSubWebSocketService';
+
+/**
+ * Outcome of revoking a saved token at Twitch
+ * - revoked: Twitch accepted the revocation
+ * - already_invalid: Twitch no longer knew the token (expired or revoked elsewhere)
+ * - failed: Twitch could not be reached or rejected the request
+ */
+export interface TokenRevocationResult {
+  tokenId: string;
+  name: string | null;
+  tokenType: string;
+  status: 'revoked' | 'already_invalid' | 'failed';
+  error?: string;
+}
+
+/**
+ * Revoke a saved token at Twitch and mark it as revoked.
+ * Never throws for Twitch errors, the outcome is reported in the result.
+ * @param token - Token with its Twitch config
+ * @returns Revocation result for the token
+ */
+export async function revokeSavedToken(token: SavedToken & { twitchConfig: TwitchConfig }): Promise<TokenRevocationResult> {
+  const result: TokenRevocationResult = {
+    tokenId: token.id,
+    name: token.name || token.channelLogin,
+    tokenType: token.tokenType,
+    status: 'revoked',
+  };
+
+  try {
+    await revokeToken(
+      token.twitchConfig.clientId,
+      decrypt(token.accessToken),
+      { userId: token.userId, tokenId: token.id, source: 'token' }
+    );
+  } catch (error: any) {
+    // Twitch answers "Invalid token" for tokens that are already dead
+    if (error.message === 'Invalid token') {
+      result.status = 'already_invalid';
+    } else {
+      return { ...result, status: 'failed', error: error.message };
+    }
+  }
+
+  // Its EventSub WebSocket session can no longer authenticate
+  await disconnectEventSubSession(token.id);
+
+  await prisma.savedToken.update({
+    where: { id: token.id },
+    data: {
+      revokedAt: new Date(),
+      keepAlive: false,
+    },
+  });
+
+  return result;
+}
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import { twitchRequest, TwitchLogContext } from './twitchClient';
 
 const TWITCH_AUTH_URL = 'https://id.twitch.tv/oauth2/token';
 
@@ -6,20 +6,24 @@ const TWITCH_AUTH_URL = 'https://id.twitch.tv/oauth2/token';
  * Generate an App Access Token using Client Credentials flow
  * @param clientId - Twitch application Client ID
  * @param clientSecret - Twitch application Client Secret
+ * @param context - User (and token) the call is logged for
  * @returns Access token and expiration time
  */
 export async function generateAppAccessToken(
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  context: TwitchLogContext
 ): Promise<{ accessToken: string; expiresIn: number }> {
   try {
-    const response = await axios.post(TWITCH_AUTH_URL, null, {
+    const response = await twitchRequest({
+      method: 'POST',
+      url: TWITCH_AUTH_URL,
       params: {
         client_id: clientId,
         client_secret: clientSecret,
         grant_type: 'client_credentials',
       },
-    });
+    }, context);
 
     return {
       accessToken: response.data.access_token,
@@ -36,9 +40,10 @@ export async function generateAppAccessToken(
 /**
  * Validate a token with Twitch API
  * @param accessToken - Token to validate
+ * @param context - User (and token) the call is logged for
  * @returns Token validation data
  */
-export async function validateToken(accessToken: string): Promise<{
+export async function validateToken(accessToken: string, context: TwitchLogContext): Promise<{
   clientId: string;
   login: string | null;
   scopes: string[];
@@ -46,11 +51,13 @@ export async function validateToken(accessToken: string): Promise<{
   expiresIn: number;
 }> {
   try {
-    const response = await axios.get('https://id.twitch.tv/oauth2/validate', {
+    const response = await twitchRequest({
+      method: 'GET',
+      url: 'https://id.twitch.tv/oauth2/validate',
       headers: {
         Authorization: `OAuth ${accessToken}`,
       },
-    });
+    }, context);
 
     return {
       clientId: response.data.client_id,
@@ -61,7 +68,11 @@ export async function validateToken(accessToken: string): Promise<{
     };
   } catch (error: any) {
     console.error('Token validation error:', error.response?.data || error.message);
-    throw new Error('Invalid or expired token');
+    // Only a 401 means the token is invalid, network and server errors say nothing about it
+    if (error.response?.status === 401) {
+      throw new Error('Invalid or expired token');
+    }
+    throw new Error('Failed to validate token');
   }
 }
 
@@ -69,21 +80,25 @@ export async function validateToken(accessToken: string): Promise<{
  * Revoke a token
  * @param clientId - Twitch application Client ID
  * @param accessToken - Token to revoke
+ * @param context - User (and token) the call is logged for
  */
 export async function revokeToken(
   clientId: string,
-  accessToken: string
+  accessToken: string,
+  context: TwitchLogContext
 ): Promise<void> {
   try {
-    await axios.post('https://id.twitch.tv/oauth2/revoke', null, {
+    await twitchRequest({
+      method: 'POST',
+      url: 'https://id.twitch.tv/oauth2/revoke',
       params: {
         client_id: clientId,
         token: accessToken,
       },
-    });
+    }, context);
   } catch (error: any) {
     console.error('Token revocation error:', error.response?.data || error.message);
-    throw new Error('Failed to revoke token');
+    throw new Error(error.response?.data?.message || 'Failed to revoke token');
   }
 }
 
@@ -91,11 +106,13 @@ export async function revokeToken(
  * Start the Device Flow authorization process
  * @param clientId - Twitch application Client ID
  * @param scopes - Array of scopes to request
+ * @param context - User (and token) the call is logged for
  * @returns Device code, user code, and verification URI
  */
 export async function startDeviceFlow(
   clientId: string,
-  scopes: string[]
+  scopes: string[],
+  context: TwitchLogContext
 ): Promise<{
   deviceCode: string;
   userCode: string;
@@ -104,12 +121,14 @@ export async function startDeviceFlow(
   interval: number;
 }> {
   try {
-    const response = await axios.post('https://id.twitch.tv/oauth2/device', null, {
+    const response = await twitchRequest({
+      method: 'POST',
+      url: 'https://id.twitch.tv/oauth2/device',
       params: {
         client_id: clientId,
         scopes: scopes.join(' '),
       },
-    });
+    }, context);
 
     return {
       deviceCode: response.data.device_code,
@@ -130,20 +149,24 @@ export async function startDeviceFlow(
  * Poll for device flow token (check if user authorized)
  * @param clientId - Twitch application Client ID
  * @param deviceCode - Device code from startDeviceFlow
+ * @param context - User (and token) the call is logged for
  * @returns Access token, refresh token, and expiration, or null if still pending
  */
 export async function pollDeviceToken(
   clientId: string,
-  deviceCode: string
+  deviceCode: string,
+  context: TwitchLogContext
 ): Promise<{ accessToken: string; refreshToken: string; expiresIn: number; scopes: string[] } | null> {
   try {
-    const response = await axios.post(TWITCH_AUTH_URL, null, {
+    const response = await twitchRequest({
+      method: 'POST',
+      url: TWITCH_AUTH_URL,
       params: {
         client_id: clientId,
         device_code: deviceCode,
         grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
       },
-    });
+    }, context);
 
     return {
       accessToken: response.data.access_token,
@@ -210,16 +233,20 @@ export function generateAuthorizationUrl(
  * @param clientSecret - Twitch application Client Secret
  * @param code - Authorization code from redirect
  * @param redirectUri - Same redirect URI used in authorization
+ * @param context - User (and token) the call is logged for
  * @returns Access token, refresh token, and expiration
  */
 export async function exchangeCodeForToken(
   clientId: string,
   clientSecret: string,
   code: string,
-  redirectUri: string
+  redirectUri: string,
+  context: TwitchLogContext
 ): Promise<{ accessToken: string; refreshToken: string; expiresIn: number; scopes: string[] }> {
   try {
-    const response = await axios.post(TWITCH_AUTH_URL, null, {
+    const response = await twitchRequest({
+      method: 'POST',
+      url: TWITCH_AUTH_URL,
       params: {
         client_id: clientId,
         client_secret: clientSecret,
@@ -227,7 +254,7 @@ export async function exchangeCodeForToken(
         grant_type: 'authorization_code',
         redirect_uri: redirectUri,
       },
-    });
+    }, context);
 
     return {
       accessToken: response.data.access_token,
@@ -250,22 +277,26 @@ export async function exchangeCodeForToken(
  * @param clientId - Twitch application Client ID
  * @param clientSecret - Twitch application Client Secret
  * @param refreshToken - Refresh token from previous authorization
+ * @param context - User (and token) the call is logged for
  * @returns New access token and refresh token
  */
 export async function refreshAccessToken(
   clientId: string,
   clientSecret: string,
-  refreshToken: string
+  refreshToken: string,
+  context: TwitchLogContext
 ): Promise<{ accessToken: string; refreshToken: string; expiresIn: number; scopes: string[] }> {
   try {
-    const response = await axios.post(TWITCH_AUTH_URL, null, {
+    const response = await twitchRequest({
+      method: 'POST',
+      url: TWITCH_AUTH_URL,
       params: {
         client_id: clientId,
         client_secret: clientSecret,
         refresh_token: refreshToken,
         grant_type: 'refresh_token',
       },
-    });
+    }, context);
 
     return {
       accessToken: response.data.access_token,
@@ -0,0 +1,393 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import prisma from '../config/database';
+import { REDACTED, SENSITIVE_KEYS, redactApiLogBodies } from './logRedactionService';
+
+const TWITCH_HELIX_BASE = 'https://api.twitch.tv/helix';
+
+/**
+ * Where a logged Twitch call originated
+ * - client: logged by the browser through POST /api/logs
+ * - proxy: Helix request sent through POST /api/helix/proxy
+ * - token: OAuth token flows (generate, validate, refresh, revoke)
+ * - eventsub: EventSub subscription management
+ */
+export type TwitchLogSource = 'client' | 'proxy' | 'token' | 'eventsub';
+
+/**
+ * Who a Twitch call is made for, used to write its API log entry
+ */
+export interface TwitchLogContext {
+  userId: string;
+  tokenId?: string | null;
+  source: TwitchLogSource;
+  skipLog?: boolean; // Background calls the user did not make (e.g. hourly token validation)
+}
+
+/**
+ * Retry policy for rate-limited (429) and failed (5xx) Twitch calls
+ */
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/**
+ * 5xx responses are only retried for methods that are safe to repeat
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Default number of pages followed by twitchRequestAllPages
+ */
+export const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Rate-limit bucket of a token (or client ID for calls without a saved token),
+ * as last reported by the Ratelimit-* response headers
+ */
+export interface RateLimitBucket {
+  key: string;
+  tokenId: string | null;
+  limit: number;
+  remaining: number;
+  resetAt: Date | null;
+  queued: number; // Requests waiting for the bucket to refill
+  updatedAt: Date;
+}
+
+const buckets = new Map<string, RateLimitBucket>();
+
+/**
+ * Flatten headers to strings, hiding credentials
+ * @param headers - Axios request or response headers
+ * @returns Plain header map
+ */
+function serializeHeaders(headers: Record<string, any> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  Object.entries(headers || {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || (typeof value === 'object' && !Array.isArray(value))) {
+      return;
+    }
+
+    const name = key.toLowerCase();
+    if (name === 'authorization') {
+      // Keep the scheme (Bearer/OAuth) so the log still shows how the call authenticated
+      result[name] = `${String(value).split(' ')[0]} ${REDACTED}`;
+    } else {
+      result[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Endpoint as shown in the logs: Helix paths relative to the Helix base URL,
+ * other Twitch URLs (e.g. id.twitch.tv) in full, with secrets in the query redacted
+ * @param config - Axios request config
+ */
+function getLoggedEndpoint(config: AxiosRequestConfig): string {
+  const url = new URL(axios.getUri(config));
+
+  url.searchParams.forEach((_, key) => {
+    if (SENSITIVE_KEYS.has(key)) {
+      url.searchParams.set(key, REDACTED);
+    }
+  });
+
+  // URLSearchParams encodes the brackets, keep the marker readable
+  const search = url.search.replace(/%5BREDACTED%5D/g, REDACTED);
+
+  if (url.href.startsWith(`${TWITCH_HELIX_BASE}/`)) {
+    return `${url.pathname.slice('/helix'.length)}${search}`;
+  }
+
+  return `${url.origin}${url.pathname}${search}`;
+}
+
+/**
+ * Parse an integer header, ignoring missing or malformed values
+ */
+function parseIntHeader(value: string | undefined): number | null {
+  const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Bucket key of a call: the saved token when there is one, otherwise the Client-Id header
+ */
+function getBucketKey(config: AxiosRequestConfig, context: TwitchLogContext): string | null {
+  if (context.tokenId) {
+    return `token:${context.tokenId}`;
+  }
+
+  const headers = serializeHeaders(config.headers as Record<string, any> | undefined);
+  return headers['client-id'] ? `client:${headers['client-id']}` : null;
+}
+
+/**
+ * Update a bucket from the Ratelimit-* headers of a response
+ */
+function updateBucket(key: string, context: TwitchLogContext, response: AxiosResponse | undefined): void {
+  const headers = serializeHeaders(response?.headers as Record<string, any> | undefined);
+  const limit = parseIntHeader(headers['ratelimit-limit']);
+  const remaining = parseIntHeader(headers['ratelimit-remaining']);
+  const reset = parseIntHeader(headers['ratelimit-reset']);
+
+  // Only Helix sends rate-limit headers
+  if (limit === null || remaining === null) {
+    return;
+  }
+
+  const state = {
+    limit,
+    remaining,
+    resetAt: reset !== null ? new Date(reset * 1000) : null,
+    updatedAt: new Date(),
+  };
+
+  // Update in place, queued requests hold a reference to the bucket
+  const bucket = buckets.get(key);
+  if (bucket) {
+    Object.assign(bucket, state);
+  } else {
+    buckets.set(key, { key, tokenId: context.tokenId || null, queued: 0, ...state });
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Milliseconds until a bucket refills, capped so a bad header cannot stall a request forever
+ */
+function getResetDelay(resetAt: Date | null): number {
+  if (!resetAt) {
+    return RETRY_BASE_DELAY_MS;
+  }
+  return Math.min(Math.max(resetAt.getTime() - Date.now(), 0) + 100, MAX_RATE_LIMIT_WAIT_MS);
+}
+
+/**
+ * Wait while the bucket is empty, then reserve a point for the request
+ */
+async function acquireBucket(key: string): Promise<void> {
+  let bucket = buckets.get(key);
+
+  while (bucket && bucket.remaining <= 0 && bucket.resetAt && bucket.resetAt.getTime() > Date.now()) {
+    bucket.queued++;
+    try {
+      await sleep(getResetDelay(bucket.resetAt));
+    } finally {
+      bucket.queued--;
+    }
+
+    // Assume the bucket refilled, the next response corrects it
+    if (bucket.resetAt && bucket.resetAt.getTime() <= Date.now()) {
+      bucket.remaining = bucket.limit;
+      bucket.resetAt = null;
+    }
+    bucket = buckets.get(key);
+  }
+
+  if (bucket && bucket.remaining > 0) {
+    bucket.remaining--;
+  }
+}
+
+/**
+ * Delay before retrying a call, or null if it should not be retried
+ * @param status - HTTP status of the attempt
+ * @param method - HTTP method of the call
+ * @param attempt - Number of retries already made
+ * @param resetAt - Bucket reset time from the response
+ */
+function getRetryDelay(status: number | undefined, method: string, attempt: number, resetAt: Date | null): number | null {
+  if (attempt >= MAX_RETRIES || status === undefined) {
+    return null;
+  }
+
+  if (status === 429) {
+    return getResetDelay(resetAt);
+  }
+
+  if (status >= 500 && IDEMPOTENT_METHODS.has(method)) {
+    return RETRY_BASE_DELAY_MS * 2 ** attempt;
+  }
+
+  return null;
+}
+
+/**
+ * Current rate-limit buckets of the given tokens
+ * @param tokenIds - IDs of saved tokens
+ * @returns Known buckets, tokens that have not called Helix yet are omitted
+ */
+export function getTokenRateLimits(tokenIds: string[]): RateLimitBucket[] {
+  return tokenIds
+    .map((tokenId) => buckets.get(`token:${tokenId}`))
+    .filter((bucket): bucket is RateLimitBucket => bucket !== undefined);
+}
+
+/**
+ * Write the API log entry of a Twitch call. Never throws, logging must not break the call.
+ * @returns ID of the log entry, or null if it could not be written
+ */
+async function logTwitchCall(
+  config: AxiosRequestConfig,
+  context: TwitchLogContext,
+  durationMs: number,
+  response: AxiosResponse | undefined,
+  error: string | null
+): Promise<string | null> {
+  try {
+    const responseHeaders = serializeHeaders(response?.headers as Record<string, any> | undefined);
+    const rateLimitReset = parseIntHeader(responseHeaders['ratelimit-reset']);
+    const endpoint = getLoggedEndpoint(config);
+    const { requestBody, responseBody, redactedFields } = await redactApiLogBodies(
+      context.userId,
+      endpoint,
+      config.data,
+      response && response.data !== '' ? response.data : null
+    );
+
+    const apiLog = await prisma.apiLog.create({
+      data: {
+        userId: context.userId,
+        tokenId: context.tokenId || null,
+        source: context.source,
+        method: (config.method || 'GET').toUpperCase(),
+        endpoint,
+        status: response?.status ?? null,
+        requestHeaders: JSON.stringify(serializeHeaders(config.headers as Record<string, any> | undefined)),
+        requestBody: requestBody !== null ? JSON.stringify(requestBody) : null,
+        responseHeaders: response ? JSON.stringify(responseHeaders) : null,
+        responseBody: responseBody !== null && responseBody !== undefined ? JSON.stringify(responseBody) : null,
+        durationMs,
+        rateLimitLimit: parseIntHeader(responseHeaders['ratelimit-limit']),
+        rateLimitRemaining: parseIntHeader(responseHeaders['ratelimit-remaining']),
+        rateLimitReset: rateLimitReset !== null ? new Date(rateLimitReset * 1000) : null,
+        error,
+        redactedFields,
+      },
+    });
+
+    return apiLog.id;
+  } catch (logError) {
+    console.error('Failed to log Twitch call:', logError);
+    return null;
+  }
+}
+
+/**
+ * Send a request to Twitch and record it in the API logs (unless context.skipLog).
+ * Waits while the token's rate-limit bucket is empty and retries 429s (after Ratelimit-Reset)
+ * and 5xx errors of idempotent methods (with backoff). Every attempt is logged.
+ * Behaves like axios.request: non-2xx statuses throw unless `validateStatus` says otherwise.
+ * @param config - Axios request config
+ * @param context - User (and token) the call is made for
+ * @returns Axios response with the ID of its log entry
+ */
+export async function twitchRequest<T = any>(
+  config: AxiosRequestConfig,
+  context: TwitchLogContext
+): Promise<AxiosResponse<T> & { logId: string | null }> {
+  const requestConfig: AxiosRequestConfig = { timeout: 30000, ...config };
+  const method = (requestConfig.method || 'GET').toUpperCase();
+  const bucketKey = getBucketKey(requestConfig, context);
+
+  for (let attempt = 0; ; attempt++) {
+    if (bucketKey) {
+      await acquireBucket(bucketKey);
+    }
+
+    const startedAt = Date.now();
+    let response: AxiosResponse<T> | undefined;
+    let requestError: any = null;
+
+    try {
+      response = await axios.request<T>(requestConfig);
+    } catch (error: any) {
+      requestError = error;
+      response = error.response;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    if (bucketKey) {
+      updateBucket(bucketKey, context, response);
+    }
+
+    const logId = context.skipLog ? null : await logTwitchCall(
+      requestConfig,
+      context,
+      durationMs,
+      response,
+      response ? null : requestError?.message || 'Request to Twitch failed'
+    );
+
+    const reset = parseIntHeader(serializeHeaders(response?.headers as Record<string, any> | undefined)['ratelimit-reset']);
+    const retryDelay = getRetryDelay(response?.status, method, attempt, reset !== null ? new Date(reset * 1000) : null);
+    if (retryDelay !== null) {
+      await sleep(retryDelay);
+      continue;
+    }
+
+    if (requestError) {
+      throw requestError;
+    }
+    return Object.assign(response!, { logId });
+  }
+}
+
+/**
+ * Pages of a paginated Helix response, merged
+ */
+export interface TwitchPagedResult<T> {
+  data: T[]; // `data` of every successful page, in order
+  pages: number; // Number of requests made
+  cursor: string | null; // Cursor of the next page when the page cap was hit or a page failed
+  response: AxiosResponse & { logId: string | null }; // Last response received
+}
+
+/**
+ * Send a paginated Helix request, following `pagination.cursor` (as the `after` parameter)
+ * until there are no more pages, a page does not succeed or the page cap is reached.
+ * Every page is rate limited, retried and logged like a single twitchRequest.
+ * @param config - Axios request config with an absolute URL
+ * @param context - User (and token) the call is made for
+ * @param maxPages - Maximum number of pages to fetch
+ * @returns Merged data of the pages and the last response
+ */
+export async function twitchRequestAllPages<T = any>(
+  config: AxiosRequestConfig,
+  context: TwitchLogContext,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<TwitchPagedResult<T>> {
+  const data: T[] = [];
+  let cursor: string | null = null;
+  let pages = 0;
+  let response: AxiosResponse & { logId: string | null };
+
+  do {
+    const url = new URL(config.url!);
+    if (cursor) {
+      url.searchParams.set('after', cursor);
+    }
+
+    response = await twitchRequest({ ...config, url: url.toString() }, context);
+    pages++;
+
+    // With a custom validateStatus failed pages resolve, stop there and keep the cursor to resume
+    if (response.status < 200 || response.status >= 300) {
+      break;
+    }
+
+    if (Array.isArray(response.data?.data)) {
+      data.push(...response.data.data);
+    }
+    cursor = response.data?.pagination?.cursor || null;
+  } while (cursor && pages < maxPages);
+
+  return { data, pages, cursor, response };
+}